@@ -0,0 +1,228 @@
+import { resolve } from 'node:path';
+import { bundledDependencies } from './assets';
+import { resolveConfig, UnityPackageOptions } from './config';
+import { getSDKProjects } from './build';
+import { createContext, PackageContext, requireSolutionFile, resolveProject } from './context';
+import { deriveAssets, resolveAssets } from './dependencies';
+import { barename, hashFile, listFiles } from './filesystem';
+import { initPackageMetadata } from './metadata';
+import { configureOutput, resetErrorCount, stage } from './output';
+import { assembleStage, buildStage, cleanStage, needsBuild, packStage, verifyStage } from './pipeline';
+import { flag, requiredOptions, validateOptions } from './schema';
+
+/**
+ * The result of creating a Unity package.
+ */
+export interface UnityPackageResult {
+  /** the full path to the .tgz file */
+  tgz: string;
+
+  /** the SHA-512 hash of the .tgz file (hex) */
+  sha512: string;
+
+  /** the package name (from the package.json) */
+  name: string;
+
+  /** the package version (from the package.json) */
+  version: string;
+
+  /** the full path to the folder with the package contents */
+  packageFolder: string;
+
+  /** the files in the package, relative to the package folder */
+  files: string[];
+
+  /** the NuGet packages bundled in the package */
+  dependencies: Array<{ name: string; version: string; license?: string }>;
+}
+
+/**
+ * Creates a Unity package from a .NET solution.
+ *
+ * This runs the whole pipeline: it builds the solution (if required), lays out
+ * the package folder, verifies it, and packages it as a .tgz file.
+ *
+ * The options are merged with the configuration files next to the solution file
+ * (environment variables are not read). All paths are computed for each call, so
+ * more than one package can be created in the same process (one at a time).
+ *
+ * @param options - The options for the package
+ * @returns A Promise that resolves to the result (the .tgz path and hash, version, file list and bundled dependencies)
+ * @throws {Error} If the options are not valid, or any stage fails
+ *
+ * @example
+ * ```typescript
+ * const { tgz, version } = await createUnityPackage({ sln: './MyApi.sln', company: 'mycompany' });
+ * console.log(`Created ${tgz} (${version})`);
+ * ```
+ */
+export async function createUnityPackage(options: UnityPackageOptions): Promise<UnityPackageResult> {
+  return await runPipeline(await resolveProject(createContext(prepareOptions(options))));
+}
+
+/**
+ * Runs the whole pipeline for a package: cleans up (with `clean`), builds the solution, and
+ * assembles, verifies and packs the package.
+ *
+ * Unlike `createUnityPackage`, the options in the context are used as they are (they must
+ * already be merged with the configuration files and environment, and validated).
+ *
+ * @param context - The package context (with the project resolved, see `resolveProject`)
+ * @returns A Promise that resolves to the result
+ * @throws {Error} If any stage fails
+ */
+export async function runPipeline(context: PackageContext): Promise<UnityPackageResult> {
+  if (context.options.clean) {
+    await stage('clean', () => cleanStage(context));
+  }
+
+  await stage('build', () => buildStage(context, !!context.options.rebuild));
+  return await createPackage(context);
+}
+
+/**
+ * Creates a Unity package for each eligible project in a .NET solution.
+ *
+ * Each package gets its own name (from the project name, unless it is set in the
+ * `projects` option), version (from the project), and output folder (a folder
+ * named after the project, in the target folder). The .tgz files are created in
+ * the target folder (or the `package` folder, if given).
+ *
+ * When a project references another eligible project, the referenced package
+ * becomes a UPM dependency: its assemblies (and the NuGet packages it bundles)
+ * are not bundled again.
+ *
+ * The solution is built once, then each package is assembled, verified and packed.
+ *
+ * @param options - The options for the packages
+ * @returns A Promise that resolves to the results (one for each package)
+ * @throws {Error} If the options are not valid, there are no eligible projects, or any stage fails
+ *
+ * @example
+ * ```typescript
+ * for (const { tgz } of await createUnityPackages({ sln: './MyApi.sln', company: 'mycompany' })) {
+ *   console.log(`Created ${tgz}`);
+ * }
+ * ```
+ */
+export async function createUnityPackages(options: UnityPackageOptions): Promise<UnityPackageResult[]> {
+  return await runAllProjects(prepareOptions(options));
+}
+
+/**
+ * Creates a Unity package for each eligible project in a .NET solution (see `createUnityPackages`).
+ *
+ * Unlike `createUnityPackages`, the options are used as they are (they must already be
+ * merged with the configuration files and environment, and validated).
+ *
+ * @param merged - The resolved options for the packages
+ * @returns A Promise that resolves to the results (one for each package)
+ * @throws {Error} If the options can't be used for more than one package, there are no eligible projects, or any stage fails
+ */
+export async function runAllProjects(merged: UnityPackageOptions): Promise<UnityPackageResult[]> {
+  for (const key of ['name', 'displayName', 'project']) {
+    if (merged[key] !== undefined) {
+      throw new Error(`${flag(key)} can't be used with ${flag('allProjects')} (set the name of each package in the "projects" section of the configuration file)`);
+    }
+  }
+  const solution = createContext(merged);
+  const projects = await getSDKProjects(requireSolutionFile(solution));
+  if (projects.length === 0) {
+    throw new Error('No valid projects found');
+  }
+
+  const { packageFolder: target } = solution.locations;
+  const contexts = projects.map(project => {
+    const projectName = barename(project.csprojFile);
+    return createContext({
+      ...merged,
+      ...merged.projects?.[projectName],
+      target: resolve(target, projectName),
+      package: merged.package ?? target,
+    }, project);
+  });
+
+  if (merged.clean) {
+    await stage('clean', async () => {
+      for (const context of [solution, ...contexts]) {
+        await cleanStage(context);
+      }
+    });
+  }
+
+  // the solution is built once for all of the packages
+  let force = !!merged.rebuild;
+  for (const context of contexts) {
+    force ||= await needsBuild(context, false);
+  }
+  await stage('build', () => buildStage(contexts[0], force));
+
+  // the references between the packages need the names and versions of all of them
+  const byProject = new Map<string, PackageContext>();
+  for (const context of contexts) {
+    await initPackageMetadata(context);
+    byProject.set(context.project!.csprojFile, context);
+  }
+
+  // the assemblies provided by a package (its own, and those of the packages it depends on)
+  const provided = (context: PackageContext): string[] => [
+    context.project!.assemblyName,
+    ...context.project!.projectReferences.filter(each => byProject.has(each)).flatMap(each => provided(byProject.get(each)!)),
+  ];
+
+  for (const context of contexts) {
+    context.packageReferences = [];
+    for (const each of context.project!.projectReferences.filter(each => byProject.has(each))) {
+      const reference = byProject.get(each)!;
+      const packages = (await deriveAssets(reference)).map(asset => asset.name);
+      context.packageReferences.push({ name: reference.packageMetadata.name, version: reference.packageMetadata.version, assemblies: provided(reference), packages });
+    }
+  }
+
+  const results = new Array<UnityPackageResult>();
+  for (const context of contexts) {
+    results.push(await createPackage(context));
+  }
+  return results;
+}
+
+/**
+ * Resolves, validates and applies the options for creating packages.
+ *
+ * @param options - The options passed to the API
+ * @returns The merged options
+ * @throws {Error} If the options are not valid
+ */
+function prepareOptions(options: UnityPackageOptions) {
+  const { options: resolved, sources } = resolveConfig(options, {});
+  const { options: merged, problems } = validateOptions(resolved, sources, requiredOptions);
+  if (problems.length) {
+    throw new Error(`Invalid options:\n  ${problems.join('\n  ')}`);
+  }
+  configureOutput(merged);
+  resetErrorCount();
+  return merged;
+}
+
+/**
+ * Assembles, verifies and packs a package (the solution must already be built).
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the result
+ */
+async function createPackage(context: PackageContext): Promise<UnityPackageResult> {
+  await stage('assemble', () => assembleStage(context));
+  const { name, version } = await stage('verify', () => verifyStage(context));
+  const tgz = await stage('pack', () => packStage(context));
+
+  const { packageFolder } = context.locations;
+  return {
+    tgz,
+    sha512: await hashFile(tgz),
+    name,
+    version,
+    packageFolder,
+    files: await listFiles(packageFolder),
+    dependencies: bundledDependencies(await resolveAssets(context)),
+  };
+}
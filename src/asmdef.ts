@@ -4,8 +4,6 @@
  * Internal assemblies are not exposed to the public API and are used for
  * organizing internal code that should not be accessible to package consumers.
  * These assemblies are typically referenced by the main runtime assembly.
- * 
- * (currently not used - Unity will give a warning if you don't have any .cs files)
  */
 export const internalAsmDefTemplate = {
   name: "",
@@ -29,8 +27,6 @@ export const internalAsmDefTemplate = {
  * External assemblies are exposed to the public API and can be referenced
  * by Unity projects that use this package. These assemblies define the
  * public interface that package consumers will interact with.
- * 
- * (currently not used - Unity will give a warning if you don't have any .cs files)
  */
 export const runtimeAsmDefTemplate = {
   name: "",
@@ -47,4 +43,71 @@ export const runtimeAsmDefTemplate = {
   defineConstraints: [],
   versionDefines: [],
   noEngineReferences: false
-}
\ No newline at end of file
+}
+
+/**
+ * The name of the script that is put next to a generated assembly definition.
+ *
+ * Unity warns about an assembly definition that has no scripts (and doesn't compile it),
+ * so a folder that has no other .cs files gets this one.
+ */
+export const asmDefScriptName = 'AssemblyInfo.cs';
+
+/**
+ * The first line of the script that is put next to a generated assembly definition (so that it can be recognized).
+ */
+export const asmDefScriptMarker = '// Generated by make-unity-sdk';
+
+/**
+ * Returns the script that is put next to a generated assembly definition.
+ *
+ * @param name - The name of the assembly definition
+ * @returns The contents of the script
+ */
+export function asmDefScript(name: string) {
+  return `${asmDefScriptMarker}: Unity warns about an assembly definition without scripts, so ${name} gets this one.
+[assembly: System.Reflection.AssemblyMetadata("UnityAssemblyDefinition", "${name}")]
+`;
+}
+
+/**
+ * Template for the assembly definition of a sample (in Samples~/).
+ *
+ * A sample is compiled in the project that imports it, against the runtime assembly
+ * definition (and the precompiled assemblies in the package, which are referenced automatically).
+ */
+export const sampleAsmDefTemplate = {
+  name: "",
+  rootNamespace: "",
+  references: [],
+  includePlatforms: [],
+  excludePlatforms: [],
+  allowUnsafeCode: false,
+  overrideReferences: false,
+  precompiledReferences: [],
+  autoReferenced: false,
+  defineConstraints: [],
+  versionDefines: [],
+  noEngineReferences: false
+}
+
+/**
+ * Template for the assembly definition of the Editor scripts (in Editor/).
+ *
+ * The Editor assembly is only compiled in the Unity Editor, against the runtime assembly
+ * definition (see `createEditorLayer`).
+ */
+export const editorAsmDefTemplate = {
+  name: "",
+  rootNamespace: "",
+  references: [],
+  includePlatforms: ["Editor"],
+  excludePlatforms: [],
+  allowUnsafeCode: false,
+  overrideReferences: false,
+  precompiledReferences: [],
+  autoReferenced: true,
+  defineConstraints: [],
+  versionDefines: [],
+  noEngineReferences: false
+}
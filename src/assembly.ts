@@ -0,0 +1,492 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * The identity of a .NET assembly.
+ */
+export interface AssemblyIdentity {
+  /** the assembly name (ie, `System.Memory`) */
+  name: string;
+
+  /** the assembly version (ie, `4.0.1.2`) */
+  version: string;
+
+  /** the culture (undefined for a neutral assembly) */
+  culture?: string;
+
+  /** the public key token (hex; undefined for an assembly that isn't strong-named) */
+  publicKeyToken?: string;
+}
+
+/**
+ * The kinds of column in a metadata table.
+ *
+ * - `2`, `4` - a fixed size value
+ * - `string`, `guid`, `blob` - an index into a heap
+ * - a number in an array - an index into that table
+ * - the name of a coded index - an index into one of several tables
+ */
+type Column = 2 | 4 | 'string' | 'guid' | 'blob' | [number] | keyof typeof codedIndexes;
+
+/**
+ * The coded indexes (ECMA-335 II.24.2.6): the tables that each one can refer to, in tag order.
+ */
+const codedIndexes = {
+  TypeDefOrRef: [0x02, 0x01, 0x1b],
+  HasConstant: [0x04, 0x08, 0x17],
+  HasCustomAttribute: [0x06, 0x04, 0x01, 0x02, 0x08, 0x09, 0x0a, 0x00, 0x0e, 0x17, 0x14, 0x11, 0x1a, 0x1b, 0x20, 0x23, 0x26, 0x27, 0x28, 0x2a, 0x2c, 0x2b],
+  HasFieldMarshal: [0x04, 0x08],
+  HasDeclSecurity: [0x02, 0x06, 0x20],
+  MemberRefParent: [0x02, 0x01, 0x1a, 0x06, 0x1b],
+  HasSemantics: [0x14, 0x17],
+  MethodDefOrRef: [0x06, 0x0a],
+  MemberForwarded: [0x04, 0x06],
+  Implementation: [0x26, 0x23, 0x27],
+  CustomAttributeType: [-1, -1, 0x06, 0x0a, -1],
+  ResolutionScope: [0x00, 0x1a, 0x23, 0x01],
+  TypeOrMethodDef: [0x02, 0x06],
+};
+
+/**
+ * The columns of each metadata table (ECMA-335 II.22), by table number.
+ */
+const tables: Record<number, Column[]> = {
+  0x00: [2, 'string', 'guid', 'guid', 'guid'], // Module
+  0x01: ['ResolutionScope', 'string', 'string'], // TypeRef
+  0x02: [4, 'string', 'string', 'TypeDefOrRef', [0x04], [0x06]], // TypeDef
+  0x03: [[0x04]], // FieldPtr
+  0x04: [2, 'string', 'blob'], // Field
+  0x05: [[0x06]], // MethodPtr
+  0x06: [4, 2, 2, 'string', 'blob', [0x08]], // MethodDef
+  0x07: [[0x08]], // ParamPtr
+  0x08: [2, 2, 'string'], // Param
+  0x09: [[0x02], 'TypeDefOrRef'], // InterfaceImpl
+  0x0a: ['MemberRefParent', 'string', 'blob'], // MemberRef
+  0x0b: [2, 'HasConstant', 'blob'], // Constant
+  0x0c: ['HasCustomAttribute', 'CustomAttributeType', 'blob'], // CustomAttribute
+  0x0d: ['HasFieldMarshal', 'blob'], // FieldMarshal
+  0x0e: [2, 'HasDeclSecurity', 'blob'], // DeclSecurity
+  0x0f: [2, 4, [0x02]], // ClassLayout
+  0x10: [4, [0x04]], // FieldLayout
+  0x11: ['blob'], // StandAloneSig
+  0x12: [[0x02], [0x14]], // EventMap
+  0x13: [[0x14]], // EventPtr
+  0x14: [2, 'string', 'TypeDefOrRef'], // Event
+  0x15: [[0x02], [0x17]], // PropertyMap
+  0x16: [[0x17]], // PropertyPtr
+  0x17: [2, 'string', 'blob'], // Property
+  0x18: [2, [0x06], 'HasSemantics'], // MethodSemantics
+  0x19: [[0x02], 'MethodDefOrRef', 'MethodDefOrRef'], // MethodImpl
+  0x1a: ['string'], // ModuleRef
+  0x1b: ['blob'], // TypeSpec
+  0x1c: [2, 'MemberForwarded', 'string', [0x1a]], // ImplMap
+  0x1d: [4, [0x04]], // FieldRVA
+  0x1e: [4, 4], // EncLog
+  0x1f: [4], // EncMap
+  0x20: [4, 2, 2, 2, 2, 4, 'blob', 'string', 'string'], // Assembly
+  0x21: [4], // AssemblyProcessor
+  0x22: [4, 4, 4], // AssemblyOS
+  0x23: [2, 2, 2, 2, 4, 'blob', 'string', 'string', 'blob'], // AssemblyRef
+  0x24: [4, [0x23]], // AssemblyRefProcessor
+  0x25: [4, 4, 4, [0x23]], // AssemblyRefOS
+  0x26: [4, 'string', 'blob'], // File
+  0x27: [4, 4, 'string', 'string', 'Implementation'], // ExportedType
+  0x28: [4, 4, 'string', 'Implementation'], // ManifestResource
+  0x29: [[0x02], [0x02]], // NestedClass
+  0x2a: [2, 2, 'TypeOrMethodDef', 'string'], // GenericParam
+  0x2b: ['MethodDefOrRef', 'blob'], // MethodSpec
+  0x2c: [[0x2a], 'TypeDefOrRef'], // GenericParamConstraint
+};
+
+/**
+ * Reads the metadata tables of an assembly (the `#~` stream), and the heaps they refer to.
+ *
+ * @param data - The contents of the file
+ * @param strings - The offset of the #Strings heap
+ * @param blobs - The offset of the #Blob heap
+ * @param tableStream - The offset of the `#~` stream
+ * @returns Functions to read the rows of the tables, and the strings and blobs
+ * @throws {Error} If the stream has a table that isn't known
+ */
+function metadataTables(data: Buffer, strings: number, blobs: number, tableStream: number) {
+  const rows = new Array<number>(64).fill(0);
+  const offsets = new Array<number>(64).fill(0);
+  const sizes = new Array<number[]>(64);
+
+  const heapSizes = data.readUInt8(tableStream + 6);
+  const valid = data.readBigUInt64LE(tableStream + 8);
+  let position = tableStream + 24;
+  for (let table = 0; table < 64; table++) {
+    if (valid & (1n << BigInt(table))) {
+      rows[table] = data.readUInt32LE(position);
+      position += 4;
+    }
+  }
+  if (heapSizes & 0x40) {
+    // extra data after the row counts
+    position += 4;
+  }
+
+  const heapIndex = (flag: number) => heapSizes & flag ? 4 : 2;
+  const size = (column: Column) => {
+    switch (column) {
+      case 2:
+      case 4:
+        return column;
+      case 'string':
+        return heapIndex(0x01);
+      case 'guid':
+        return heapIndex(0x02);
+      case 'blob':
+        return heapIndex(0x04);
+    }
+    if (Array.isArray(column)) {
+      return rows[column[0]] < 0x10000 ? 2 : 4;
+    }
+    const targets = codedIndexes[column];
+    const tagBits = Math.ceil(Math.log2(targets.length));
+    return Math.max(...targets.map(each => each < 0 ? 0 : rows[each])) < 2 ** (16 - tagBits) ? 2 : 4;
+  };
+
+  for (let table = 0; table < 64; table++) {
+    if (!rows[table]) {
+      continue;
+    }
+    const columns = tables[table];
+    if (!columns) {
+      throw new Error(`unknown metadata table 0x${table.toString(16)}`);
+    }
+    sizes[table] = columns.map(size);
+    offsets[table] = position;
+    position += rows[table] * sizes[table].reduce((total, each) => total + each, 0);
+  }
+
+  return {
+    /** the number of rows in a table */
+    count: (table: number) => rows[table],
+
+    /** reads the columns of a row (row numbers start at 1) */
+    row: (table: number, row: number) => {
+      let column = offsets[table] + (row - 1) * sizes[table].reduce((total, each) => total + each, 0);
+      return sizes[table].map(each => {
+        const value = each === 2 ? data.readUInt16LE(column) : data.readUInt32LE(column);
+        column += each;
+        return value;
+      });
+    },
+
+    /** reads a string from the #Strings heap */
+    string: (index: number) => data.toString('utf8', strings + index, data.indexOf(0, strings + index)),
+
+    /** reads a blob from the #Blob heap */
+    blob: (index: number) => {
+      let start = blobs + index;
+      const first = data[start];
+      let length: number;
+      if ((first & 0x80) === 0) {
+        length = first;
+        start += 1;
+      } else if ((first & 0xc0) === 0x80) {
+        length = data.readUInt16BE(start) & 0x3fff;
+        start += 2;
+      } else {
+        length = data.readUInt32BE(start) & 0x1fffffff;
+        start += 4;
+      }
+      return data.subarray(start, start + length);
+    },
+  };
+}
+
+/**
+ * Reads the headers of a PE file (a .dll or .exe).
+ *
+ * @param data - The contents of the file
+ * @returns The data directories (by index) and a function that finds the file offset of an RVA, or undefined if the file isn't a PE file
+ * @throws {Error} If the file is truncated
+ */
+function readImage(data: Buffer) {
+  if (data.length < 0x40 || data.readUInt16LE(0) !== 0x5a4d) {
+    return undefined;
+  }
+  const pe = data.readUInt32LE(0x3c);
+  if (data.readUInt32LE(pe) !== 0x00004550) {
+    return undefined;
+  }
+
+  const sectionCount = data.readUInt16LE(pe + 6);
+  const optionalHeader = pe + 24;
+  const optionalHeaderSize = data.readUInt16LE(pe + 20);
+  // the data directories start at 96 (PE32) or 112 (PE32+)
+  const directories = optionalHeader + (data.readUInt16LE(optionalHeader) === 0x20b ? 112 : 96);
+  const directory = (index: number) => {
+    if (directories + (index + 1) * 8 > optionalHeader + optionalHeaderSize) {
+      return undefined;
+    }
+    const rva = data.readUInt32LE(directories + index * 8);
+    return rva ? { rva, size: data.readUInt32LE(directories + index * 8 + 4) } : undefined;
+  };
+
+  const sections = optionalHeader + optionalHeaderSize;
+  const offset = (rva: number) => {
+    for (let section = sections; section < sections + sectionCount * 40; section += 40) {
+      const virtualAddress = data.readUInt32LE(section + 12);
+      const size = Math.max(data.readUInt32LE(section + 8), data.readUInt32LE(section + 16));
+      if (rva >= virtualAddress && rva < virtualAddress + size) {
+        return rva - virtualAddress + data.readUInt32LE(section + 20);
+      }
+    }
+    throw new Error(`RVA 0x${rva.toString(16)} is not in any section`);
+  };
+  return { directory, offset };
+}
+
+/**
+ * Finds the metadata of a .NET assembly in a PE file.
+ *
+ * @param data - The contents of the file
+ * @returns The metadata, or undefined if the file isn't a .NET assembly (ie, a native DLL)
+ * @throws {Error} If the file is truncated, or the metadata is malformed
+ */
+function readMetadata(data: Buffer) {
+  const image = readImage(data);
+  // the CLI header is data directory 14
+  const cliHeader = image?.directory(14);
+  if (!image || !cliHeader) {
+    return undefined;
+  }
+  const { offset } = image;
+
+  const root = offset(data.readUInt32LE(offset(cliHeader.rva) + 8));
+  if (data.readUInt32LE(root) !== 0x424a5342) {
+    throw new Error('invalid metadata signature');
+  }
+  let position = root + 16 + data.readUInt32LE(root + 12);
+  const streamCount = data.readUInt16LE(position + 2);
+  position += 4;
+
+  const streams: Record<string, number> = {};
+  for (let stream = 0; stream < streamCount; stream++) {
+    const streamOffset = data.readUInt32LE(position);
+    const end = data.indexOf(0, position + 8);
+    const name = data.toString('ascii', position + 8, end);
+    streams[name] = root + streamOffset;
+    position = (end + 4) & ~3;
+  }
+
+  const tableStream = streams['#~'] ?? streams['#-'];
+  if (tableStream === undefined) {
+    throw new Error('no metadata tables');
+  }
+  return metadataTables(data, streams['#Strings'], streams['#Blob'], tableStream);
+}
+
+/**
+ * Returns the public key token of a public key (the last 8 bytes of its SHA-1 hash, reversed).
+ */
+function publicKeyToken(publicKey: Buffer) {
+  return Buffer.from(createHash('sha1').update(publicKey).digest().subarray(-8)).reverse().toString('hex');
+}
+
+/**
+ * A .NET assembly, and the assemblies it references.
+ */
+export interface AssemblyInfo {
+  /** the identity of the assembly */
+  identity: AssemblyIdentity;
+
+  /** the assemblies it references (its AssemblyRef table) */
+  references: AssemblyIdentity[];
+}
+
+/**
+ * Reads the identity of a .NET assembly and the assemblies it references (from the Assembly
+ * and AssemblyRef tables of its ECMA-335 metadata).
+ *
+ * @param data - The contents of the .dll
+ * @returns The assembly, or undefined if the file isn't a .NET assembly (ie, a native DLL, or a netmodule)
+ * @throws {Error} If the file looks like an assembly, but can't be read
+ *
+ * @example
+ * ```typescript
+ * const { identity, references } = readAssembly(await readFile('./Runtime/MyApi.dll'))!;
+ * // references: [{ name: 'netstandard', version: '2.1.0.0', publicKeyToken: 'cc7b13ffcd2ddd51' }, ...]
+ * ```
+ */
+export function readAssembly(data: Buffer): AssemblyInfo | undefined {
+  let metadata: ReturnType<typeof readMetadata>;
+  try {
+    metadata = readMetadata(data);
+  } catch (err) {
+    throw new Error(`Failed to read the assembly metadata: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!metadata?.count(0x20)) {
+    return undefined;
+  }
+
+  const [, major, minor, build, revision, , publicKey, name, culture] = metadata.row(0x20, 1);
+  const key = metadata.blob(publicKey);
+  const identity: AssemblyIdentity = {
+    name: metadata.string(name),
+    version: [major, minor, build, revision].join('.'),
+    culture: metadata.string(culture) || undefined,
+    publicKeyToken: key.length ? publicKeyToken(key) : undefined,
+  };
+
+  const references = new Array<AssemblyIdentity>();
+  for (let row = 1; row <= metadata.count(0x23); row++) {
+    const [major, minor, build, revision, flags, publicKeyOrToken, name, culture] = metadata.row(0x23, row);
+    const token = metadata.blob(publicKeyOrToken);
+    references.push({
+      name: metadata.string(name),
+      version: [major, minor, build, revision].join('.'),
+      culture: metadata.string(culture) || undefined,
+      // flag 0x0001: the blob is the full public key, rather than the token
+      publicKeyToken: token.length ? flags & 0x0001 ? publicKeyToken(token) : token.toString('hex') : undefined,
+    });
+  }
+  return { identity, references };
+}
+
+/**
+ * Reads the identity of a .NET assembly (from the Assembly table of its ECMA-335 metadata).
+ *
+ * @param data - The contents of the .dll
+ * @returns The identity, or undefined if the file isn't a .NET assembly (ie, a native DLL, or a netmodule)
+ * @throws {Error} If the file looks like an assembly, but can't be read
+ *
+ * @example
+ * ```typescript
+ * const identity = readAssemblyIdentity(await readFile('./Runtime/Internal/System.Memory.dll'));
+ * // { name: 'System.Memory', version: '4.0.5.0', publicKeyToken: 'cc7b13ffcd2ddd51' }
+ * ```
+ */
+export function readAssemblyIdentity(data: Buffer): AssemblyIdentity | undefined {
+  return readAssembly(data)?.identity;
+}
+
+/**
+ * The debug information of an assembly (from the debug directory of the PE file).
+ */
+export interface DebugInfo {
+  /** the path of the .pdb that the compiler wrote (from the CodeView entry) */
+  pdbPath?: string;
+
+  /** the .pdb is a portable PDB (which Unity can use), rather than a Windows PDB */
+  portable: boolean;
+
+  /** the portable PDB is embedded in the assembly (so a separate .pdb isn't needed) */
+  embedded: boolean;
+}
+
+/**
+ * Reads the debug information of an assembly: where its .pdb is, what kind of .pdb it is,
+ * and whether it is embedded in the assembly.
+ *
+ * @param data - The contents of the .dll
+ * @returns The debug information, or undefined if the file isn't a PE file or has no debug directory
+ * @throws {Error} If the file is truncated
+ *
+ * @example
+ * ```typescript
+ * const debug = readDebugInfo(await readFile('./bin/Release/netstandard2.0/MyApi.dll'));
+ * // { pdbPath: '/src/MyApi/obj/Release/netstandard2.0/MyApi.pdb', portable: true, embedded: false }
+ * ```
+ */
+export function readDebugInfo(data: Buffer): DebugInfo | undefined {
+  const image = readImage(data);
+  // the debug directory is data directory 6; each entry is 28 bytes
+  const debug = image?.directory(6);
+  if (!image || !debug) {
+    return undefined;
+  }
+
+  const result: DebugInfo = { portable: false, embedded: false };
+  const start = image.offset(debug.rva);
+  for (let entry = start; entry + 28 <= start + debug.size; entry += 28) {
+    const type = data.readUInt32LE(entry + 12);
+    const pointer = data.readUInt32LE(entry + 24);
+    if (type === 2 && data.toString('ascii', pointer, pointer + 4) === 'RSDS') {
+      // CodeView: 'RSDS', the PDB id (16 bytes), the age (4 bytes) and the path; a portable PDB has the minor version 'PM'
+      result.pdbPath = data.toString('utf8', pointer + 24, data.indexOf(0, pointer + 24));
+      result.portable = data.readUInt16LE(entry + 10) === 0x504d;
+    } else if (type === 17) {
+      result.embedded = true;
+      result.portable = true;
+    }
+  }
+  return result;
+}
+
+/**
+ * The types that a .NET assembly defines and uses (from its TypeDef, NestedClass and TypeRef tables).
+ */
+export interface AssemblyTypes {
+  /** the full names of the types it defines that are visible outside of it (public, or nested in a visible type and public or protected) */
+  visible: Set<string>;
+
+  /** the types it uses from other assemblies (by full name, with the name of the assembly) */
+  references: Array<{ assembly: string; type: string }>;
+}
+
+/**
+ * Reads the types that a .NET assembly defines and uses.
+ *
+ * Full names are `<namespace>.<name>`, and nested types are `<enclosing type>/<name>`
+ * (ie, `MyApi.Client/Options`).
+ *
+ * @param data - The contents of the .dll
+ * @returns The types, or undefined if the file isn't a .NET assembly
+ * @throws {Error} If the file looks like an assembly, but can't be read
+ *
+ * @example
+ * ```typescript
+ * const { visible } = readAssemblyTypes(await readFile('./Runtime/MyApi.dll'))!;
+ * visible.has('MyApi.Client'); // true
+ * ```
+ */
+export function readAssemblyTypes(data: Buffer): AssemblyTypes | undefined {
+  let metadata: ReturnType<typeof readMetadata>;
+  try {
+    metadata = readMetadata(data);
+  } catch (err) {
+    throw new Error(`Failed to read the assembly metadata: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!metadata?.count(0x20)) {
+    return undefined;
+  }
+  const rows = (table: number) => Array.from({ length: metadata!.count(table) ?? 0 }, (_, index) => metadata!.row(table, index + 1));
+  const fullName = (namespace: number, name: number) => [metadata!.string(namespace), metadata!.string(name)].filter(Boolean).join('.');
+
+  // the types, and the types they are nested in
+  const definitions = rows(0x02);
+  const enclosing = new Map(rows(0x29).map(([nested, outer]) => [nested, outer]));
+  const definitionName = (row: number): string => {
+    const [, name, namespace] = definitions[row - 1];
+    const outer = enclosing.get(row);
+    return outer ? `${definitionName(outer)}/${metadata!.string(name)}` : fullName(namespace, name);
+  };
+  // (visibility: 1 - public, 2 - nested public, 4 - nested family, 7 - nested family or assembly)
+  const isVisible = (row: number): boolean => {
+    const visibility = definitions[row - 1][0] & 0x7;
+    const outer = enclosing.get(row);
+    return outer ? [2, 4, 7].includes(visibility) && isVisible(outer) : visibility === 1;
+  };
+  const visible = new Set(definitions.map((_, index) => index + 1).filter(isVisible).map(definitionName));
+
+  // the type references, and the assemblies they are in (ResolutionScope: 2 - AssemblyRef, 3 - an enclosing TypeRef)
+  const typeRefs = rows(0x01);
+  const resolve = (row: number): { assembly: string; type: string } | undefined => {
+    const [scope, name, namespace] = typeRefs[row - 1];
+    switch (scope & 0x3) {
+      case 2:
+        return { assembly: metadata!.string(metadata!.row(0x23, scope >> 2)[6]), type: fullName(namespace, name) };
+      case 3: {
+        const outer = resolve(scope >> 2);
+        return outer && { assembly: outer.assembly, type: `${outer.type}/${metadata!.string(name)}` };
+      }
+    }
+    return undefined;
+  };
+  const references = typeRefs.map((_, index) => resolve(index + 1)).filter(each => each !== undefined);
+  return { visible, references };
+}
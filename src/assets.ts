@@ -1,10 +1,59 @@
 /**
- * Array of NuGet package assets to be included in the Unity package.
+ * A NuGet package that is bundled in the Unity package.
+ */
+export interface Asset {
+  /** the package id */
+  name: string;
+
+  /** the package version (when not given, it is taken from the end of the origin URL) */
+  version?: string;
+
+  /** the URL of the package on nuget.org */
+  origin: string;
+
+  /** the URL to download the .nupkg from (when not given, it is found in the package sources; see `readNuGetConfig`) */
+  packageUrl?: string;
+
+  /** the file name of the .nupkg */
+  filename: string;
+
+  /**
+   * the files to extract from the .nupkg (glob patterns, relative to the root of the .nupkg;
+   * see `matchesPattern`); when not given, the nearest compatible framework folder is used
+   * (see `selectFramework`)
+   */
+  files?: string | string[];
+
+  /** the files to leave out (glob patterns, applied to the files picked by `files` or by the framework) */
+  excludeFiles?: string | string[];
+
+  /** keep the subfolders of the extracted files (ie, for satellite resource assemblies), rather than putting them all in Runtime/Internal/ */
+  preserveFolders?: boolean;
+
+  /** the names of the runtime assemblies in the package (from the project.assets.json) */
+  assemblies?: string[];
+
+  /** the license of the package (if known) */
+  license?: string;
+
+  /** the SHA-512 hash of the .nupkg (base64, from the project.assets.json) */
+  sha512?: string;
+
+  /** don't bundle this package, even if the project depends on it */
+  exclude?: boolean;
+}
+
+/**
+ * Overrides for the NuGet packages that are bundled in the Unity package (empty by default).
  * 
- * Each asset represents a NuGet package that will be downloaded and extracted
- * into the Unity package. The assets include essential .NET libraries that
- * provide functionality for async operations, JSON handling, memory management,
- * and other core features needed by the Unity SDK.
+ * The packages to bundle are worked out from the project's `obj/project.assets.json`
+ * (see `resolveAssets`). When a package in that list has an entry here with the same
+ * version, the entry is applied to it (ie, to pick the files to extract instead of the
+ * nearest compatible framework folder), keeping the assemblies and hash from the
+ * project.assets.json; an entry for a different version is not applied (the project
+ * decides the version). An entry with `exclude: true` removes the package from the list.
+ * Entries for packages that the project doesn't depend on are ignored. When the
+ * project.assets.json can't be found, this list is used as-is.
  * 
  * @example
  * ```typescript
@@ -12,100 +61,36 @@
  * {
  *   name: 'Package.Name',
  *   origin: 'https://www.nuget.org/packages/Package.Name/1.0.0',
- *   packageUrl: 'https://www.nuget.org/api/v2/package/package.name/1.0.0',
  *   filename: 'package.name.1.0.0.nupkg',
- *   files: 'lib/netstandard2.0/*',
  *   license: "MIT"
  * }
  * ```
  */
-export const assets = [
-  {
-    name: 'Microsoft.Bcl.AsyncInterfaces',
-    origin: 'https://www.nuget.org/packages/Microsoft.Bcl.AsyncInterfaces/10.0.0-preview.6.25358.103',
-    packageUrl: 'https://www.nuget.org/api/v2/package/microsoft.bcl.asyncinterfaces/10.0.0-preview.6.25358.103',
-    filename: 'microsoft.bcl.asyncinterfaces.10.0.0-preview.6.25358.103.nupkg',
-    files: 'lib/netstandard2.1/*',
-    license: "MIT",
-  },
-  {
-    name: 'OneOf',
-    origin: 'https://www.nuget.org/packages/OneOf/3.0.271',
-    packageUrl: 'https://www.nuget.org/api/v2/package/oneof/3.0.271',
-    filename: 'oneof.3.0.271.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'OneOf.Extended',
-    origin: 'https://www.nuget.org/packages/OneOf.Extended/3.0.271',
-    packageUrl: 'https://www.nuget.org/api/v2/package/oneof.extended/3.0.271',
-    filename: 'oneof.extended.3.0.271.nupkg',
-    files: 'lib/netstandard1.3/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.Buffers',
-    origin: 'https://www.nuget.org/packages/System.Buffers/4.6.1',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.buffers/4.6.1',
-    filename: 'system.buffers.4.6.1.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.IO.Pipelines',
-    origin: 'https://www.nuget.org/packages/System.IO.Pipelines/10.0.0-preview.6.25358.103',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.io.pipelines/10.0.0-preview.6.25358.103',
-    filename: 'system.io.pipelines.10.0.0-preview.6.25358.103.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.Memory',
-    origin: 'https://www.nuget.org/packages/System.Memory/4.6.3',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.memory/4.6.3',
-    filename: 'system.memory.4.6.3.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.Runtime.CompilerServices.Unsafe',
-    origin: 'https://www.nuget.org/packages/System.Runtime.CompilerServices.Unsafe/6.1.2',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.runtime.compilerservices.unsafe/6.1.2',
-    filename: 'system.runtime.compilerservices.unsafe.6.1.2.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.Text.Encodings.Web',
-    origin: 'https://www.nuget.org/packages/System.Text.Encodings.Web/10.0.0-preview.6.25358.103',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.text.encodings.web/10.0.0-preview.6.25358.103',
-    filename: 'system.text.encodings.web.10.0.0-preview.6.25358.103.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.Text.Json',
-    origin: 'https://www.nuget.org/packages/System.Text.Json/10.0.0-preview.6.25358.103',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.text.json/10.0.0-preview.6.25358.103',
-    filename: 'system.text.json.10.0.0-preview.6.25358.103.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'System.Threading.Tasks.Extensions',
-    origin: 'https://www.nuget.org/packages/System.Threading.Tasks.Extensions/4.6.3',
-    packageUrl: 'https://www.nuget.org/api/v2/package/system.threading.tasks.extensions/4.6.3',
-    filename: 'system.threading.tasks.extensions.4.6.3.nupkg',
-    files: 'lib/netstandard2.0/*',
-    license: "MIT",
-  },
-  {
-    name: 'portable.system.datetimeonly',
-    origin: 'https://www.nuget.org/packages/portable.system.datetimeonly/9.0.0',
-    packageUrl: 'https://www.nuget.org/api/v2/package/portable.system.datetimeonly/9.0.0',
-    filename: 'portable.system.datetimeonly.9.0.0.nupkg',
-    files: 'lib/netstandard2.1/*',
-    license: "MIT",
-  }
-];
\ No newline at end of file
+export const assets: Asset[] = [];
+
+/**
+ * Returns the name, version and license of the NuGet packages that are bundled in the Unity package.
+ * 
+ * @param bundled - The bundled packages (see `resolveAssets`)
+ * @returns The name, version and license of each bundled package
+ * 
+ * @example
+ * ```typescript
+ * for (const { name, version } of bundledDependencies(await resolveAssets(context))) {
+ *   console.log(`${name} ${version}`);
+ * }
+ * ```
+ */
+export function bundledDependencies(bundled: Asset[]) {
+  return bundled.map(each => ({ name: each.name, version: assetVersion(each), license: each.license }));
+}
+
+/**
+ * Returns the version of a bundled NuGet package.
+ *
+ * @param asset - The package
+ * @returns The version (when not given, it is taken from the end of the origin URL)
+ */
+export function assetVersion({ version, origin }: Asset) {
+  return version ?? origin.split('/').pop() ?? '';
+}
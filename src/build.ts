@@ -1,4 +1,4 @@
-import { resolve } from 'node:path';
+import { basename, resolve } from 'node:path';
 import { run } from './automation';
 
 /**
@@ -43,6 +43,8 @@ export async function buildSolution(slnPath: string) {
  *   - isTestProject: Whether this is a test project (based on IsTestProject property)
  *   - packageProjectUrl: The package project URL if available
  *   - version: The project version if available
+ *   - assemblyName: The name of the assembly the project builds
+ *   - projectReferences: Full paths to the projects that the project references
  * @throws {Error} If the solution file cannot be listed or parsed
  * 
  * @example
@@ -73,7 +75,7 @@ export async function getProjects(slnPath: string) {
     const csprojFile = resolve(slnPath, '..', each);
 
     // Use MSBuild to extract specific properties from the project file
-    const { exitCode, stdout } = await run('dotnet', 'msbuild', csprojFile, '--getProperty:IsTestProject,PackageProjectUrl,Version');
+    const { exitCode, stdout } = await run('dotnet', 'msbuild', csprojFile, '--getProperty:IsTestProject,PackageProjectUrl,Version,AssemblyName', '--getItem:ProjectReference');
 
     // If MSBuild fails, return an invalid project object
     if (exitCode) {
@@ -82,38 +84,88 @@ export async function getProjects(slnPath: string) {
         isValid: false,
         isTestProject: false,
         packageProjectUrl: '',
-        version: ''
+        version: '',
+        assemblyName: '',
+        projectReferences: new Array<string>()
       }
     }
 
     // Parse the MSBuild JSON output to extract properties
-    const { Properties } = JSON.parse(stdout);
+    const { Properties, Items } = JSON.parse(stdout);
     return {
       csprojFile,
       isValid: true,
       isTestProject: Properties.IsTestProject === 'true',
-      packageProjectUrl: Properties.PackageProjectUrl,
-      version: Properties.Version
+      packageProjectUrl: Properties.PackageProjectUrl as string,
+      version: Properties.Version as string,
+      assemblyName: Properties.AssemblyName as string,
+      projectReferences: ((Items?.ProjectReference ?? []) as Array<{ FullPath: string }>).map(each => resolve(each.FullPath))
     };
   }));
 }
 
+/**
+ * A project in a .NET solution (see `getProjects`).
+ */
+export type SdkProject = Awaited<ReturnType<typeof getProjects>>[number];
+
+/**
+ * Returns the projects in a .NET solution that a Unity package can be created from.
+ * 
+ * These are the projects that are not test projects, and that have both a
+ * `PackageProjectUrl` and a `Version`.
+ * 
+ * @param slnPath - The path to the .NET solution file (.sln) to analyze
+ * @returns A Promise that resolves to the eligible projects
+ * @throws {Error} If the solution cannot be parsed
+ * 
+ * @example
+ * ```typescript
+ * for (const project of await getSDKProjects('./MySolution.sln')) {
+ *   console.log(`${project.csprojFile} (${project.version})`);
+ * }
+ * ```
+ */
+export async function getSDKProjects(slnPath: string) {
+  return (await getProjects(slnPath)).filter(project =>
+    project.isValid &&
+    !project.isTestProject &&
+    project.packageProjectUrl &&
+    project.version
+  );
+}
+
+/**
+ * Creates the error for a solution that has more than one eligible project.
+ * 
+ * @param projects - The eligible projects
+ * @returns The error (with a hint on how to select a project)
+ */
+export function multipleProjectsError(projects: SdkProject[]) {
+  const names = projects.map(each => basename(each.csprojFile)).join(', ');
+  return new Error(`Multiple valid projects found (${names}); use --project <csproj> to select one, or --all-projects to create a package for each`);
+}
+
 /**
  * Extracts SDK properties from the main project in a .NET solution.
  * 
  * This function filters the solution's projects to find the primary SDK project
  * (excluding test projects) and returns its properties. It ensures there is exactly
- * one valid main project in the solution.
+ * one valid main project in the solution, unless a project file is given (which
+ * must be one of the projects in the solution).
  * 
  * @param slnPath - The path to the .NET solution file (.sln) to analyze
+ * @param projectFile - The path to the project to use (optional)
  * @returns A Promise that resolves to the SDK project object containing:
  *   - csprojFile: Full path to the main project file
  *   - isValid: Always true for returned projects
  *   - isTestProject: Always false for returned projects
  *   - packageProjectUrl: The package project URL
  *   - version: The project version
+ *   - assemblyName: The name of the assembly the project builds
+ *   - projectReferences: Full paths to the projects that the project references
  * @throws {Error} If no valid projects are found, multiple valid projects are found,
- *                 or if the solution cannot be parsed
+ *                 the given project is not in the solution, or if the solution cannot be parsed
  * 
  * @example
  * ```typescript
@@ -127,15 +179,22 @@ export async function getProjects(slnPath: string) {
  * }
  * ```
  */
-export async function getSDKProperties(slnPath: string) {
+export async function getSDKProperties(slnPath: string, projectFile?: string) {
+  if (projectFile) {
+    const fullPath = resolve(projectFile);
+    const project = (await getProjects(slnPath)).find(each => each.csprojFile === fullPath);
+    if (!project) {
+      throw new Error(`Project '${projectFile}' is not in the solution '${slnPath}'`);
+    }
+    if (!project.isValid) {
+      throw new Error(`Failed to read the properties of the project '${projectFile}'`);
+    }
+    return project;
+  }
+
   // Get all projects and filter to find the main SDK project
   // filter out any projects that have a "IsTestProject" property
-  const projects = (await getProjects(slnPath)).filter(project =>
-    project.isValid &&
-    !project.isTestProject &&
-    project.packageProjectUrl &&
-    project.version
-  );
+  const projects = await getSDKProjects(slnPath);
 
   // Ensure exactly one valid main project exists
   switch (projects.length) {
@@ -144,7 +203,7 @@ export async function getSDKProperties(slnPath: string) {
     case 1:
       return projects[0];
     default:
-      throw new Error('Multiple valid projects found');
+      throw multipleProjectsError(projects);
   }
 
-}
\ No newline at end of file
+}
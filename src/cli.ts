@@ -1,7 +1,139 @@
-import { resolve } from 'path';
-import { cwd } from 'process';
-import { bold, cyan, green, yellow } from './ansi';
-import { exit } from './output';
+import { bold, cyan, green, grey, yellow } from './ansi';
+import { runAllProjects, runPipeline } from './api';
+import { bundledDependencies } from './assets';
+import { resolveConfig, UnityPackageOptions } from './config';
+import { createContext, PackageContext, requireSolutionFile, resolveProject } from './context';
+import { directoryExists, fileExists, hashFile, onFileChange } from './filesystem';
+import { configureOutput, error, errorCount, exit, isJsonReporter, log, report, RunSummary, stage, timings, warn, warning, warningCount } from './output';
+import { assembleStage, buildStage, cleanStage, needsBuild, packStage, verifyStage } from './pipeline';
+import { createPlan, planClean, showPlan } from './plan';
+import { watchPackage } from './watch';
+import { flag, OptionDefinition, optionSchema, requiredOptions, validateOptions } from './schema';
+
+/**
+ * The definition of a command.
+ */
+interface CommandDefinition {
+  /** a one-line description of the command */
+  summary: string;
+
+  /** the usage line, shown in the help */
+  usage: string;
+
+  /** a longer description of the command */
+  description: string[];
+
+  /** the options that must be given for the command */
+  required: string[];
+
+  /** the options that apply to the command (from the option schema) */
+  options: string[];
+}
+
+/**
+ * The commands that the tool supports.
+ *
+ * Each command runs a single stage of the pipeline, so that (for example) a package
+ * folder can be edited by hand and re-packed without rebuilding the solution.
+ */
+export const commands: Record<string, CommandDefinition> = {
+  build: {
+    summary: 'Build the .NET solution',
+    usage: 'build --sln <solution-file> [options]',
+    description: [
+      `Builds the solution using 'dotnet build -c Release'.`,
+      `The build runs even if the build output already exists.`,
+    ],
+    required: ['sln'],
+    options: ['sln', 'project', 'dryRun', 'verbose', 'debug', 'quiet'],
+  },
+  assemble: {
+    summary: 'Lay out the Unity package folder from the build output',
+    usage: 'assemble --sln <solution-file> [options]',
+    description: [
+      `Copies the build output into Runtime/, downloads and extracts the NuGet`,
+      `dependencies into Runtime/Internal/, creates the package metadata files`,
+      `and the Unity .meta files. The solution must already be built.`,
+    ],
+    required: ['sln'],
+    options: ['sln', 'project', 'target', 'clean', 'dryRun', 'name', 'version', 'company', 'displayName', 'description', 'author', 'license', 'changelogUrl', 'documentationUrl', 'packageName', 'packageScope', 'repoUrl', 'placeholder'],
+  },
+  verify: {
+    summary: 'Check an existing package folder',
+    usage: 'verify [--target <path>] [options]',
+    description: [
+      `Checks the package folder for unresolved placeholders, a valid package.json,`,
+      `and missing or orphaned .meta files.`,
+    ],
+    required: [],
+    options: ['target'],
+  },
+  pack: {
+    summary: 'Create the .tgz from an existing package folder',
+    usage: 'pack [--target <path>] [--package <path>] [options]',
+    description: [
+      `Verifies the package folder, then packages it as a .tgz file using 'npm pack'.`,
+      `Nothing is rebuilt or downloaded.`,
+    ],
+    required: [],
+    options: ['target', 'package', 'dryRun'],
+  },
+  clean: {
+    summary: 'Remove temporary data and the package folder',
+    usage: 'clean [--sln <solution-file>] [--target <path>]',
+    description: [
+      `Removes the temp folder (including downloaded NuGet packages) and the package folder.`,
+      `When a solution file is given, the build output of the API project is removed too.`,
+    ],
+    required: [],
+    options: ['sln', 'project', 'target', 'dryRun'],
+  },
+};
+
+/**
+ * The name of a command that the tool supports.
+ */
+export type Command = 'build' | 'assemble' | 'verify' | 'pack' | 'clean';
+
+/**
+ * Displays the help information for a single command.
+ *
+ * @param name - The command to show help for
+ */
+export function showCommandHelp(name: Command) {
+  const { summary, usage, description, options } = commands[name];
+  console.log(bold`Unity SDK Package Creation Tool - ${name}`);
+  console.log(`${summary}.\n`);
+
+  console.log(bold`USAGE:`);
+  console.log(`  node main.js ${usage}\n`);
+
+  console.log(bold`DESCRIPTION:`);
+  for (const line of description) {
+    console.log(`  ${line}`);
+  }
+  console.log();
+
+  console.log(bold`OPTIONS:`);
+  showOptions(options.map(option => [option, optionSchema[option]]));
+  console.log(`Use ${green`--help`} without a command to see all of the options.\n`);
+}
+
+/**
+ * Displays the help for a set of options from the option schema.
+ *
+ * @param options - The option names and definitions to show
+ */
+function showOptions(options: Array<[string, OptionDefinition]>) {
+  for (const [name, { argument, description, defaultValue, example }] of options) {
+    const usage = argument ? `${flag(name)} ${argument}` : flag(name);
+    console.log(`  ${cyan(usage.padEnd(22))} ${description}${defaultValue ? ` (default: ${defaultValue})` : ''}`);
+    if (example) {
+      console.log(`  ${''.padEnd(22)} Example: ${flag(name)} ${example}`);
+    }
+  }
+  console.log();
+}
 
 /**
  * Displays comprehensive help information for the Unity SDK package creation tool.
@@ -17,67 +149,32 @@ export function showHelp(showDetailed: boolean = false) {
   console.log(`A tool for creating Unity packages from .NET solutions with NuGet dependencies.\n`);
 
   console.log(bold`USAGE:`);
-  console.log(`  node main.js --sln <solution-file> [options]\n`);
-
-  console.log(bold`REQUIRED ARGUMENTS:`);
-  console.log(`  ${cyan`--sln <path>`}          Path to the .NET solution file (.sln) to build and package`);
-  console.log(`                        Example: --sln ./MyProject.sln\n`);
-
-  console.log(bold`OPTIONAL ARGUMENTS:`);
-  console.log(`  ${cyan`--target <path>`}      Output directory for the Unity package (default: ./output)`);
-  console.log(`                        Example: --target ./my-unity-package\n`);
-
-  console.log(`  ${cyan`--package <path>`}     Parent directory for the final .tgz package (default: <target>/..)`);
-  console.log(`                        Example: --package ./packages\n`);
-
-  console.log(`  ${cyan`--rebuild`}            Force rebuild the solution even if build output exists`);
-  console.log(`                        Use this when you want to ensure a fresh build\n`);
+  console.log(`  node main.js --sln <solution-file> [options]`);
+  console.log(`  node main.js <command> [options]\n`);
 
-  console.log(`  ${cyan`--clean`}              Clean output and temp folders before running`);
-  console.log(`                        Removes all previous build artifacts\n`);
-
-  console.log(`  ${cyan`--reset`}              Clean output and temp folders, then exit`);
-  console.log(`                        Useful for cleaning up without running the full process\n`);
+  console.log(bold`COMMANDS:`);
+  console.log(`  When no command is given, all of the stages are run in order.\n`);
+  for (const [name, { summary }] of Object.entries(commands)) {
+    console.log(`  ${cyan(name.padEnd(20))} ${summary}`);
+  }
+  console.log(`\n  Use ${green`<command> --help`} to see the help for a command.\n`);
 
-  console.log(`  ${cyan`--verbose`}            Enable verbose output (moderate detail)`);
-  console.log(`                        Shows additional information about the build process\n`);
+  const visible = Object.entries(optionSchema).filter(([, definition]) => !definition.hidden);
 
-  console.log(`  ${cyan`--debug`}              Enable debug output (very detailed)`);
-  console.log(`                        Shows all internal operations and file operations\n`);
+  console.log(bold`REQUIRED ARGUMENTS:`);
+  showOptions(visible.filter(([, { required }]) => required));
 
-  console.log(`  ${cyan`--quiet`}              Suppress normal output messages`);
-  console.log(`                        Only shows errors and critical information\n`);
+  console.log(bold`OPTIONAL ARGUMENTS:`);
+  showOptions(visible.filter(([, { group, required }]) => group === 'general' && !required));
 
   console.log(bold`PACKAGE METADATA ARGUMENTS:`);
   console.log(`  These arguments set metadata for the Unity package. If not provided,`);
   console.log(`  default values or placeholders will be used.\n`);
+  showOptions(visible.filter(([, { group }]) => group === 'metadata'));
 
-  console.log(`  ${cyan`--name <name>`}        Package name (default: derived from solution file)`);
-  console.log(`                       Example: --name com.mycompany.mypackage\n`);
-
-  console.log(`  ${cyan`--version <version>`}  Package version (default: 0.0.1)`);
-  console.log(`                       Example: --version 1.2.3\n`);
-
-  console.log(`  ${cyan`--company <company>`}  Company name for the package`);
-  console.log(`                       Example: --company "My Company Inc."\n`);
-
-  console.log(`  ${cyan`--displayName <name>`} Display name shown in Unity Package Manager`);
-  console.log(`                       Example: --displayName "My Awesome Package"\n`);
-
-  console.log(`  ${cyan`--description <text>`} Package description`);
-  console.log(`                       Example: --description "A powerful Unity package for..."\n`);
-
-  console.log(`  ${cyan`--author <author>`}    Package author`);
-  console.log(`                       Example: --author "John Doe <john@example.com>"\n`);
-
-  console.log(`  ${cyan`--license <license>`}  License type or text`);
-  console.log(`                       Example: --license "MIT"\n`);
-
-  console.log(`  ${cyan`--changelogUrl <url>`} URL to the changelog`);
-  console.log(`                       Example: --changelogUrl "https://github.com/user/repo/blob/main/CHANGELOG.md"\n`);
-
-  console.log(`  ${cyan`--documentationUrl <url>`} URL to the documentation`);
-  console.log(`                       Example: --documentationUrl "https://docs.example.com"\n`);
+  console.log(bold`PLACEHOLDER ARGUMENTS:`);
+  console.log(`  These arguments set the values of placeholders in the resource files.\n`);
+  showOptions(visible.filter(([, { group }]) => group === 'placeholders'));
 
   if (showDetailed) {
     console.log(bold`\nPLACEHOLDERS IN RESOURCE FILES:`);
@@ -132,11 +229,14 @@ export function showHelp(showDetailed: boolean = false) {
   console.log(`    node main.js --sln ./MyProject.sln --clean --rebuild --verbose\n`);
 
   console.log(`  Just clean up without building:`);
-  console.log(`    node main.js --reset\n`);
+  console.log(`    node main.js clean\n`);
+
+  console.log(`  Re-pack after editing the package folder by hand:`);
+  console.log(`    node main.js pack --target ./output\n`);
 
   console.log(bold`\nWORKFLOW:`);
   console.log(`  1. Builds the .NET solution using 'dotnet build -c Release'`);
-  console.log(`  2. Downloads required NuGet packages from the assets list`);
+  console.log(`  2. Downloads the NuGet packages the project needs (from obj/project.assets.json)`);
   console.log(`  3. Extracts specific files from NuGet packages to Internal/ folder`);
   console.log(`  4. Copies build output to Runtime/ folder`);
   console.log(`  5. Creates Unity package structure with metadata files`);
@@ -166,9 +266,21 @@ export function showHelp(showDetailed: boolean = false) {
   console.log(`  - Ensure all required placeholders are provided via command line arguments`);
   console.log(`  - Verify that the target directory is writable\n`);
 
+  console.log(bold`CONFIGURATION FILES:`);
+  console.log(`  Options can also be set in a ${cyan`make-unity-sdk.config.json`} file, or in a ${cyan`"unitySdk"`}`);
+  console.log(`  section of a package.json file, in the same folder as the solution file.`);
+  console.log(`  The keys are the same as the command line arguments (ie, ${cyan`{ "company": "My Company" }`}),`);
+  console.log(`  and paths are relative to the folder that contains the file.\n`);
+  console.log(`  Values are merged in this order (later sources override earlier ones):`);
+  console.log(`    1. the ${cyan`"unitySdk"`} section of package.json`);
+  console.log(`    2. ${cyan`make-unity-sdk.config.json`}`);
+  console.log(`    3. ${cyan`MAKE_UNITY_SDK_*`} environment variables`);
+  console.log(`    4. command line arguments\n`);
+
   console.log(bold`ENVIRONMENT VARIABLES:`);
   console.log(`  ${cyan`FORCE_COLOR=0`}       Disable colored output`);
-  console.log(`  ${cyan`FORCE_COLOR=1`}       Force colored output\n`);
+  console.log(`  ${cyan`FORCE_COLOR=1`}       Force colored output`);
+  console.log(`  ${cyan`MAKE_UNITY_SDK_*`}    Set an option (ie, ${cyan`MAKE_UNITY_SDK_DISPLAY_NAME`} sets --displayName)\n`);
 
   if (!showDetailed) {
     console.log(`Use ${green`--help --detailed`} to see placeholder information and examples.\n`);
@@ -178,120 +290,328 @@ export function showHelp(showDetailed: boolean = false) {
   console.log(`  Unity SDK Package Creation Tool v1.0.0\n`);
 }
 
-// load the command line arguments into a key/value object
-const cliArgs = process.argv.slice(2);
-
 /**
- * Parsed command line arguments as key-value pairs.
- * 
- * This object contains all command line arguments that were parsed from the
- * process.argv array. Arguments starting with '--' are converted to camelCase
- * keys, and their values are stored as strings, arrays, or booleans.
+ * Prints the final merged options, and where each value came from.
+ *
+ * @param options - The merged options
+ * @param sources - The source of each option value
  */
-export const metadata: Record<string, any> = {};
-
-let key: string | undefined;
-for (let i = 0; i < cliArgs.length; i++) {
-  const arg = cliArgs[i];
+export function printConfig(options: UnityPackageOptions, sources: Record<string, string>) {
+  console.log(bold`Configuration:`);
+  const width = Math.max(0, ...Object.keys(options).map(key => key.length));
+  for (const [key, value] of Object.entries(options).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`  ${cyan(key.padEnd(width))}  ${JSON.stringify(value)}  ${grey`(${sources[key]})`}`);
+  }
+}
 
-  if (arg.startsWith('--')) {
-    key = arg.slice(2);
-    // if the key has dashes in it, then change it to camel case
-    key = key.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+/**
+ * Parses the command line arguments.
+ *
+ * Arguments starting with '--' are converted to camelCase keys, and their values
+ * are stored as strings, arrays (when repeated), or booleans (when no value is given).
+ * The first argument is the command, if it is not an option.
+ *
+ * @param cliArgs - The command line arguments (without the node and script paths)
+ * @returns The command (if any) and the parsed arguments as key-value pairs
+ * @throws {Error} If an argument or command is not recognized
+ *
+ * @example
+ * ```typescript
+ * const { command, args } = parseCommandLine(['pack', '--target', './output']);
+ * // command === 'pack', args.target === './output'
+ * ```
+ */
+export function parseCommandLine(cliArgs: string[]) {
+  const args: UnityPackageOptions = {};
+  let command: Command | undefined;
+
+  let key: string | undefined;
+  for (let i = 0; i < cliArgs.length; i++) {
+    const arg = cliArgs[i];
+
+    if (i === 0 && !arg.startsWith('-')) {
+      if (!(arg in commands)) {
+        throw new Error(`Unknown command: ${arg} (expected one of: ${Object.keys(commands).join(', ')})`);
+      }
+      command = arg as Command;
+      continue;
+    }
 
-    // Special handling for help flags
-    if (key === 'help' || key === 'h') {
-      metadata[key] = true;
+    if (arg.startsWith('--')) {
+      key = arg.slice(2);
+      // if the key has dashes in it, then change it to camel case
+      key = key.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+
+      // flags don't take a value (unless it is an explicit true/false)
+      if (optionSchema[key]?.type === 'boolean') {
+        const next = cliArgs[i + 1];
+        args[key] = next === 'false' ? false : true;
+        if (next === 'true' || next === 'false') {
+          i++;
+        }
+        key = undefined;
+        continue;
+      }
+
+      // (a repeated option keeps the values it already has)
+      args[key] ??= true;
       continue;
     }
 
-    metadata[key] = true;
-    continue;
-  }
+    if (arg.startsWith('-')) {
+      // Special handling for short help flag
+      if (arg === '-h') {
+        args.h = true;
+        continue;
+      }
+      throw new Error(`Unknown command line argument: ${arg} (expected --key <value>)`);
+    }
 
-  if (arg.startsWith('-')) {
-    // Special handling for short help flag
-    if (arg === '-h') {
-      metadata.h = true;
+    if (key) {
+      switch (typeof args[key]) {
+        case 'undefined':
+        case 'boolean':
+          args[key] = arg;
+          break;
+
+        case 'string':
+          args[key] = [args[key], arg];
+          break;
+
+        case 'object':
+          args[key].push(arg);
+          break;
+      }
       continue;
     }
-    exit(`Unknown command line argument: ${arg} (expected --key <value>)`);
+    // if we don't have a key, then this is not correct.
+    throw new Error(`Unknown command line argument: ${arg}`);
   }
 
-  if (key) {
-    switch (typeof metadata[key]) {
-      case 'undefined':
-      case 'boolean':
-        metadata[key] = arg;
-        break;
+  return { command, args };
+}
 
-      case 'string':
-        metadata[key] = [metadata[key], arg];
-        break;
+/**
+ * Shows what a command would do, without changing anything (--dry-run).
+ *
+ * @param context - The package context
+ * @param command - The command (or undefined for the whole pipeline)
+ * @returns A Promise that resolves when the plan has been shown
+ */
+async function dryRun(context: PackageContext, command: Command | undefined) {
+  const { options, locations } = context;
+  switch (command) {
+    case 'build': {
+      const sln = requireSolutionFile(context);
+      if (!await fileExists(sln)) {
+        throw new Error(`Solution file '${sln}' does not exist`);
+      }
+      log(`> Dry run: the solution would be built${await needsBuild(context, false) ? '' : ' (the build output already exists, and would be replaced)'}.`);
+      return;
+    }
 
-      case 'object':
-        metadata[key].push(arg);
-        break;
+    case 'verify':
+      await verifyStage(context);
+      return;
+
+    case 'pack': {
+      const pkg = await verifyStage(context);
+      log(`> Dry run: ${green(`${pkg.name}-${pkg.version}.tgz`)} would be created in ${cyan(locations.packageParentFolder)}`);
+      return;
+    }
+
+    case 'clean': {
+      const folders = await planClean(context);
+      log(folders.length ? '> Dry run: these folders would be deleted:' : '> Dry run: there is nothing to delete.');
+      for (const folder of folders) {
+        log(`  ${cyan(folder)}`);
+      }
+      return;
     }
-    continue;
+
+    case 'assemble':
+      // the assemble command doesn't build the solution
+      if (options.clean || !await directoryExists(locations.buildOutputFolder)) {
+        throw new Error(`Failed to find build output folder: '${locations.buildOutputFolder}' (has the solution been built?)`);
+      }
+      showPlan(context, await createPlan(context, false));
+      return;
+
+    default:
+      if (options.reset) {
+        return dryRun(context, 'clean');
+      }
+      showPlan(context, await createPlan(context, !!options.rebuild));
+      log(`The package would then be verified and packed into ${cyan(locations.packageParentFolder)}`);
   }
-  // if we don't have a key, then this is not correct.
-  exit(`Unknown command line argument: ${arg}`);
 }
 
 /**
- * Flag indicating whether verbose output is enabled.
- * Set to true when --verbose is provided as a command line argument.
+ * Runs the tool with the given command line arguments.
+ *
+ * This is a thin wrapper over the pipeline: it parses the arguments, merges them
+ * with the configuration files and environment variables, and runs the requested
+ * command (or the whole pipeline, via `runPipeline`; the options are only resolved once).
+ *
+ * @param cliArgs - The command line arguments (without the node and script paths)
+ * @returns A Promise that resolves to the exit code
+ *
+ * @example
+ * ```typescript
+ * runCli(process.argv.slice(2));
+ * ```
  */
-export const enableVerbose = !!metadata.verbose;
+export async function runCli(cliArgs: string[]): Promise<number> {
+  const started = Date.now();
+  const summary: Partial<RunSummary> = {};
+  try {
+    const { command, args } = parseCommandLine(cliArgs);
+
+    // Check for help flags
+    if (args.help || args.h) {
+      if (command) {
+        showCommandHelp(command);
+        return 0;
+      }
+      showHelp(!!args.detailed);
+      return 0;
+    }
 
-/**
- * Flag indicating whether debug output is enabled.
- * Set to true when --debug is provided as a command line argument.
- */
-export const enableDebug = !!metadata.debug;
+    const { options: merged, sources } = resolveConfig(args);
+    const required = merged.printConfig || merged.reset ? [] : command ? commands[command].required : requiredOptions;
+    const { options, problems } = validateOptions(merged, sources, required);
 
-/**
- * Flag indicating whether quiet mode is enabled.
- * Set to true when --quiet is provided as a command line argument.
- */
-export const enableQuiet = !!metadata.quiet;
+    if (options.printConfig) {
+      printConfig(options, sources);
+      for (const problem of problems) {
+        warn(`${warning} ${problem}`);
+      }
+      return problems.length ? 1 : 0;
+    }
 
-/**
- * Flag indicating whether to clean output and temp folders before running.
- * Set to true when --clean is provided as a command line argument.
- */
-export const clean = !!metadata.clean;
+    configureOutput(options);
+    if (problems.length) {
+      throw new Error(`Invalid options:\n  ${problems.join('\n  ')}`);
+    }
 
-/**
- * Flag indicating whether to clean output and temp folders and exit.
- * Set to true when --reset is provided as a command line argument.
- */
-export const reset = !!metadata.reset;
+    if (options.allProjects && (command || options.dryRun || options.watch)) {
+      throw new Error(`${flag('allProjects')} can only be used to run the whole pipeline (not with a command, ${flag('dryRun')} or ${flag('watch')})`);
+    }
 
-/**
- * The path to the solution file to use for the package.
- * Resolved relative to the current working directory.
- * Required argument: --sln <slnPath>
- */
-export const solutionFile = metadata.sln ? resolve(cwd(), metadata.sln) : exit('No solution file provided (--sln <slnPath>)');
+    if (options.locked && options.updateLock) {
+      throw new Error(`${flag('locked')} and ${flag('updateLock')} cannot be used together`);
+    }
 
-/**
- * Flag indicating whether to forcibly rebuild the solution before running.
- * Set to true when --rebuild is provided as a command line argument.
- */
-export const rebuild = !!metadata.rebuild;
+    const context = createContext(options);
+    if (!options.allProjects) {
+      await resolveProject(context);
+    }
 
-/**
- * The path to the output folder where the package contents will be laid out.
- * Resolved relative to the current working directory.
- * Optional argument: --target <outputPath> (defaults to './output')
- */
-export const packageFolder = resolve(cwd(), metadata.target || './output');
+    if (options.dryRun) {
+      await dryRun(context, command);
+      return 0;
+    }
+
+    if (isJsonReporter()) {
+      onFileChange((kind, path) => report({ type: 'file', action: kind === 'unchanged' ? 'skipped' : kind, path }));
+    }
+
+    switch (command) {
+      case 'build':
+        await stage('build', () => buildStage(context, true));
+        break;
+
+      case 'assemble':
+        if (options.clean) {
+          await stage('clean', () => cleanStage(context));
+        }
+        await stage('assemble', () => assembleStage(context));
+        summary.name = context.packageMetadata.name;
+        summary.version = context.packageMetadata.version;
+        summary.dependencies = bundledDependencies(context.assets ?? []);
+        break;
+
+      case 'verify': {
+        const { name, version } = await stage('verify', () => verifyStage(context));
+        Object.assign(summary, { name, version });
+        break;
+      }
+
+      case 'pack': {
+        const pkg = await stage('verify', () => verifyStage(context));
+        const tgz = await stage('pack', () => packStage(context));
+        Object.assign(summary, { name: pkg.name, version: pkg.version, tgz, sha512: await hashFile(tgz) });
+        log(`> UPM Version: ${green(pkg.version)}`);
+        break;
+      }
+
+      case 'clean':
+        await stage('clean', () => cleanStage(context));
+        break;
+
+      default: {
+        if (options.reset) {
+          await stage('clean', () => cleanStage(context));
+          log('> Exiting without running');
+          break;
+        }
+
+        if (options.watch) {
+          if (options.clean) {
+            await cleanStage(context);
+          }
+          const controller = new AbortController();
+          process.once('SIGINT', () => controller.abort());
+          await watchPackage(context, { pack: options.watchPack, delay: options.watchDelay, signal: controller.signal });
+          return 0;
+        }
+
+        if (options.allProjects) {
+          const results = await runAllProjects(options);
+          summary.packages = results.map(({ name, version, tgz, sha512 }) => ({ name, version, tgz, sha512 }));
+          summary.dependencies = results.flatMap(({ dependencies }) => dependencies);
+          for (const { name, version } of results) {
+            log(`> UPM Version: ${green(version)} (${name})`);
+          }
+          break;
+        }
+
+        // (the options are already resolved, so they aren't merged with the configuration again)
+        const result = await runPipeline(context);
+        Object.assign(summary, { name: result.name, version: result.version, tgz: result.tgz, sha512: result.sha512, dependencies: result.dependencies });
+        log(`> UPM Version: ${green(result.version)}`);
+        break;
+      }
+    }
+    log('> done.');
+    reportSummary(true, summary, started);
+    return 0;
+  } catch (err) {
+    const message = `${err instanceof Error ? err.message : err}`;
+    if (isJsonReporter()) {
+      error(message);
+      reportSummary(false, summary, started);
+      return errorCount;
+    }
+    return exit(message);
+  }
+}
 
 /**
- * The path to the parent folder of the package.
- * Resolved relative to the current working directory.
- * Optional argument: --package <packagePath> (defaults to packageFolder parent)
+ * Emits the summary of the run (when the JSON reporter is enabled).
+ *
+ * @param success - The run completed without errors
+ * @param summary - The package details that are known
+ * @param started - When the run started (from Date.now())
  */
-export const packageParentFolder = resolve(cwd(), metadata.package || `${packageFolder}/..`);
\ No newline at end of file
+function reportSummary(success: boolean, summary: Partial<RunSummary>, started: number) {
+  report({
+    type: 'summary',
+    dependencies: [],
+    ...summary,
+    success: success && errorCount === 0,
+    warnings: warningCount,
+    errors: errorCount,
+    timings: { ...timings, total: Date.now() - started },
+  });
+}
@@ -0,0 +1,147 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { cyan } from './ansi';
+import { readDebugInfo } from './assembly';
+import { PackageContext } from './context';
+import { barename, deleteFile, fileExists } from './filesystem';
+import { ExtractedPackage } from './lockfile';
+import { LocatedPackage, readPackageFile } from './nuget';
+import { check, verbose, warn, warning } from './output';
+import { targetPath } from './unpack';
+
+/**
+ * Checks what kind of PDB a file is, from its signature.
+ *
+ * @param data - The contents of the .pdb
+ * @returns `portable` (which Unity can use), `windows` (which it can't), or undefined if the file isn't a PDB
+ *
+ * @example
+ * ```typescript
+ * pdbKind(await readFile('./bin/Release/netstandard2.0/MyApi.pdb')); // 'portable'
+ * ```
+ */
+export function pdbKind(data: Buffer) {
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x424a5342) {
+    return 'portable';
+  }
+  return data.toString('ascii', 0, 24) === 'Microsoft C/C++ MSF 7.00' ? 'windows' : undefined;
+}
+
+/**
+ * Decides whether the .xml or .pdb that goes with an assembly is put in the package.
+ *
+ * @param name - The name of the .xml or .pdb (for messages)
+ * @param read - Reads the .pdb
+ * @param readAssembly - Reads the assembly it goes with
+ * @param docs - Whether documentation files are wanted
+ * @param symbols - Whether symbol files are wanted
+ * @returns true to put it in the package, false to leave it out, or undefined if the .pdb isn't a PDB
+ */
+async function keepCompanion(name: string, read: () => Promise<Buffer | undefined>, readAssembly: () => Promise<Buffer | undefined>, docs: boolean, symbols: boolean) {
+  if (extname(name).toLowerCase() === '.xml') {
+    return docs;
+  }
+
+  const data = await read();
+  const kind = data && pdbKind(data);
+  if (!kind || !symbols) {
+    return kind ? false : undefined;
+  }
+  if (kind === 'windows') {
+    warn(`${warning} '${cyan(name)}' is a Windows PDB, which Unity can't use; left out (set <DebugType>portable</DebugType> in the project)`);
+    return false;
+  }
+
+  const assembly = await readAssembly();
+  let embedded = false;
+  try {
+    embedded = assembly ? readDebugInfo(assembly)?.embedded ?? false : false;
+  } catch {
+    // (an assembly that can't be read gets its .pdb)
+  }
+  if (embedded) {
+    verbose(`  ${check} '${cyan(name)}' left out - the symbols are embedded in the assembly`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Picks the documentation (.xml) and symbol (.pdb) files to put in the package.
+ *
+ * By default, the XML documentation files and PDBs that go with the assemblies (the files
+ * with the same name as a .dll, next to it) are left out, both from the build output and
+ * from the NuGet packages. With the `includeDocs` option, the XML documentation of the
+ * build output is put in the package (for IntelliSense in the IDE); with
+ * `includeDependencyDocs`, so is the documentation in the NuGet packages. With
+ * `includeSymbols`, the portable PDBs are put in the package (for debugging); Windows PDBs
+ * are left out with a warning, and so are PDBs for assemblies that have their symbols
+ * embedded.
+ *
+ * Other .xml and .pdb files are left alone. The files that are left out
+ * are removed from the files to extract from each package, and their names in the build
+ * output are returned, so that they are not copied. Copies of them from earlier runs are
+ * deleted.
+ *
+ * @param context - The package context
+ * @param packages - The bundled packages, and the files selected from each one (updated in place)
+ * @returns A Promise that resolves to the names of the files in the build output to leave out (lower case)
+ * @throws {Error} If the build output or a package cannot be read
+ *
+ * @example
+ * ```typescript
+ * const omitted = await selectCompanions(context, extracted);
+ * await copyFiles(buildOutputFolder, runtimeFolder, name => !omitted.has(name.toLowerCase()));
+ * ```
+ */
+export async function selectCompanions(context: PackageContext, packages: ExtractedPackage[]) {
+  const { options, locations: { buildOutputFolder, runtimeFolder, internalAssemblyFolder } } = context;
+  const symbols = options.includeSymbols ?? false;
+
+  // the build output
+  const omitted = new Set<string>();
+  const names = await readdir(buildOutputFolder);
+  const assemblies = new Map(names.filter(each => extname(each).toLowerCase() === '.dll').map(each => [barename(each).toLowerCase(), each]));
+  for (const name of names.filter(each => ['.xml', '.pdb'].includes(extname(each).toLowerCase()))) {
+    const assembly = assemblies.get(barename(name).toLowerCase());
+    if (assembly) {
+      const read = (file: string) => () => readFile(resolve(buildOutputFolder, file));
+      if (await keepCompanion(name, read(name), read(assembly), options.includeDocs ?? false, symbols) === false) {
+        omitted.add(name.toLowerCase());
+      }
+    }
+  }
+
+  // the NuGet packages
+  const stale = new Array<string>();
+  for (const each of packages) {
+    const read = (pkg: LocatedPackage, file: string) => () => readPackageFile(pkg, file);
+    const dlls = new Map(each.files.filter(file => extname(file).toLowerCase() === '.dll').map(file => [file.slice(0, -4).toLowerCase(), file]));
+    const kept = new Array<string>();
+    for (const file of each.files) {
+      const assembly = ['.xml', '.pdb'].includes(extname(file).toLowerCase()) ? dlls.get(file.slice(0, -4).toLowerCase()) : undefined;
+      if (assembly && await keepCompanion(file, read(each.pkg, file), read(each.pkg, assembly), options.includeDependencyDocs ?? false, symbols) === false) {
+        stale.push(targetPath(file, each.folder));
+        continue;
+      }
+      kept.push(file);
+    }
+    each.files = kept;
+  }
+
+  // remove the copies from earlier runs
+  for (const name of (await readdir(runtimeFolder)).filter(each => omitted.has(each.replace(/\.meta$/i, '').toLowerCase()))) {
+    await deleteFile(resolve(runtimeFolder, name));
+  }
+  for (const path of stale) {
+    for (const file of [path, `${path}.meta`].map(each => resolve(internalAssemblyFolder, each))) {
+      if (await fileExists(file)) {
+        await deleteFile(file);
+      }
+    }
+  }
+
+  const summary = [options.includeDocs && 'documentation', options.includeDependencyDocs && 'dependency documentation', symbols && 'symbols'].filter(Boolean);
+  verbose(`  ${check} ${summary.length ? `Including ${summary.join(', ')}` : 'No documentation or symbols included'} (${omitted.size + stale.length} file(s) left out)`);
+  return omitted;
+}
@@ -0,0 +1,405 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { Asset } from './assets';
+import { PluginSettings } from './meta';
+import { optionSchema } from './schema';
+
+/**
+ * The name of the project configuration file.
+ *
+ * The file is searched for in the folder that contains the solution file
+ * (or the current working directory, when no solution file is given).
+ */
+export const configFileName = 'make-unity-sdk.config.json';
+
+/**
+ * The name of the section in a package.json file that holds the configuration.
+ */
+export const packageJsonSection = 'unitySdk';
+
+/**
+ * The prefix for environment variables that set options.
+ *
+ * `MAKE_UNITY_SDK_DISPLAY_NAME` sets the `displayName` option, `MAKE_UNITY_SDK_SLN` sets `sln`, etc.
+ */
+export const environmentPrefix = 'MAKE_UNITY_SDK_';
+
+/**
+ * Options that contain paths. When these come from a configuration file,
+ * they are resolved relative to the folder that contains that file.
+ */
+const pathOptions = Object.keys(optionSchema).filter(key => optionSchema[key].type === 'path');
+
+/**
+ * The options for creating a Unity package.
+ *
+ * These can come from the command line, `MAKE_UNITY_SDK_*` environment variables,
+ * a configuration file, or be passed directly to `createUnityPackage`.
+ * Any other values are available as placeholders in the resource files.
+ */
+export interface UnityPackageOptions {
+  /** path to the .NET solution file (.sln) */
+  sln?: string;
+
+  /** path to the project to create the package from (when the solution has more than one) */
+  project?: string;
+
+  /** create a package for each eligible project in the solution */
+  allProjects?: boolean;
+
+  /** options for each project (with allProjects), keyed by project name */
+  projects?: Record<string, UnityPackageOptions>;
+
+  /** NuGet packages (ids) that are not bundled, even if the project depends on them */
+  excludePackage?: string | string[];
+
+  /** the files to extract from NuGet packages, keyed by package id (glob patterns; see `Asset`) */
+  packageFiles?: Record<string, Pick<Asset, 'files' | 'excludeFiles' | 'preserveFolders'>>;
+
+  /** UPM packages (`<name>@<version>`) to depend on instead of bundling NuGet packages, keyed by NuGet package id (an empty value bundles the package) */
+  upmPackage?: Record<string, string>;
+
+  /** the importer settings of the .dll files in the package, keyed by glob pattern (relative to the package folder; see `PluginSettings`) */
+  plugins?: Record<string, PluginSettings>;
+
+  /** renamed assets that keep the GUID of their old path (`<new path>` keyed by `<old path>`, relative to the package folder) */
+  renameAsset?: Record<string, string>;
+
+  /** keep the subfolders of the files extracted from the NuGet packages */
+  preserveFolders?: boolean;
+
+  /** put the XML documentation of the build output in the package */
+  includeDocs?: boolean;
+
+  /** put the XML documentation of the bundled NuGet packages in the package */
+  includeDependencyDocs?: boolean;
+
+  /** put the portable PDBs in the package (unless the symbols are embedded in the assemblies) */
+  includeSymbols?: boolean;
+
+  /** the samples to put in Samples~/ (folders, or C# projects) */
+  sample?: string | string[];
+
+  /** generate the assembly definitions for Runtime/ and Runtime/Internal/ (default: true) */
+  asmdef?: boolean;
+
+  /** the root namespace of the assembly definitions */
+  rootNamespace?: string;
+
+  /** the only platforms to compile the assembly definitions for */
+  includePlatforms?: string | string[];
+
+  /** the platforms not to compile the assembly definitions for */
+  excludePlatforms?: string | string[];
+
+  /** the scripting symbols that must be defined to compile the assembly definitions */
+  defineConstraints?: string | string[];
+
+  /** the scripting symbols to define when a package version is in range (`<package>@<expression>`), keyed by symbol */
+  versionDefines?: Record<string, string>;
+
+  /** allow unsafe code in the assembly definitions */
+  allowUnsafeCode?: boolean;
+
+  /** reference the runtime assembly definition from the predefined assemblies (default: true) */
+  autoReferenced?: boolean;
+
+  /** generate the Editor layer (a settings asset for the SDK, and a page in Project Settings) */
+  editor?: boolean;
+
+  /** a folder of templates that replace (or add to) the built-in templates of the Editor layer */
+  editorTemplates?: string;
+
+  /** the Unity API compatibility level ('netstandard2.1' or 'netframework'; default: netstandard2.1) */
+  apiCompatibility?: string;
+
+  /** assemblies (patterns; * is a wildcard) that the packaged assemblies may reference without them being in the package or in Unity */
+  allowReference?: string | string[];
+
+  /** what to do when an assembly would be in the package more than once ('error', 'highest', 'internal' or 'runtime'; default: error) */
+  conflicts?: string;
+
+  /** fail if the bundled NuGet packages don't match the lockfile (which is not updated) */
+  locked?: boolean;
+
+  /** replace the entries in the lockfile with the bundled NuGet packages */
+  updateLock?: boolean;
+
+  /** never download NuGet packages; take them from the global packages folder and the local feeds */
+  offline?: boolean;
+
+  /** folders of NuGet packages to take packages from before downloading */
+  localFeed?: string | string[];
+
+  /** how many times to retry a NuGet download that fails (default: 3) */
+  downloadRetries?: number;
+
+  /** how long each NuGet request may take, in seconds (default: 100) */
+  downloadTimeout?: number;
+
+  /** how many NuGet packages to download at the same time (default: 4) */
+  downloadConcurrency?: number;
+
+  /** the nuget.config file to read the package sources from (default: the ones next to the solution and above) */
+  nugetConfig?: string;
+
+  /** a Markdown template for the top of the Third Party Notices (default: a title and a short introduction) */
+  noticesHeader?: string;
+
+  /** a Markdown template for the bottom of the Third Party Notices (default: none) */
+  noticesFooter?: string;
+
+  /** output directory for the package contents (default: ./output) */
+  target?: string;
+
+  /** parent directory for the final .tgz (default: <target>/..) */
+  package?: string;
+
+  /** force rebuild the solution even if build output exists */
+  rebuild?: boolean;
+
+  /** clean the output and temp folders before running */
+  clean?: boolean;
+
+  /** show what would be done, without changing anything */
+  dryRun?: boolean;
+
+  /** keep running, and rerun the affected stages when the sources or resources change */
+  watch?: boolean;
+
+  /** re-pack the .tgz after each change in watch mode */
+  watchPack?: boolean;
+
+  /** how long (in milliseconds) to wait after the last change in watch mode */
+  watchDelay?: number;
+
+  /** emit NDJSON events and a final summary on stdout */
+  json?: boolean;
+
+  /** the output format ('text' or 'json') */
+  reporter?: string;
+
+  /** enable verbose output */
+  verbose?: boolean;
+
+  /** enable debug output */
+  debug?: boolean;
+
+  /** suppress normal output */
+  quiet?: boolean;
+
+  /** the package name (ie, com.mycompany.mypackage) */
+  name?: string;
+
+  /** the package version */
+  version?: string;
+
+  /** the company name */
+  company?: string;
+
+  /** the display name shown in the Unity Package Manager */
+  displayName?: string;
+
+  /** the package description */
+  description?: string;
+
+  /** the package author */
+  author?: string;
+
+  /** the license type or text */
+  license?: string;
+
+  /** URL to the changelog */
+  changelogUrl?: string;
+
+  /** URL to the documentation */
+  documentationUrl?: string;
+
+  [key: string]: any;
+}
+
+/**
+ * A single source of option values (a configuration file, the environment, the command line, etc.)
+ */
+export interface ConfigLayer {
+  /** a description of where the values came from */
+  source: string;
+
+  /** the option values from this source */
+  values: Record<string, any>;
+}
+
+/**
+ * Reads and parses a JSON file.
+ *
+ * @param filePath - The path to the JSON file
+ * @returns The parsed content of the file
+ * @throws {Error} If the file cannot be parsed
+ */
+function readJson(filePath: string) {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read configuration from '${filePath}': ${err}`);
+  }
+}
+
+/**
+ * Resolves the path options in a set of values relative to a folder.
+ *
+ * @param values - The option values
+ * @param folder - The folder the paths are relative to
+ * @returns The option values with the paths resolved
+ */
+function resolvePaths(values: Record<string, any>, folder: string) {
+  for (const key of pathOptions) {
+    if (typeof values[key] === 'string') {
+      values[key] = resolve(folder, values[key]);
+    } else if (Array.isArray(values[key])) {
+      values[key] = values[key].map((each: any) => typeof each === 'string' ? resolve(folder, each) : each);
+    }
+  }
+  return values;
+}
+
+/**
+ * Loads the configuration layers found in a folder.
+ *
+ * This function looks for a `unitySdk` section in a `package.json` file, and
+ * a `make-unity-sdk.config.json` file. When both exist, the values in the
+ * configuration file override the values in the package.json section.
+ *
+ * @param folder - The folder to look in
+ * @returns The configuration layers found (lowest priority first)
+ *
+ * @example
+ * ```typescript
+ * const layers = loadConfigFiles('./src');
+ * ```
+ */
+export function loadConfigFiles(folder: string): ConfigLayer[] {
+  const layers = new Array<ConfigLayer>();
+
+  const packageJson = resolve(folder, 'package.json');
+  if (existsSync(packageJson)) {
+    const section = readJson(packageJson)[packageJsonSection];
+    if (section && typeof section === 'object') {
+      layers.push({ source: `${packageJson} (${packageJsonSection})`, values: resolvePaths({ ...section }, folder) });
+    }
+  }
+
+  const configFile = resolve(folder, configFileName);
+  if (existsSync(configFile)) {
+    layers.push({ source: configFile, values: resolvePaths({ ...readJson(configFile) }, folder) });
+  }
+
+  return layers;
+}
+
+/**
+ * Converts an environment variable value to an option value.
+ *
+ * `true` and `false` are converted to booleans, everything else stays a string.
+ */
+function environmentValue(value: string) {
+  switch (value.toLowerCase()) {
+    case 'true':
+      return true;
+    case 'false':
+      return false;
+  }
+  return value;
+}
+
+/**
+ * Loads the options set through `MAKE_UNITY_SDK_*` environment variables.
+ *
+ * The rest of the variable name is converted to camel case to get the option name
+ * (ie, `MAKE_UNITY_SDK_CHANGELOG_URL` sets `changelogUrl`).
+ *
+ * @param env - The environment to read from (defaults to process.env)
+ * @returns The configuration layer for the environment
+ *
+ * @example
+ * ```typescript
+ * const { values } = loadEnvironment({ MAKE_UNITY_SDK_VERSION: '1.2.3' });
+ * console.log(values.version); // '1.2.3'
+ * ```
+ */
+export function loadEnvironment(env: Record<string, string | undefined> = process.env): ConfigLayer {
+  const values: Record<string, any> = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(environmentPrefix) || value === undefined) {
+      continue;
+    }
+    const key = name.slice(environmentPrefix.length).toLowerCase().replace(/_([a-z0-9])/g, (_, letter) => letter.toUpperCase());
+    values[key] = environmentValue(value);
+  }
+  return { source: 'environment', values: resolvePaths(values, process.cwd()) };
+}
+
+/**
+ * Merges the configuration layers into the final options.
+ *
+ * Later layers override earlier layers; undefined values are ignored.
+ *
+ * @param layers - The configuration layers (lowest priority first)
+ * @returns The merged options, and the source of each option value
+ */
+export function mergeConfig(layers: ConfigLayer[]) {
+  const options: UnityPackageOptions = {};
+  const sources: Record<string, string> = {};
+
+  for (const { source, values } of layers) {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) {
+        options[key] = value;
+        sources[key] = source;
+      }
+    }
+  }
+  return { options, sources };
+}
+
+/**
+ * Resolves the final options from all of the configuration sources.
+ *
+ * The values are merged in this order (later sources override earlier ones):
+ * 1. The `unitySdk` section of the package.json next to the solution file
+ * 2. The `make-unity-sdk.config.json` file next to the solution file
+ * 3. `MAKE_UNITY_SDK_*` environment variables
+ * 4. Command line arguments
+ *
+ * The solution file is taken from the command line or the environment. If
+ * neither sets it, the configuration files in the current working directory
+ * are checked for an `sln` value.
+ *
+ * @param cliArgs - The parsed command line arguments
+ * @param env - The environment to read from (defaults to process.env)
+ * @returns The merged options, and the source of each option value
+ *
+ * @example
+ * ```typescript
+ * const { options } = resolveConfig({ sln: './MyApi.sln', version: '1.0.0' });
+ * ```
+ */
+export function resolveConfig(cliArgs: UnityPackageOptions, env: Record<string, string | undefined> = process.env) {
+  const cli: ConfigLayer = { source: 'command line', values: resolvePaths({ ...cliArgs }, process.cwd()) };
+  const environment = loadEnvironment(env);
+
+  let sln = cli.values.sln ?? environment.values.sln;
+  let files = new Array<ConfigLayer>();
+
+  if (sln) {
+    files = loadConfigFiles(dirname(sln));
+  } else {
+    // no solution given, see if there is configuration in the current folder that has it
+    files = loadConfigFiles(process.cwd());
+    sln = mergeConfig(files).options.sln;
+    if (sln && dirname(sln) !== process.cwd()) {
+      files.push(...loadConfigFiles(dirname(sln)));
+    }
+  }
+
+  return mergeConfig([...files, environment, cli]);
+}
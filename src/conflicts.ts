@@ -0,0 +1,250 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, dirname, extname, relative, resolve } from 'node:path';
+import { cyan } from './ansi';
+import { AssemblyIdentity, readAssemblyIdentity } from './assembly';
+import { assetVersion } from './assets';
+import { PackageContext } from './context';
+import { barename, deleteDirectory, deleteFile, directoryEmpty, listFiles } from './filesystem';
+import { compareVersions } from './frameworks';
+import { ExtractedPackage } from './lockfile';
+import { readPackageFile } from './nuget';
+import { check, cross, error, info, verbose, warn, warning } from './output';
+import { targetPath } from './unpack';
+
+/**
+ * What to do when the same assembly would be in the package more than once.
+ *
+ * - `error` - fail, listing the conflicts
+ * - `highest` - keep the copy with the highest assembly version
+ * - `internal` - keep the copy from the NuGet packages (Runtime/Internal/)
+ * - `runtime` - keep the copy from the build output (Runtime/)
+ */
+export type ConflictPolicy = 'error' | 'highest' | 'internal' | 'runtime';
+
+/**
+ * An assembly that would be put in the package.
+ */
+export interface AssemblyCandidate {
+  /** the file name (ie, `System.Memory.dll`) */
+  file: string;
+
+  /** the folder the assembly would go to */
+  location: 'runtime' | 'internal';
+
+  /** where the assembly comes from (ie, `System.Memory 4.6.3`, or `the build output`) */
+  origin: string;
+
+  /** the path of the file in the package, or the full path of the file in the build output */
+  path: string;
+
+  /** the package the assembly comes from, and the files selected from it (undefined for the build output) */
+  extracted?: ExtractedPackage;
+
+  /** the identity of the assembly (undefined for a native DLL) */
+  identity?: AssemblyIdentity;
+
+  /** the SHA-512 hash of the file (hex) */
+  hash: string;
+}
+
+/**
+ * Assemblies that have the same file name or the same assembly name.
+ */
+export interface AssemblyConflict {
+  /** the assemblies (there are always two or more) */
+  candidates: AssemblyCandidate[];
+
+  /** the files are all the same */
+  identical: boolean;
+}
+
+/**
+ * Describes an assembly, for messages (ie, `System.Memory.dll 4.0.5.0 from System.Memory 4.6.3`).
+ */
+function describe(candidate: AssemblyCandidate) {
+  return `${candidate.file}${candidate.identity ? ` ${candidate.identity.version}` : ''} from ${candidate.origin}`;
+}
+
+/**
+ * Returns the version numbers of an assembly (ie, [4, 0, 5, 0]); none for a native DLL.
+ */
+function versionOf(candidate: AssemblyCandidate) {
+  return candidate.identity?.version.split('.').map(Number) ?? [];
+}
+
+/**
+ * Groups the assemblies that would have the same path in the package, or the same assembly name and culture (ignoring case).
+ *
+ * @param candidates - The assemblies that would be put in the package
+ * @returns The groups with more than one assembly
+ *
+ * @example
+ * ```typescript
+ * for (const { candidates, identical } of findConflicts(candidates)) {
+ *   console.log(candidates.map(each => each.origin).join(', '));
+ * }
+ * ```
+ */
+export function findConflicts(candidates: AssemblyCandidate[]): AssemblyConflict[] {
+  // (satellite resource assemblies have the same name in each culture, and are in different folders when the folders are kept)
+  const keys = (candidate: AssemblyCandidate) => [
+    `file:${(candidate.extracted ? targetPath(candidate.path, candidate.extracted.folder) : candidate.file).toLowerCase()}`,
+    ...candidate.identity ? [`assembly:${candidate.identity.name.toLowerCase()}/${candidate.identity.culture?.toLowerCase() ?? ''}`] : [],
+  ];
+  const groups = new Array<{ keys: Set<string>; candidates: AssemblyCandidate[] }>();
+
+  for (const candidate of candidates) {
+    const candidateKeys = keys(candidate);
+    const matching = groups.filter(group => candidateKeys.some(key => group.keys.has(key)));
+    const merged = { keys: new Set([...candidateKeys, ...matching.flatMap(each => [...each.keys])]), candidates: [...matching.flatMap(each => each.candidates), candidate] };
+    for (const group of matching) {
+      groups.splice(groups.indexOf(group), 1);
+    }
+    groups.push(merged);
+  }
+
+  return groups
+    .filter(group => group.candidates.length > 1)
+    .map(group => ({ candidates: group.candidates, identical: group.candidates.every(each => each.hash === group.candidates[0].hash) }));
+}
+
+/**
+ * Picks the assembly to keep from a conflict.
+ *
+ * When the files are identical, the copy from the NuGet packages is kept (so that it is
+ * in the lockfile and the notices). Otherwise, with `internal` or `runtime`, the
+ * assemblies from that folder are preferred; the highest assembly version is kept (and
+ * with the same version, the copy from the NuGet packages is kept).
+ *
+ * @param conflict - The conflict
+ * @param policy - The conflict policy (only used when the files are not identical)
+ * @returns The assembly to keep
+ */
+export function pickAssembly({ candidates, identical }: AssemblyConflict, policy: ConflictPolicy) {
+  const prefer = identical ? 'internal' : policy;
+  const preferred = prefer === 'internal' || prefer === 'runtime' ? candidates.filter(each => each.location === prefer) : [];
+  const ordered = [...preferred.length ? preferred : candidates].sort((a, b) => a.location === b.location ? 0 : a.location === 'internal' ? -1 : 1);
+  return ordered.reduce((best, each) => compareVersions(versionOf(each), versionOf(best)) > 0 ? each : best);
+}
+
+/**
+ * Reads the identity and hash of an assembly.
+ */
+function candidate(file: string, location: AssemblyCandidate['location'], origin: string, path: string, data: Buffer, extracted?: ExtractedPackage): AssemblyCandidate {
+  let identity: AssemblyIdentity | undefined;
+  try {
+    identity = readAssemblyIdentity(data);
+  } catch (err) {
+    warn(`${warning} Failed to read '${file}' from ${origin} (it is only checked by file name): ${err instanceof Error ? err.message : err}`);
+  }
+  return { file, location, origin, path, extracted, identity, hash: createHash('sha512').update(data).digest('hex') };
+}
+
+/**
+ * Checks for assemblies that would be in the package more than once, and picks the ones to keep.
+ *
+ * The assemblies in the build output (that would be copied to Runtime/) and the assemblies
+ * selected from the NuGet packages (that would be extracted to Runtime/Internal/) are
+ * compared by file name and by assembly name. When two or more of them match, Unity
+ * would fail to compile with duplicate assemblies, so:
+ *
+ * - identical files are deduplicated
+ * - otherwise, the `conflicts` option picks the one to keep (see `ConflictPolicy`); with
+ *   `error` (the default), the conflicts are reported and the run fails
+ *
+ * The assemblies that are left out are removed from the files to extract from each package
+ * (with their .xml and .pdb files), and their file names are returned, so that they are not
+ * copied from the build output. Copies of them from earlier runs are deleted (from any
+ * subfolder of Runtime/, except the files that are extracted in this run).
+ *
+ * @param context - The package context
+ * @param packages - The bundled packages, and the files selected from each one (updated in place)
+ * @param include - Filters the file names in the build output (ie, to leave out the assemblies that other Unity packages provide)
+ * @returns A Promise that resolves to the names of the files in the build output to leave out (lower case)
+ * @throws {Error} If there are conflicts, and the policy is `error`
+ *
+ * @example
+ * ```typescript
+ * const excluded = await resolveConflicts(context, selected);
+ * await copyFiles(buildOutputFolder, runtimeFolder, name => !excluded.has(name.toLowerCase()));
+ * ```
+ */
+export async function resolveConflicts(context: PackageContext, packages: ExtractedPackage[], include: (name: string) => boolean = () => true) {
+  const { options, locations: { buildOutputFolder, runtimeFolder, internalAssemblyFolder } } = context;
+  const policy = (options.conflicts ?? 'error') as ConflictPolicy;
+
+  const candidates = new Array<AssemblyCandidate>();
+  for (const name of (await readdir(buildOutputFolder)).filter(each => extname(each).toLowerCase() === '.dll' && include(each))) {
+    const path = resolve(buildOutputFolder, name);
+    candidates.push(candidate(name, 'runtime', 'the build output', path, await readFile(path)));
+  }
+  for (const each of packages) {
+    for (const path of each.files.filter(file => extname(file).toLowerCase() === '.dll')) {
+      const data = await readPackageFile(each.pkg, path);
+      if (data) {
+        candidates.push(candidate(basename(path), 'internal', `${each.pkg.name} ${assetVersion(each.pkg)}`, path, data, each));
+      }
+    }
+  }
+
+  const excluded = new Set<string>();
+  const stale = new Set<string>();
+  const problems = new Array<string>();
+  for (const conflict of findConflicts(candidates)) {
+    const { candidates: matching, identical } = conflict;
+    const list = matching.map(describe).join(', ');
+    if (!identical && policy === 'error') {
+      problems.push(list);
+      continue;
+    }
+
+    const kept = pickAssembly(conflict, policy);
+    for (const dropped of matching.filter(each => each !== kept)) {
+      // leave out the assembly, and its documentation and symbols
+      const names = ['.dll', '.xml', '.pdb'].map(extension => `${barename(dropped.file)}${extension}`.toLowerCase());
+      if (dropped.extracted) {
+        const prefix = dropped.path.slice(0, -extname(dropped.path).length).toLowerCase();
+        dropped.extracted.files = dropped.extracted.files.filter(file => file.slice(0, -extname(file).length).toLowerCase() !== prefix);
+        names.forEach(each => stale.add(each));
+      } else {
+        names.forEach(each => excluded.add(each));
+      }
+      if (!identical && compareVersions(versionOf(dropped), versionOf(kept)) > 0) {
+        warn(`${warning} Using ${describe(kept)}, rather than the higher version ${describe(dropped)} (--conflicts ${policy})`);
+      }
+    }
+    (identical ? verbose : info)(`  ${check} ${cyan(kept.identity?.name ?? kept.file)}: using ${describe(kept)}${identical ? ' (the copies are identical)' : ''}; left out ${matching.filter(each => each !== kept).map(describe).join(', ')}`);
+  }
+
+  if (problems.length) {
+    for (const problem of problems) {
+      error(`  ${cross} The same assembly would be in the package more than once: ${problem}`);
+    }
+    throw new Error(`${problems.length} assembly conflict(s) found (use --conflicts highest, internal or runtime to pick the assembly to keep)`);
+  }
+
+  // remove the copies from earlier runs, in any subfolder (with --preserve-folders, the files
+  // from the packages are in subfolders of Runtime/Internal/), except the files extracted in this run
+  const internal = `${relative(runtimeFolder, internalAssemblyFolder).replace(/\\/g, '/').toLowerCase()}/`;
+  const extracted = new Set(packages.flatMap(({ files, folder }) => files.map(file => targetPath(file, folder).toLowerCase())));
+  const emptied = new Set<string>();
+  for (const file of await listFiles(runtimeFolder)) {
+    const path = file.replace(/\.meta$/i, '').toLowerCase();
+    const remove = path.startsWith(internal) ?
+      stale.has(basename(path)) && !extracted.has(path.slice(internal.length)) :
+      excluded.has(basename(path));
+    if (remove) {
+      await deleteFile(resolve(runtimeFolder, file));
+      emptied.add(dirname(resolve(runtimeFolder, file)));
+    }
+  }
+  // (and the subfolders that are left empty, deepest first)
+  for (const folder of [...emptied].sort().reverse().filter(each => each !== runtimeFolder && each !== internalAssemblyFolder)) {
+    if (await directoryEmpty(folder)) {
+      await deleteDirectory(folder);
+      await deleteFile(`${folder}.meta`);
+    }
+  }
+  return excluded;
+}
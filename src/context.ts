@@ -0,0 +1,141 @@
+import { resolve } from 'node:path';
+import { Asset } from './assets';
+import { getSDKProjects, getSDKProperties, multipleProjectsError, SdkProject } from './build';
+import { UnityPackageOptions } from './config';
+import { fileExists } from './filesystem';
+import { getLocations, Locations } from './locations';
+import { NuGetConfig } from './nuget';
+
+/**
+ * A package that a package depends on: a package created from another project in the same
+ * solution, or a UPM package that provides a NuGet package (see `mapUpmPackages`).
+ */
+export interface PackageReference {
+  /** the package name */
+  name: string;
+
+  /** the package version */
+  version: string;
+
+  /** the assemblies that the package provides (its own, and those of the packages it depends on) */
+  assemblies: string[];
+
+  /** the NuGet packages that the package provides (the ids of the packages in its dependency graph) */
+  packages: string[];
+
+  /** the package comes from the mapping of NuGet packages to UPM packages */
+  upm?: boolean;
+}
+
+/**
+ * The state for creating a single Unity package.
+ *
+ * A context is created for each package, and passed to each stage of the pipeline.
+ */
+export interface PackageContext {
+  /** the merged options for the package */
+  options: UnityPackageOptions;
+
+  /** the full path to the solution file (if one was given) */
+  solutionFile?: string;
+
+  /** the paths used to create the package */
+  locations: Locations;
+
+  /** the metadata written to the package.json (populated by `initPackageMetadata`) */
+  packageMetadata: Record<string, any>;
+
+  /** the SDK project that the package is created from (see `resolveProject`) */
+  project?: SdkProject;
+
+  /** the packages that this package depends on (when creating a package for each project) */
+  packageReferences: PackageReference[];
+
+  /** the NuGet packages bundled in the package (populated by `resolveAssets`) */
+  assets?: Asset[];
+
+  /** the NuGet package sources (populated by `packageSources`) */
+  nugetConfig?: NuGetConfig;
+
+  /** the files that the Editor layer generated (relative to the package folder; populated by `createEditorLayer`) */
+  generated?: string[];
+}
+
+/**
+ * Creates the context for a package from the merged options.
+ *
+ * Relative paths are resolved against the current working directory.
+ *
+ * @param options - The merged options
+ * @param project - The SDK project that the package is created from (defaults to the `project` option, if given)
+ * @returns The context for the package
+ * @throws {Error} If the locations cannot be determined from the solution file
+ *
+ * @example
+ * ```typescript
+ * const context = createContext({ sln: './MyApi.sln', target: './output' });
+ * ```
+ */
+export function createContext(options: UnityPackageOptions, project?: SdkProject): PackageContext {
+  const solutionFile = options.sln ? resolve(process.cwd(), options.sln) : undefined;
+  const packageFolder = resolve(process.cwd(), options.target || './output');
+  const packageParentFolder = options.package ? resolve(process.cwd(), options.package) : undefined;
+  const projectFile = project?.csprojFile ?? (options.project ? resolve(process.cwd(), options.project) : undefined);
+
+  return {
+    options,
+    solutionFile,
+    locations: getLocations(solutionFile, packageFolder, packageParentFolder, projectFile),
+    packageMetadata: {},
+    project,
+    packageReferences: []
+  };
+}
+
+/**
+ * Finds the SDK project in the solution that the package is created from.
+ *
+ * This uses the `project` option when it is given; otherwise the solution must
+ * have one eligible project (see `getSDKProjects`). The locations are updated to
+ * use the folder of the project. When the solution has no eligible project (or
+ * doesn't exist yet), the context is left unchanged, and the stages report the problem.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the context
+ * @throws {Error} If the solution has more than one eligible project, or the given project is not in the solution
+ *
+ * @example
+ * ```typescript
+ * const context = await resolveProject(createContext({ sln: './MyApi.sln', project: './MyApi/MyApi.csproj' }));
+ * ```
+ */
+export async function resolveProject(context: PackageContext) {
+  const { solutionFile, options, locations } = context;
+  if (context.project || !solutionFile || !await fileExists(solutionFile)) {
+    return context;
+  }
+
+  const projects = options.project ? [await getSDKProperties(solutionFile, resolve(process.cwd(), options.project))] : await getSDKProjects(solutionFile);
+  if (projects.length > 1) {
+    throw multipleProjectsError(projects);
+  }
+  if (projects.length === 1) {
+    context.project = projects[0];
+    context.locations = getLocations(solutionFile, locations.packageFolder, locations.packageParentFolder, context.project.csprojFile);
+  }
+  return context;
+}
+
+/**
+ * Returns the path to the solution file, or throws if one was not provided.
+ *
+ * @param context - The package context
+ * @returns The full path to the solution file
+ * @throws {Error} If no solution file was provided
+ */
+export function requireSolutionFile(context: PackageContext): string {
+  if (!context.solutionFile) {
+    throw new Error('No solution file provided (--sln <slnPath>)');
+  }
+  return context.solutionFile;
+}
@@ -0,0 +1,214 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname, resolve } from 'node:path';
+import { cyan } from './ansi';
+import { Asset, assets, assetVersion } from './assets';
+import { UnityPackageOptions } from './config';
+import { PackageContext } from './context';
+import { fileExists } from './filesystem';
+import { verbose, warn, warning } from './output';
+import { mapUpmPackages } from './upm';
+
+/**
+ * A NuGet package in the resolved dependency graph of a project.
+ */
+export interface ResolvedPackage {
+  /** the package id */
+  name: string;
+
+  /** the resolved version */
+  version: string;
+
+  /** the runtime assemblies for the target framework (paths inside the .nupkg) */
+  runtime: string[];
+
+  /** the SHA-512 hash of the .nupkg (base64) */
+  sha512?: string;
+}
+
+/**
+ * Converts a short target framework moniker to the name used in project.assets.json.
+ *
+ * @param framework - The short name (ie, `netstandard2.0`, `net472`, `net8.0`)
+ * @returns The long name (ie, `.NETStandard,Version=v2.0`), or undefined if it isn't recognized
+ */
+function frameworkName(framework: string) {
+  const [, kind, version] = /^(netstandard|netcoreapp|net)(\d+(?:\.\d+)*)$/.exec(framework.toLowerCase()) ?? [];
+  switch (kind) {
+    case 'netstandard':
+      return `.NETStandard,Version=v${version}`;
+    case 'netcoreapp':
+      return `.NETCoreApp,Version=v${version}`;
+    case 'net':
+      // net5.0 and later are .NET (Core); net472 is .NET Framework 4.7.2
+      return version.includes('.') ? `.NETCoreApp,Version=v${version}` : `.NETFramework,Version=v${version.split('').join('.')}`;
+  }
+  return undefined;
+}
+
+/**
+ * Reads the resolved (transitive) NuGet dependencies of a project from its project.assets.json.
+ *
+ * The `project.assets.json` is written to the project's `obj/` folder by `dotnet restore`
+ * (and `dotnet build`). Only packages with runtime assemblies for the target framework
+ * are returned; packages that only have placeholders (`_._`) or build files (like
+ * NETStandard.Library) are left out, as are project references.
+ *
+ * @param assetsFile - The path to the project.assets.json file
+ * @param framework - The target framework (ie, `netstandard2.0`); may be omitted when the project has one target
+ * @returns A Promise that resolves to the packages that have runtime assemblies
+ * @throws {Error} If the file cannot be read, or has no target for the framework
+ *
+ * @example
+ * ```typescript
+ * const packages = await readProjectAssets('./MyApi/obj/project.assets.json', 'netstandard2.0');
+ * ```
+ */
+export async function readProjectAssets(assetsFile: string, framework?: string) {
+  let json: Record<string, any>;
+  try {
+    json = JSON.parse(await readFile(assetsFile, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read the project assets file '${assetsFile}': ${err}`);
+  }
+
+  const targets: Record<string, Record<string, any>> = json.targets ?? {};
+  const names = Object.keys(targets);
+  const longName = framework ? frameworkName(framework) : undefined;
+
+  // a target may have a runtime identifier too (ie, '.NETStandard,Version=v2.0/win-x64'); prefer the one without
+  const target = names.find(each => each === longName) ?? names.find(each => longName && each.startsWith(`${longName}/`)) ?? (names.length === 1 ? names[0] : undefined);
+  if (!target) {
+    throw new Error(`The project assets file '${assetsFile}' has no target for '${framework}' (found: ${names.join(', ') || 'none'})`);
+  }
+
+  const packages = new Array<ResolvedPackage>();
+  for (const [id, entry] of Object.entries(targets[target])) {
+    if (entry.type !== 'package') {
+      continue;
+    }
+    const [name, version] = id.split('/');
+    const runtime = Object.keys(entry.runtime ?? {}).filter(each => !each.endsWith('/_._'));
+    if (runtime.length === 0) {
+      continue;
+    }
+    packages.push({ name, version, runtime, sha512: json.libraries?.[id]?.sha512 });
+  }
+  return packages;
+}
+
+/**
+ * Creates the download and extract details for a resolved package.
+ *
+ * @param pkg - The resolved package
+ * @returns The asset for the package
+ */
+function toAsset({ name, version, runtime, sha512 }: ResolvedPackage): Asset {
+  const id = name.toLowerCase();
+  const lowerVersion = version.toLowerCase();
+  return {
+    name,
+    version,
+    origin: `https://www.nuget.org/packages/${name}/${version}`,
+    filename: `${id}.${lowerVersion}.nupkg`,
+    assemblies: runtime.filter(each => extname(each).toLowerCase() === '.dll').map(each => basename(each, extname(each))),
+    sha512,
+  };
+}
+
+/**
+ * Applies the `packageFiles` option to the packages (the keys are package ids, ignoring case).
+ *
+ * Entries for packages that aren't bundled are reported, since they are probably typos.
+ */
+function applyPackageFiles(packages: Asset[], packageFiles: UnityPackageOptions['packageFiles'] = {}) {
+  const entries = new Map(Object.entries(packageFiles).map(([id, entry]) => [id.toLowerCase(), { id, entry }]));
+  const result = packages.map(each => {
+    const match = entries.get(each.name.toLowerCase());
+    entries.delete(each.name.toLowerCase());
+    return match ? { ...each, ...match.entry } : each;
+  });
+  for (const { id } of entries.values()) {
+    warn(`${warning} The packageFiles option has an entry for '${cyan(id)}', but it isn't bundled`);
+  }
+  return result;
+}
+
+/**
+ * Works out all of the NuGet packages that a project needs at runtime.
+ *
+ * The packages come from the project's `obj/project.assets.json` (for the target
+ * framework of the build output), so the solution must be built (or restored) first.
+ * An entry in the list of overrides (see `assets`) is applied to the package with the
+ * same name and version (keeping the assemblies and hash of the resolved package), or
+ * excludes it; so does the `excludePackage` option. An entry for a different version is
+ * not applied (with a warning). When the project.assets.json doesn't exist, the list of
+ * overrides is used. The `packageFiles`
+ * option picks the files to extract from each package (see `selectPackageFiles`).
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the packages
+ * @throws {Error} If the project.assets.json cannot be read
+ */
+export async function deriveAssets(context: PackageContext): Promise<Asset[]> {
+  const { options, locations: { apiFolder, buildOutputFolder } } = context;
+  const excluded = new Set(([] as string[]).concat(options.excludePackage ?? []).map(each => each.toLowerCase()));
+
+  const assetsFile = apiFolder ? resolve(apiFolder, 'obj', 'project.assets.json') : '';
+  if (!assetsFile || !await fileExists(assetsFile)) {
+    warn(`${warning} Failed to find '${cyan(assetsFile || 'project.assets.json')}' (has the solution been built?); using the list of overrides (see 'src/assets.ts') as the NuGet packages`);
+    return applyPackageFiles(assets.filter(each => !each.exclude && !excluded.has(each.name.toLowerCase())), options.packageFiles);
+  }
+
+  const overrides = new Map(assets.map(each => [each.name.toLowerCase(), each]));
+  const result = new Array<Asset>();
+
+  for (const pkg of await readProjectAssets(assetsFile, basename(buildOutputFolder))) {
+    const id = pkg.name.toLowerCase();
+    const override = overrides.get(id);
+    if (excluded.has(id) || override?.exclude) {
+      verbose(`  Skipped '${cyan(pkg.name)}' - excluded`);
+      continue;
+    }
+
+    const resolved = toAsset(pkg);
+    if (override) {
+      const version = assetVersion(override);
+      if (version.toLowerCase() !== pkg.version.toLowerCase()) {
+        warn(`${warning} '${cyan(pkg.name)}' is pinned to ${version} in 'src/assets.ts', but the project uses ${pkg.version}; the pin is not applied`);
+      } else {
+        // (the assemblies and the hash are the ones the project resolved)
+        result.push({ ...resolved, ...override, assemblies: resolved.assemblies, sha512: resolved.sha512 });
+        continue;
+      }
+    }
+    result.push(resolved);
+  }
+  return applyPackageFiles(result, options.packageFiles);
+}
+
+/**
+ * Returns the NuGet packages to download and extract into the package.
+ *
+ * This is `deriveAssets`, without the packages that are bundled by the packages
+ * this package depends on (see `--all-projects`), and without the packages that UPM
+ * packages provide (which become package references; see `mapUpmPackages`). The result
+ * is kept in the context.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the packages to bundle
+ * @throws {Error} If the project.assets.json cannot be read
+ *
+ * @example
+ * ```typescript
+ * for (const { name, filename } of await resolveAssets(context)) {
+ *   console.log(`${name}: ${filename}`);
+ * }
+ * ```
+ */
+export async function resolveAssets(context: PackageContext) {
+  if (!context.assets) {
+    const provided = new Set(context.packageReferences.filter(each => !each.upm).flatMap(each => each.packages).map(each => each.toLowerCase()));
+    context.assets = mapUpmPackages(context, (await deriveAssets(context)).filter(each => !provided.has(each.name.toLowerCase())));
+  }
+  return context.assets;
+}
@@ -0,0 +1,367 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
+import { cyan } from './ansi';
+import { editorAsmDefTemplate } from './asmdef';
+import { PackageContext } from './context';
+import { barename, deleteDirectory, deleteFile, directoryExists, ensureDirectoryExists, fileExists, listFiles, writeTextFile } from './filesystem';
+import { readGuidRegistry } from './guids';
+import { check, info, verbose, warning } from './output';
+import { updatePlaceholders, updateResource } from './packaging';
+import { flag } from './schema';
+
+/**
+ * The folder that contains the built-in templates of the Editor layer (see `createEditorLayer`).
+ */
+export const editorTemplatesFolder = resolve(__dirname, '..', 'templates', 'editor');
+
+/**
+ * An environment of the SDK (a named base URL).
+ */
+export interface SdkEnvironment {
+  /** the name shown in the settings (ie, 'Production') */
+  name: string;
+
+  /** the field of the environments class (ie, 'PRODUCTION') */
+  field: string;
+
+  /** the base URL */
+  url: string;
+}
+
+/**
+ * A client option of the SDK (a property of its `ClientOptions` class) that the settings can hold.
+ */
+export interface ClientOption {
+  /** the name of the property */
+  name: string;
+
+  /** the C# type of the property (without the `?`) */
+  type: string;
+
+  /** the property is nullable */
+  nullable: boolean;
+
+  /** the default value (a C# expression), if the property has one */
+  defaultValue?: string;
+}
+
+/**
+ * What the Editor layer needs to know about the SDK (see `readSdkSettings`).
+ */
+export interface SdkSettings {
+  /** the namespace of the SDK (of its `ClientOptions` or environments class) */
+  namespace?: string;
+
+  /** the name of the client (the name of the environments class, without `Environment`) */
+  clientName?: string;
+
+  /** the full name of the `ClientOptions` class (if the SDK has one) */
+  clientOptionsClass?: string;
+
+  /** the environments (the string constants of the environments class) */
+  environments: SdkEnvironment[];
+
+  /** the environment that `ClientOptions.BaseUrl` defaults to */
+  defaultEnvironment?: string;
+
+  /** the client options that the settings can hold */
+  clientOptions: ClientOption[];
+}
+
+/**
+ * The C# types of the client options that the settings can hold, with the type of the
+ * serialized field (a `TimeSpan` is held in seconds) and its value when there is no default.
+ */
+const optionTypes: Record<string, { field: string, empty: string }> = {
+  string: { field: 'string', empty: '""' },
+  bool: { field: 'bool', empty: 'false' },
+  int: { field: 'int', empty: '0' },
+  long: { field: 'long', empty: '0' },
+  float: { field: 'float', empty: '0' },
+  double: { field: 'double', empty: '0' },
+  TimeSpan: { field: 'float', empty: '0' },
+};
+
+/**
+ * Returns the name of an environment for the settings (ie, `PRODUCTION` or `Production` is 'Production').
+ */
+function environmentName(field: string) {
+  return /[a-z]/.test(field) ? field : field.toLowerCase().split('_').filter(each => each).map(each => each[0].toUpperCase() + each.slice(1)).join(' ');
+}
+
+/**
+ * Returns the default value of a client option as the value of its serialized field (a
+ * C# literal), or undefined if it isn't a literal (or a `TimeSpan` that can be converted).
+ */
+function fieldDefault({ type, defaultValue }: ClientOption) {
+  const value = defaultValue?.trim() ?? '';
+  if (type === 'TimeSpan') {
+    const [, unit, amount] = /^TimeSpan\.From(Milliseconds|Seconds|Minutes)\(\s*([\d.]+)\s*\)$/.exec(value) ?? [];
+    return unit ? `${Number(amount) * { Milliseconds: 0.001, Seconds: 1, Minutes: 60 }[unit]!}f` : undefined;
+  }
+  if (type === 'string') {
+    return /^"([^"\\]|\\.)*"$/.test(value) ? value : undefined;
+  }
+  if (type === 'bool') {
+    return /^(true|false)$/.test(value) ? value : undefined;
+  }
+  const [, number] = /^(-?[\d.]+)[fFdDlLmM]?$/.exec(value) ?? [];
+  return number ? `${number}${type === 'float' ? 'f' : ''}` : undefined;
+}
+
+/**
+ * Finds the environments and the client options of a generated C# SDK in its source files.
+ *
+ * The environments are the string constants (or static strings) of the class named
+ * `<client>Environment`, ie:
+ *
+ * ```csharp
+ * public class MyApiEnvironment
+ * {
+ *     public const string PRODUCTION = "https://api.example.com";
+ * }
+ * ```
+ *
+ * The client options are the properties of the `ClientOptions` class with a type that a
+ * serialized field can hold (`string`, `bool`, `int`, `long`, `float`, `double` and `TimeSpan`),
+ * except the nullable ones without a default (and `BaseUrl`, which the environment sets).
+ *
+ * @param sourceFolder - The folder of the SDK project (the `bin/` and `obj/` folders are skipped)
+ * @returns A Promise that resolves to what was found
+ *
+ * @example
+ * ```typescript
+ * const sdk = await readSdkSettings('/src/MyApi');
+ * // { namespace: 'MyApi', clientName: 'MyApi', environments: [{ name: 'Production', ... }], ... }
+ * ```
+ */
+export async function readSdkSettings(sourceFolder: string): Promise<SdkSettings> {
+  const sdk: SdkSettings = { environments: [], clientOptions: [] };
+  const files = (await listFiles(sourceFolder)).filter(each => each.toLowerCase().endsWith('.cs') && !/(^|\/)(bin|obj)\//i.test(each));
+  let defaultBaseUrl: string | undefined;
+
+  for (const file of files) {
+    const source = await readFile(resolve(sourceFolder, file), 'utf8');
+    const [, namespace] = /^\s*namespace\s+([\w.]+)/m.exec(source) ?? [];
+
+    const environments = /\bclass\s+(\w*Environment)\b/.exec(source);
+    if (environments && !sdk.environments.length) {
+      const body = source.slice(environments.index);
+      for (const [, field, url] of body.matchAll(/public\s+(?:const\s+|static\s+(?:readonly\s+)?)string\s+(\w+)\s*=\s*"([^"]*)"\s*;/g)) {
+        sdk.environments.push({ name: environmentName(field), field, url });
+      }
+      if (sdk.environments.length) {
+        sdk.clientName = environments[1].replace(/Environment$/, '') || undefined;
+        sdk.namespace ??= namespace;
+      }
+    }
+
+    const clientOptions = /\bclass\s+ClientOptions\b/.exec(source);
+    if (clientOptions && !sdk.clientOptionsClass) {
+      sdk.clientOptionsClass = namespace ? `${namespace}.ClientOptions` : 'ClientOptions';
+      sdk.namespace = namespace ?? sdk.namespace;
+      const body = source.slice(clientOptions.index);
+      for (const [, type, nullable, name, defaultValue] of body.matchAll(/public\s+([\w.]+?)(\??)\s+(\w+)\s*\{\s*get;\s*(?:set|init);\s*\}(?:\s*=\s*([^;]+);)?/g)) {
+        if (name === 'BaseUrl') {
+          defaultBaseUrl = defaultValue?.trim();
+        } else if (optionTypes[type.replace(/^System\./, '')]) {
+          const option = { name, type: type.replace(/^System\./, ''), nullable: !!nullable, defaultValue: defaultValue?.trim() };
+          // (a nullable option without a default is left out, since a serialized field can't hold null)
+          if (!option.nullable || fieldDefault(option)) {
+            sdk.clientOptions.push(option);
+          }
+        }
+      }
+    }
+  }
+
+  // (ClientOptions.BaseUrl defaults to one of the environments, ie `MyApiEnvironment.PRODUCTION`)
+  const field = defaultBaseUrl?.split('.').pop();
+  sdk.defaultEnvironment = (sdk.environments.find(each => each.field === field) ?? sdk.environments[0])?.name;
+  return sdk;
+}
+
+/**
+ * Returns the values of the placeholders in the templates of the Editor layer.
+ *
+ * - `settingsClass` - the name of the settings class (`<client>Settings`)
+ * - `sdkNamespace` - the namespace of the SDK
+ * - `environmentNames`, `environmentUrls` - the names and base URLs of the environments (C# array elements)
+ * - `defaultEnvironment` - the name of the default environment (a C# string)
+ * - `clientOptionFields` - the serialized fields for the client options (C# field declarations)
+ * - `clientOptionsMethod` - the `CreateClientOptions()` method (a C# method, or a comment if the SDK has no `ClientOptions`)
+ *
+ * @param context - The package context (the package metadata must be initialized)
+ * @param sdk - The environments and client options of the SDK (see `readSdkSettings`)
+ * @returns The placeholder values
+ */
+export function editorPlaceholders(context: PackageContext, sdk: SdkSettings): Record<string, string> {
+  const { options, project, packageMetadata } = context;
+  const identifier = (text: string) => text.replace(/[^\w]+(\w?)/g, (_, next: string) => next.toUpperCase()).replace(/^\w/, first => first.toUpperCase()).replace(/^(\d)/, '_$1');
+  const clientName = sdk.clientName ?? identifier(project?.csprojFile ? barename(project.csprojFile) : packageMetadata.displayName);
+  const camel = (name: string) => name[0].toLowerCase() + name.slice(1);
+  const none = (what: string) => `/* the SDK has no ${what} */`;
+
+  const fields = sdk.clientOptions.map(option => ({ ...option, field: camel(option.name), value: fieldDefault(option) }));
+  // (an empty string or a zero TimeSpan leaves the SDK's default)
+  const assignment = ({ name, type, field }: typeof fields[number]) =>
+    type === 'string' ? `string.IsNullOrEmpty(${field}) ? defaults.${name} : ${field}` :
+      type === 'TimeSpan' ? `${field} > 0 ? TimeSpan.FromSeconds(${field}) : defaults.${name}` :
+        field;
+
+  return {
+    settingsClass: `${clientName}Settings`,
+    sdkNamespace: sdk.namespace ?? options.rootNamespace ?? clientName,
+    environmentNames: sdk.environments.map(each => JSON.stringify(each.name)).join(', ') || none('environments'),
+    environmentUrls: sdk.environments.map(each => JSON.stringify(each.url)).join(', ') || none('environments'),
+    defaultEnvironment: JSON.stringify(sdk.defaultEnvironment ?? ''),
+    clientOptionFields: fields.map(({ name, type, field, value }) => [
+      '',
+      `        [SerializeField, Tooltip("ClientOptions.${name}${type === 'TimeSpan' ? ' (in seconds)' : ''}")]`,
+      `        ${optionTypes[type].field} ${field} = ${value ?? optionTypes[type].empty};`,
+    ].join('\n')).join('\n') || `\n        ${none('client options that the settings can hold')}`,
+    clientOptionsMethod: sdk.clientOptionsClass ? [
+      '',
+      `        /// <summary>Creates the client options from the settings (the base URL and the client options).</summary>`,
+      `        public ${sdk.clientOptionsClass} CreateClientOptions()`,
+      `        {`,
+      `            var defaults = new ${sdk.clientOptionsClass}();`,
+      `            return new ${sdk.clientOptionsClass}`,
+      `            {`,
+      `                BaseUrl = BaseUrl ?? defaults.BaseUrl,`,
+      ...fields.map(each => `                ${each.name} = ${assignment(each)},`),
+      `            };`,
+      `        }`,
+    ].join('\n') : `\n        ${none('ClientOptions class')}`,
+  };
+}
+
+/**
+ * Generates the Editor layer of the package (the `editor` option): a settings asset for the
+ * SDK, and a page in Project Settings to edit it.
+ *
+ * - `Runtime/<client>Settings.cs` - a ScriptableObject with the environment (or a base URL),
+ *   the API key and the client options, that is loaded at runtime from a Resources folder
+ *   and creates the SDK's `ClientOptions`
+ * - `Editor/<client>SettingsProvider.cs` - a SettingsProvider that shows the settings in
+ *   Project Settings (with the SDK's environments to pick from)
+ * - `Editor/Editor.asmdef` - the assembly definition of the Editor scripts (for the Editor
+ *   platform only), that references the runtime assembly definition
+ *
+ * The scripts are generated from the templates in `templates/editor/` (see `editorPlaceholders`
+ * for the placeholders, which can also be in the file names); a template with the same path
+ * in the `editorTemplates` folder replaces the built-in one, and the other files in it are
+ * added. The environments and client options are found in the SDK's source files (see
+ * `readSdkSettings`).
+ *
+ * The generated files are recorded in the GUID registry (see `registerGuids`), so that the
+ * ones that a later run doesn't generate (ie, after the `settingsClass` placeholder changes)
+ * are deleted (see `removeEditorLayer`).
+ *
+ * @param context - The package context (the package metadata must be initialized)
+ * @param data - The placeholder values (earlier objects take precedence; see `placeholderValues`)
+ * @returns A Promise that resolves to the files that were generated (relative to the package folder)
+ * @throws {Error} If the assembly definitions are turned off, the `editorTemplates` folder doesn't exist, or a file name has an unknown placeholder
+ *
+ * @example
+ * ```typescript
+ * await createEditorLayer(context, ...placeholderValues(context));
+ * await asmdefStage(context);
+ * ```
+ */
+export async function createEditorLayer(context: PackageContext, ...data: Record<string, unknown>[]) {
+  const { options, packageMetadata, locations: { apiFolder, editorFolder, editorAsmDefFile, packageFolder } } = context;
+  if (options.asmdef === false) {
+    throw new Error(`${flag('editor')} needs the assembly definitions (it can't be used with ${flag('asmdef')} false)`);
+  }
+
+  const sdk: SdkSettings = apiFolder && await directoryExists(apiFolder) ? await readSdkSettings(apiFolder) : { environments: [], clientOptions: [] };
+  if (!sdk.clientOptionsClass) {
+    verbose(`  ${warning} The SDK has no ClientOptions class, so the settings don't create the client options`);
+  }
+
+  // the user's templates replace the built-in ones with the same path
+  const templates = new Map<string, string>();
+  const folders = [editorTemplatesFolder, ...options.editorTemplates ? [resolve(process.cwd(), options.editorTemplates)] : []];
+  for (const folder of folders) {
+    if (!await directoryExists(folder)) {
+      throw new Error(`Editor templates folder '${folder}' does not exist`);
+    }
+    for (const file of await listFiles(folder)) {
+      templates.set(file, resolve(folder, file));
+    }
+  }
+
+  // (the user's placeholders take precedence, so that ie, the settings class can be renamed)
+  const placeholders = editorPlaceholders(context, sdk);
+  const values = [options.placeholder ?? {}, placeholders, ...data];
+  const generated = new Array<string>();
+  for (const [file, template] of templates) {
+    const target = updatePlaceholders(file, ...values);
+    if (target.includes('${')) {
+      throw new Error(`Editor template '${template}' has an unknown placeholder in its name`);
+    }
+    await ensureDirectoryExists(resolve(packageFolder, target, '..'));
+    await updateResource(template, resolve(packageFolder, target), ...values);
+    generated.push(target);
+  }
+
+  // (the settings of an existing assembly definition are kept, except the ones the Editor layer needs)
+  await ensureDirectoryExists(editorFolder);
+  await writeTextFile(editorAsmDefFile, {
+    ...editorAsmDefTemplate,
+    ...await fileExists(editorAsmDefFile) ? JSON.parse(await readFile(editorAsmDefFile, 'utf8')) : {},
+    name: `${packageMetadata.name}.Editor`,
+    references: [packageMetadata.name],
+    includePlatforms: ['Editor'],
+    excludePlatforms: [],
+  });
+  generated.push(relative(packageFolder, editorAsmDefFile).replace(/\\/g, '/'));
+  context.generated = generated;
+  await removeEditorLayer(context);
+
+  info(`  ${check} Settings '${cyan(updatePlaceholders('${settingsClass}', ...values))}' with ${sdk.environments.length} environment(s) and ${sdk.clientOptions.length} client option(s)`);
+  return generated;
+}
+
+/**
+ * Deletes the files that an earlier run generated for the Editor layer (as recorded in the
+ * GUID registry), except the ones that this run generated (see `createEditorLayer`), with
+ * their .meta files; the Editor/ folder is deleted when nothing else is left in it.
+ *
+ * This runs when the `editor` option is off, so that turning the Editor layer off removes it.
+ *
+ * @param context - The package context (the package metadata must be initialized)
+ * @returns A Promise that resolves when the files are deleted
+ * @throws {Error} If the GUID registry cannot be read
+ *
+ * @example
+ * ```typescript
+ * if (!context.options.editor) {
+ *   await removeEditorLayer(context);
+ * }
+ * ```
+ */
+export async function removeEditorLayer(context: PackageContext) {
+  const { packageMetadata, locations: { guidRegistry, packageFolder, editorFolder } } = context;
+  const registry = guidRegistry ? await readGuidRegistry(guidRegistry) : undefined;
+  const kept = new Set(context.generated ?? []);
+
+  for (const { path } of Object.values(registry?.packages[packageMetadata.name] ?? {}).filter(each => each.generated === 'editor' && !kept.has(each.path))) {
+    const fullPath = resolve(packageFolder, path);
+    if (await fileExists(fullPath)) {
+      await deleteFile(fullPath);
+      info(`  ${check} Removed '${cyan(path)}' (the Editor layer no longer generates it)`);
+    }
+    if (await fileExists(`${fullPath}.meta`)) {
+      await deleteFile(`${fullPath}.meta`);
+    }
+  }
+
+  if (await directoryExists(editorFolder) && !(await readdir(editorFolder)).length) {
+    await deleteDirectory(editorFolder);
+    if (await fileExists(`${editorFolder}.meta`)) {
+      await deleteFile(`${editorFolder}.meta`);
+    }
+  }
+}
@@ -1,8 +1,51 @@
+import { createHash } from 'node:crypto';
 import { copyFile as copy, mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
-import { basename, extname, resolve } from 'node:path';
+import { basename, extname, relative, resolve } from 'node:path';
 import { cyan } from './ansi';
 import { check, cross, debug, error, info, note } from './output';
 
+/**
+ * The kinds of changes to a file that are reported to the file change listeners.
+ */
+export type FileChangeKind = 'created' | 'updated' | 'unchanged' | 'deleted';
+
+/**
+ * A function that is called when a file is created, updated, left unchanged or deleted.
+ */
+export type FileChangeListener = (kind: FileChangeKind, filePath: string) => void;
+
+const fileChangeListeners = new Set<FileChangeListener>();
+
+/**
+ * Registers a function to be called for each file change.
+ * 
+ * @param listener - The function to call
+ * @returns A function that removes the listener
+ * 
+ * @example
+ * ```typescript
+ * const stop = onFileChange((kind, filePath) => console.log(kind, filePath));
+ * await writeTextFile('./output/README.md', '# Hello');
+ * stop();
+ * ```
+ */
+export function onFileChange(listener: FileChangeListener) {
+  fileChangeListeners.add(listener);
+  return () => { fileChangeListeners.delete(listener); };
+}
+
+/**
+ * Reports a file change to the registered listeners.
+ * 
+ * @param kind - The kind of change
+ * @param filePath - The full path to the file
+ */
+export function fileChanged(kind: FileChangeKind, filePath: string) {
+  for (const listener of fileChangeListeners) {
+    listener(kind, filePath);
+  }
+}
+
 /**
  * Extracts the base name of a file without its extension.
  * 
@@ -226,6 +269,7 @@ export async function deleteFile(filePath: string): Promise<void> {
       switch (kind) {
         case "file":
           await rm(filePath);
+          fileChanged('deleted', filePath);
           debug(`  ${check} Deleted '${cyan(filePath)}'`);
           break;
         case "directory":
@@ -287,16 +331,19 @@ export async function copyFile(sourcePath: string, targetPath: string) {
     const source = readFile(sourcePath, 'binary');
     const target = readFile(targetPath, 'binary');
     if (await source === await target) {
+      fileChanged('unchanged', targetPath);
       debug(`  ${note} '${cyan(sourcePath)}' unchanged.`);
       return;
     }
 
     await copy(sourcePath, targetPath);
+    fileChanged('updated', targetPath);
     info(`  ${check} Replaced '${cyan(sourcePath)}' with '${cyan(targetPath)}'`);
     return;
   }
 
   await copy(sourcePath, targetPath);
+  fileChanged('created', targetPath);
   info(`  ${check} Copied '${cyan(sourcePath)}' to '${cyan(targetPath)}'`);
 }
 
@@ -309,6 +356,7 @@ export async function copyFile(sourcePath: string, targetPath: string) {
  * 
  * @param sourcePath - Path to the source file or directory
  * @param targetDirectory - Path to the target directory
+ * @param filter - Only files whose name passes the filter are copied (optional)
  * @throws {Error} If the target directory doesn't exist or if the source path is invalid
  * 
  * @example
@@ -320,7 +368,7 @@ export async function copyFile(sourcePath: string, targetPath: string) {
  * await copyFiles('./src/', './dist/');
  * ```
  */
-export async function copyFiles(sourcePath: string, targetDirectory: string) {
+export async function copyFiles(sourcePath: string, targetDirectory: string, filter: (name: string) => boolean = () => true) {
 
   const { kind, exists } = await pathInfo(sourcePath);
 
@@ -338,7 +386,7 @@ export async function copyFiles(sourcePath: string, targetDirectory: string) {
 
       case "directory":
         debug(`  ${note} copying directory '${cyan(sourcePath)}' to '${cyan(targetDirectory)}'`);
-        for (const file of await readdir(sourcePath)) {
+        for (const file of (await readdir(sourcePath)).filter(filter)) {
           const source = resolve(sourcePath, file);
           const target = resolve(targetDirectory, file);
           await copyFile(source, target);
@@ -378,16 +426,19 @@ export async function writeTextFile(filePath: string, content: string | Record<s
   if (await fileExists(filePath)) {
     const existing = await readFile(filePath, 'utf8');
     if (existing === content) {
+      fileChanged('unchanged', filePath);
       debug(`  ${note} '${cyan(filePath)}' unchanged.`);
       return;
     }
     await writeFile(filePath, content);
+    fileChanged('updated', filePath);
     info(`  ${check} Updated '${cyan(filePath)}'`);
     return;
   }
 
   // write the file out to disk 
   await writeFile(filePath, content);
+  fileChanged('created', filePath);
   info(`  ${check} Created '${cyan(filePath)}'`);
 }
 
@@ -435,4 +486,47 @@ export async function isTextFile(filePath: string): Promise<boolean> {
   } catch {
     return false;
   }
-}
\ No newline at end of file
+}
+/**
+ * Lists all of the files in a folder (recursively).
+ * 
+ * @param folder - The folder to list
+ * @param root - The folder the returned paths are relative to (defaults to the folder)
+ * @returns The paths of the files, relative to the root, using forward slashes
+ * 
+ * @example
+ * ```typescript
+ * const files = await listFiles('./output');
+ * // ['package.json', 'Runtime/MyApi.dll', ...]
+ * ```
+ */
+export async function listFiles(folder: string, root = folder): Promise<string[]> {
+  const result = new Array<string>();
+  for (const name of (await readdir(folder)).sort()) {
+    const fullPath = resolve(folder, name);
+    const { kind } = await pathInfo(fullPath);
+    if (kind === 'directory') {
+      result.push(...await listFiles(fullPath, root));
+    } else if (kind === 'file') {
+      result.push(relative(root, fullPath).replace(/\\/g, '/'));
+    }
+  }
+  return result;
+}
+
+/**
+ * Computes the hash of a file's content.
+ * 
+ * @param filePath - The path to the file
+ * @param algorithm - The hash algorithm (default: sha512)
+ * @param encoding - The encoding of the hash (default: hex; NuGet uses base64)
+ * @returns A Promise that resolves to the hash
+ * 
+ * @example
+ * ```typescript
+ * const sha512 = await hashFile('./com.mycompany.api-1.0.0.tgz');
+ * ```
+ */
+export async function hashFile(filePath: string, algorithm = 'sha512', encoding: 'hex' | 'base64' = 'hex') {
+  return createHash(algorithm).update(await readFile(filePath)).digest(encoding);
+}
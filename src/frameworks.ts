@@ -0,0 +1,263 @@
+import { basename } from 'node:path';
+import { cyan, grey } from './ansi';
+import { assetVersion } from './assets';
+import { listFiles } from './filesystem';
+import { LocatedPackage } from './nuget';
+import { check, error, info, report, verbose, warn, warning } from './output';
+import { listEntries, selectEntries } from './unpack';
+
+/**
+ * A target framework, parsed from a folder name in a .nupkg.
+ */
+interface Framework {
+  /** the framework family */
+  family: 'netstandard' | 'netframework' | 'netcoreapp' | 'any';
+
+  /** the version numbers (ie, [4, 7, 2] for net472) */
+  version: number[];
+}
+
+/**
+ * What was picked from a package for the Unity API compatibility level.
+ *
+ * - `selected` - the files in `lib/<framework>/` are used
+ * - `placeholder` - the nearest framework only has a placeholder (`_._`); the framework provides the assembly
+ * - `ref-only` - the package only has reference assemblies (`ref/`), which can't be used at runtime
+ * - `incompatible` - none of the frameworks in `lib/` are compatible
+ * - `no-lib` - the package has no assemblies (ie, analyzers or build files only)
+ */
+export type FrameworkStatus = 'selected' | 'placeholder' | 'ref-only' | 'incompatible' | 'no-lib';
+
+/**
+ * The framework folder picked from a package.
+ */
+export interface FrameworkSelection {
+  /** what was picked */
+  status: FrameworkStatus;
+
+  /** the framework folder that was picked (ie, `netstandard2.0`; empty for files directly in `lib/`) */
+  framework?: string;
+
+  /** the files to extract (paths inside the package) */
+  files: string[];
+
+  /** the framework folders in `lib/` (or in `ref/`, for a reference-only package) */
+  available: string[];
+}
+
+/**
+ * Parses a NuGet target framework folder name.
+ *
+ * @param folder - The folder name (ie, `netstandard2.0`, `net472`, `net40-client`, `net8.0`)
+ * @returns The framework, or undefined if it isn't one that is understood
+ *
+ * @example
+ * ```typescript
+ * parseFramework('net472');         // { family: 'netframework', version: [4, 7, 2] }
+ * parseFramework('netstandard2.0'); // { family: 'netstandard', version: [2, 0] }
+ * ```
+ */
+export function parseFramework(folder: string): Framework | undefined {
+  if (folder === '') {
+    return { family: 'any', version: [] };
+  }
+  // profiles (ie, 'net40-client') and platforms (ie, 'net8.0-windows') are ignored
+  const [, name, version] = /^(netstandard|netcoreapp|net)(\d+(?:\.\d+)*)(?:-.*)?$/.exec(folder.toLowerCase()) ?? [];
+  switch (name) {
+    case 'netstandard':
+    case 'netcoreapp':
+      return { family: name, version: version.split('.').map(Number) };
+    case 'net':
+      // net5.0 and later are .NET (Core); net472 (or net4.7.2) is .NET Framework 4.7.2
+      const numbers = version.includes('.') ? version.split('.').map(Number) : version.split('').map(Number);
+      return numbers[0] >= 5 ? { family: 'netcoreapp', version: numbers } : { family: 'netframework', version: numbers };
+  }
+  return undefined;
+}
+
+/**
+ * Compares two version number arrays.
+ *
+ * @param a - The first version (ie, [4, 7, 2])
+ * @param b - The second version
+ * @returns A negative number if `a` is lower, a positive number if it is higher, and 0 if they are the same
+ *
+ * @example
+ * ```typescript
+ * compareVersions([4, 7, 2], [4, 8]); // < 0
+ * ```
+ */
+export function compareVersions(a: number[], b: number[]) {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Ranks how well a framework suits a Unity API compatibility level, the way NuGet picks the nearest framework.
+ *
+ * Frameworks of the same family are preferred to .NET Standard (for .NET Framework),
+ * and higher versions to lower ones; files directly in `lib/` are the last resort.
+ *
+ * @param framework - The framework
+ * @param level - The Unity API compatibility level
+ * @returns The rank (higher is better), or undefined if the framework is not compatible
+ */
+function rankFramework({ family, version }: Framework, level: string) {
+  const rank = (tier: number) => tier * 1000 + version.reduce((total, each, index) => total + each * 10 ** (2 - index), 0);
+  switch (family) {
+    case 'any':
+      return 0;
+    case 'netstandard':
+      // .NET Framework 4.7.1 and later implement .NET Standard 2.0 (but not 2.1)
+      return compareVersions(version, level === 'netframework' ? [2, 0] : [2, 1]) <= 0 ? rank(1) : undefined;
+    case 'netframework':
+      return level === 'netframework' && compareVersions(version, [4, 8]) <= 0 ? rank(2) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the framework folders in a part of a package (ie, `lib/`), with the files in each one.
+ *
+ * @param entries - The paths of the files in the package
+ * @param root - The part of the package (`lib` or `ref`)
+ */
+function frameworkFolders(entries: string[], root: string) {
+  const result = new Map<string, string[]>();
+  for (const entry of entries) {
+    const segments = entry.split('/');
+    if (segments[0].toLowerCase() !== root) {
+      continue;
+    }
+    // files directly in lib/ are for any framework
+    const folder = segments.length > 2 ? segments[1] : '';
+    result.set(folder, [...result.get(folder) ?? [], entry]);
+  }
+  return result;
+}
+
+/**
+ * Picks the nearest compatible framework folder in a package for a Unity API compatibility level.
+ *
+ * The Unity API compatibility levels are `netstandard2.1` (.NET Standard 2.1) and
+ * `netframework` (.NET Framework 4.8). For `netstandard2.1`, the highest `netstandard`
+ * folder up to 2.1 is picked. For `netframework`, the highest `net` folder up to 4.8 is
+ * picked, then the highest `netstandard` folder up to 2.0. Files directly in `lib/` are
+ * used if nothing else is compatible. Folders for .NET (Core), and for platforms and
+ * portable profiles, are never compatible.
+ *
+ * @param entries - The paths of the files in the package (using '/' separators)
+ * @param level - The Unity API compatibility level (`netstandard2.1` or `netframework`)
+ * @returns The selection
+ *
+ * @example
+ * ```typescript
+ * selectFramework(['lib/net45/A.dll', 'lib/netstandard2.0/A.dll'], 'netstandard2.1');
+ * // { status: 'selected', framework: 'netstandard2.0', files: ['lib/netstandard2.0/A.dll'], available: ['net45', 'netstandard2.0'] }
+ * ```
+ */
+export function selectFramework(entries: string[], level: string): FrameworkSelection {
+  const lib = frameworkFolders(entries, 'lib');
+  const available = [...lib.keys()].sort();
+
+  if (lib.size === 0) {
+    const ref = [...frameworkFolders(entries, 'ref').keys()].sort();
+    return { status: ref.length ? 'ref-only' : 'no-lib', files: [], available: ref };
+  }
+
+  let best: { folder: string; rank: number } | undefined;
+  for (const folder of available) {
+    const framework = parseFramework(folder);
+    const rank = framework ? rankFramework(framework, level) : undefined;
+    if (rank !== undefined && (!best || rank > best.rank)) {
+      best = { folder, rank };
+    }
+  }
+
+  if (!best) {
+    return { status: 'incompatible', files: [], available };
+  }
+
+  const files = lib.get(best.folder)!.filter(each => !each.endsWith('/_._'));
+  return { status: files.length ? 'selected' : 'placeholder', framework: best.folder, files, available };
+}
+
+/**
+ * Works out the files to extract from a package, for the Unity API compatibility level.
+ *
+ * When the package has `files` (glob patterns, from the built-in list or the `packageFiles`
+ * option), the files that match them are used. Otherwise, the nearest compatible framework
+ * folder is picked (see `selectFramework`), and the choice is reported. Packages with only
+ * reference assemblies are skipped with a warning; packages with no compatible framework are
+ * reported as errors. Either way, the files that match the package's `excludeFiles` patterns
+ * are left out, and a warning is shown for each pattern that matched nothing (ie, a typo).
+ *
+ * @param pkg - The package (the .nupkg, or the extracted package folder)
+ * @param level - The Unity API compatibility level (`netstandard2.1` or `netframework`)
+ * @param preserveFolders - Whether the subfolders of the files are kept (otherwise, when files have the same name, only the first one is used, with a warning)
+ * @returns A Promise that resolves to the files to extract (empty when nothing is used from the package)
+ * @throws {Error} If the package cannot be read
+ *
+ * @example
+ * ```typescript
+ * const files = await selectPackageFiles(pkg, 'netstandard2.1');
+ * await unzip(pkg.path, files, internalAssemblyFolder);
+ * ```
+ */
+export async function selectPackageFiles(pkg: LocatedPackage, level: string, preserveFolders = false) {
+  const version = assetVersion(pkg);
+  const entries = pkg.source === 'folder' ? await listFiles(pkg.path) : await listEntries(pkg.path);
+  const include = [pkg.files ?? []].flat();
+  const exclude = [pkg.excludeFiles ?? []].flat();
+
+  let selected: { files: string[]; unmatched: string[] };
+  if (include.length) {
+    selected = selectEntries(entries, include, exclude);
+    verbose(`  ${check} ${cyan(pkg.name)} ${version}: ${include.join(', ')}${exclude.length ? ` (excluding ${exclude.join(', ')})` : ''} ${grey(`(${selected.files.length} file(s))`)}`);
+  } else {
+    const { status, framework, files, available } = selectFramework(entries, level);
+    report({ type: 'framework', package: pkg.name, version, framework: status === 'selected' || status === 'placeholder' ? framework || 'lib' : undefined, status });
+
+    switch (status) {
+      case 'selected':
+        info(`  ${check} ${cyan(pkg.name)} ${version}: ${framework ? `lib/${framework}` : 'lib'}`);
+        break;
+      case 'placeholder':
+        verbose(`  ${check} ${cyan(pkg.name)} ${version}: skipped - lib/${framework} is provided by the framework`);
+        break;
+      case 'ref-only':
+        warn(`${warning} '${cyan(pkg.name)}' ${version} only has reference assemblies (ref/${available.join(', ref/')}), which can't be used at runtime; skipped`);
+        break;
+      case 'incompatible':
+        error(`'${cyan(pkg.name)}' ${version} has no assemblies compatible with ${level} (found: lib/${available.join(', lib/')})`);
+        break;
+      case 'no-lib':
+        verbose(`  ${check} ${cyan(pkg.name)} ${version}: skipped - no assemblies`);
+        break;
+    }
+    selected = exclude.length && files.length ? selectEntries(files, ['**'], exclude) : { files, unmatched: [] };
+  }
+
+  for (const pattern of selected.unmatched) {
+    warn(`${warning} '${cyan(pkg.name)}' ${version}: the pattern '${pattern}' matched no files`);
+  }
+
+  if (!preserveFolders) {
+    // the files are put directly in Runtime/Internal/, so files with the same name would overwrite each other
+    const byName = new Map<string, string[]>();
+    for (const file of selected.files) {
+      const name = basename(file).toLowerCase();
+      byName.set(name, [...byName.get(name) ?? [], file]);
+    }
+    for (const same of [...byName.values()].filter(each => each.length > 1)) {
+      warn(`${warning} '${cyan(pkg.name)}' ${version}: ${same.map(each => `'${each}'`).join(', ')} have the same name, so only the first one is extracted (use --preserve-folders to keep their folders)`);
+    }
+    return [...byName.values()].map(([first]) => first);
+  }
+  return selected.files;
+}
@@ -0,0 +1,256 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, relative, resolve, sep } from 'node:path';
+import { cyan } from './ansi';
+import { PackageContext } from './context';
+import { fileExists, listFiles, pathInfo, writeTextFile } from './filesystem';
+import { metaGuid } from './meta';
+import { check, cross, error, info, verbose, warn, warning } from './output';
+
+/**
+ * An asset's GUID, as recorded in the GUID registry.
+ */
+export interface GuidEntry {
+  /** the GUID (32 hex digits) */
+  guid: string;
+
+  /** where the asset was last seen (relative to the package folder) */
+  path: string;
+
+  /** the .meta file was made by hand, so it is left alone (only its GUID is recorded) */
+  custom?: boolean;
+
+  /** the asset was generated by the Editor layer, so it is deleted when it no longer is (see `removeEditorLayer`) */
+  generated?: 'editor';
+}
+
+/**
+ * The contents of the GUID registry (unity-sdk.guids.json).
+ */
+export interface GuidRegistry {
+  /** the version of the registry format */
+  version: 1;
+
+  /** the GUIDs (by asset identity, see `assetIdentity`) for each Unity package (by name) */
+  packages: Record<string, Record<string, GuidEntry>>;
+}
+
+/**
+ * The GUID to use for an asset in the package (see `registerGuids`).
+ */
+export interface AssetGuid {
+  /** the GUID */
+  guid: string;
+
+  /** the .meta file is left alone */
+  custom?: boolean;
+}
+
+/**
+ * Reads the GUID registry.
+ *
+ * @param registryFile - The full path to the GUID registry
+ * @returns A Promise that resolves to the registry, or undefined if it doesn't exist
+ * @throws {Error} If the registry cannot be read or parsed
+ */
+export async function readGuidRegistry(registryFile: string): Promise<GuidRegistry | undefined> {
+  if (!await fileExists(registryFile)) {
+    return undefined;
+  }
+  try {
+    const json = JSON.parse(await readFile(registryFile, 'utf8'));
+    if (json.version !== 1 || typeof json.packages !== 'object') {
+      throw new Error('unsupported format');
+    }
+    return json;
+  } catch (err) {
+    throw new Error(`Failed to read the GUID registry '${registryFile}': ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Returns the logical identity of an asset, which its GUID is recorded under.
+ *
+ * An assembly (and its .xml and .pdb) is identified by its path below Runtime/ or
+ * Runtime/Internal/ (ie, `assembly:Newtonsoft.Json.dll`), so that it keeps its GUID when it
+ * moves between them; every other asset is identified by its path in the package.
+ *
+ * @param relativePath - The path of the asset, relative to the package folder (using '/' separators)
+ * @returns The identity
+ *
+ * @example
+ * ```typescript
+ * assetIdentity('Runtime/Internal/Newtonsoft.Json.dll'); // 'assembly:Newtonsoft.Json.dll'
+ * assetIdentity('Runtime/Runtime.asmdef'); // 'Runtime/Runtime.asmdef'
+ * ```
+ */
+export function assetIdentity(relativePath: string) {
+  const [, path] = /^Runtime\/(?:Internal\/)?(.+)$/.exec(relativePath) ?? [];
+  return path && ['.dll', '.xml', '.pdb'].includes(extname(path).toLowerCase()) ? `assembly:${path}` : relativePath;
+}
+
+/**
+ * Returns the GUID that is generated for a new asset: the MD5 hash of the package name and the
+ * asset's identity (so that packages with the same layout don't get the same GUIDs).
+ *
+ * @param packageName - The name of the Unity package
+ * @param identity - The identity of the asset (see `assetIdentity`)
+ * @returns The GUID (32 hex digits)
+ */
+export function registryGuid(packageName: string, identity: string) {
+  return createHash('md5').update(`${packageName}:${identity}`).digest('hex');
+}
+
+/**
+ * Reads the GUID in a .meta file.
+ *
+ * @param metaFile - The full path to the .meta file
+ * @returns A Promise that resolves to the GUID, or undefined if the file doesn't exist or has none
+ */
+export async function readMetaGuid(metaFile: string) {
+  if (!await fileExists(metaFile)) {
+    return undefined;
+  }
+  const [, guid] = /^guid:\s*([0-9a-f]{32})\s*$/im.exec(await readFile(metaFile, 'utf8')) ?? [];
+  return guid?.toLowerCase();
+}
+
+/**
+ * Lists the assets in the package folder that get a .meta file (the files and folders, recursively).
+ */
+async function listAssets(folder: string, packageFolder: string): Promise<string[]> {
+  const assets = new Array<string>();
+  for (const name of (await readdir(folder)).filter(each => extname(each) !== '.meta')) {
+    const fullPath = resolve(folder, name);
+    assets.push(fullPath);
+    if ((await pathInfo(fullPath)).kind === 'directory') {
+      assets.push(...await listAssets(fullPath, packageFolder));
+    }
+  }
+  return assets;
+}
+
+/**
+ * Picks the GUID of each asset in the package folder, from the GUID registry.
+ *
+ * The GUID registry (`unity-sdk.guids.json`, next to the solution file) records the GUID of
+ * every asset in the package by its logical identity (see `assetIdentity`), so that the
+ * GUIDs stay the same from release to release (scenes and prefabs reference the scripts in
+ * an assembly by the assembly's GUID). An asset that isn't in the registry yet gets:
+ *
+ * - the GUID of the entry that the `renameAsset` option maps it from (`<old path>=<new path>`)
+ * - the GUID in its existing .meta file; a .meta file with a GUID that the tool didn't
+ *   generate was made by hand, so it is marked `custom` and left alone. The GUIDs that
+ *   earlier versions derived from the path alone are the same in every package with the
+ *   same layout, so they are replaced, except for assemblies (which scenes and prefabs
+ *   reference) and assembly definitions (which other assembly definitions reference as
+ *   `GUID:<guid>`), which keep them.
+ * - a new GUID, derived from the package name and the identity (see `registryGuid`)
+ *
+ * A GUID that another asset already has is never reused. The entries for assets that are
+ * no longer in the package are kept (so an asset that comes back gets its GUID back). The
+ * assets that the Editor layer generated (see `createEditorLayer`) are marked `generated`.
+ *
+ * @param context - The package context (the package metadata must be initialized)
+ * @returns A Promise that resolves to the GUID of each asset (by full path), or undefined if there is no registry (no solution file)
+ * @throws {Error} If the registry cannot be read
+ *
+ * @example
+ * ```typescript
+ * await createMetaFiles(packageFolder, packageFolder, options.plugins, await registerGuids(context));
+ * ```
+ */
+export async function registerGuids(context: PackageContext) {
+  const { options, packageMetadata, locations: { guidRegistry, packageFolder } } = context;
+  if (!guidRegistry) {
+    return undefined;
+  }
+
+  const registry: GuidRegistry = await readGuidRegistry(guidRegistry) ?? { version: 1, packages: {} };
+  const entries = registry.packages[packageMetadata.name] ??= {};
+  const toPath = (fullPath: string) => relative(packageFolder, fullPath).split(sep).join('/');
+
+  // explicit renames move the entry to the new identity
+  for (const [from, to] of Object.entries(options.renameAsset ?? {})) {
+    const [source, target] = [assetIdentity(from), assetIdentity(to)];
+    if (entries[source] && !entries[target]) {
+      entries[target] = { ...entries[source], path: to };
+      delete entries[source];
+      info(`  ${check} '${cyan(to)}' keeps the GUID of '${cyan(from)}'`);
+    }
+  }
+
+  const assets = await listAssets(packageFolder, packageFolder);
+  const used = new Map(Object.entries(entries).map(([identity, entry]) => [entry.guid, identity]));
+  const editorFiles = new Set(context.generated ?? []);
+  for (const entry of Object.values(entries)) {
+    delete entry.generated;
+  }
+  const result = new Map<string, AssetGuid>();
+  let added = 0;
+
+  for (const fullPath of assets) {
+    const path = toPath(fullPath);
+    const identity = assetIdentity(path);
+    let entry = entries[identity];
+    if (!entry) {
+      const generated = registryGuid(packageMetadata.name, identity);
+      const existing = await readMetaGuid(`${fullPath}.meta`);
+      const legacy = existing === metaGuid(relative(packageFolder, fullPath));
+      if (existing && used.has(existing)) {
+        warn(`${warning} '${cyan(path)}.meta' has the same GUID as '${cyan(used.get(existing)!)}'; it gets a new one`);
+      }
+      // (assemblies and assembly definitions keep their legacy GUIDs: scenes, prefabs and other assembly definitions reference them)
+      const adopt = existing && !used.has(existing) && (!legacy || identity.startsWith('assembly:') || extname(path).toLowerCase() === '.asmdef');
+      entry = adopt
+        ? { guid: existing, path, ...!legacy && existing !== generated ? { custom: true } : {} }
+        : { guid: used.has(generated) ? registryGuid(packageMetadata.name, `${identity}:${path}`) : generated, path };
+      entries[identity] = entry;
+      used.set(entry.guid, identity);
+      added++;
+    }
+    entry.path = path;
+    if (editorFiles.has(path)) {
+      entry.generated = 'editor';
+    }
+    result.set(fullPath, { guid: entry.guid, custom: entry.custom });
+  }
+
+  // (sorted, so that the registry only changes when the assets do)
+  const sorted = <T>(record: Record<string, T>) => Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+  registry.packages[packageMetadata.name] = sorted(entries);
+  registry.packages = sorted(registry.packages);
+  await writeTextFile(guidRegistry, `${JSON.stringify(registry, null, 2)}\n`);
+  verbose(`  ${check} ${assets.length} asset GUID(s) from '${cyan(guidRegistry)}' (${added} new)`);
+  return result;
+}
+
+/**
+ * Checks that no two .meta files in the package folder have the same GUID (Unity would
+ * import only one of the assets).
+ *
+ * Each duplicate is reported as an error (the caller checks the error count).
+ *
+ * @param packageFolder - The package folder
+ * @returns A Promise that resolves to the number of duplicated GUIDs
+ *
+ * @example
+ * ```typescript
+ * await verifyGuids('./output');
+ * ```
+ */
+export async function verifyGuids(packageFolder: string) {
+  const paths = new Map<string, string[]>();
+  for (const file of (await listFiles(packageFolder)).filter(each => each.endsWith('.meta'))) {
+    const guid = await readMetaGuid(resolve(packageFolder, file));
+    if (guid) {
+      paths.set(guid, [...paths.get(guid) ?? [], file]);
+    }
+  }
+
+  const duplicates = [...paths].filter(([, files]) => files.length > 1);
+  for (const [guid, files] of duplicates) {
+    error(`  ${cross} GUID ${guid} is in more than one .meta file: ${files.map(each => `'${cyan(each)}'`).join(', ')}`);
+  }
+  return duplicates.length;
+}
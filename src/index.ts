@@ -0,0 +1,23 @@
+export { createUnityPackage, createUnityPackages, UnityPackageResult } from './api';
+export { AssemblyIdentity, AssemblyInfo, AssemblyTypes, DebugInfo, readAssembly, readAssemblyIdentity, readAssemblyTypes, readDebugInfo } from './assembly';
+export { pdbKind, selectCompanions } from './companions';
+export { resolveConfig, UnityPackageOptions } from './config';
+export { ClientOption, createEditorLayer, editorPlaceholders, editorTemplatesFolder, readSdkSettings, removeEditorLayer, SdkEnvironment, SdkSettings } from './editor';
+export { AssemblyCandidate, AssemblyConflict, ConflictPolicy, findConflicts, pickAssembly, resolveConflicts } from './conflicts';
+export { createContext, PackageContext, PackageReference, resolveProject } from './context';
+export { compareVersions, FrameworkSelection, FrameworkStatus, parseFramework, selectFramework, selectPackageFiles } from './frameworks';
+export { AssetGuid, assetIdentity, GuidEntry, GuidRegistry, readGuidRegistry, readMetaGuid, registerGuids, registryGuid, verifyGuids } from './guids';
+export { getLocations, Locations } from './locations';
+export { ExtractedPackage, LockedPackage, LockFile, lockPackages, packageHash, readLockFile } from './lockfile';
+export { ImporterKind, importerKind, metaGuid, PluginSettings, pluginPlatforms, pluginSettings, renderMeta } from './meta';
+export { configureNetwork, downloadPackage, findPackageUrl, getPackageVersions, getRegistration, getServiceIndex, NetworkSettings, normalizeVersion, NuGetFeed, RegistrationEntry, ServiceIndex } from './network';
+export { createNotices, licensesFolder, PackageNotice, readPackageNotice, renderNotice } from './notices';
+export { acquirePackages, defaultFeed, findNuGetConfigFiles, globalPackagesFolder, LocatedPackage, locatePackage, NuGetConfig, packageSources, PackageSource, readNuGetConfig, readPackageFile, sourcesFor } from './nuget';
+export { configureOutput, OutputSettings, ReportEvent, RunSummary } from './output';
+export { asmdefStage, assembleStage, buildStage, cleanStage, needsBuild, packStage, verifyStage } from './pipeline';
+export { createPlan, PackagePlan, planClean, PlannedFile, showPlan } from './plan';
+export { profileAssemblies, verifyReferences } from './references';
+export { createSamples, findSample, Sample, verifySampleReferences } from './samples';
+export { commonFolder, matchesPattern, selectEntries, targetPath } from './unpack';
+export { mapUpmPackages, parseUpmReference, UpmPackage, upmMapping, upmPackages } from './upm';
+export { watchPackage, WatchCycle, WatchOptions, WatchStage } from './watch';
@@ -1,125 +1,219 @@
 import { tmpdir } from 'node:os';
 import { dirname, resolve } from 'node:path';
-import { packageFolder, solutionFile } from './cli';
 import { barename } from './filesystem';
-import { exit } from './output';
 
 /**
- * The current working directory where the script is being executed.
- */
-export const cwd = process.cwd();
-
-/**
- * Temporary directory for storing intermediate files during the build process.
- * Located in the system's temp directory under 'make-unity-sdk'.
- */
-export const temp = resolve(tmpdir(), './make-unity-sdk/');
-
-/**
- * Directory for storing NuGet packages and related files.
- * Located within the temp directory.
- */
-export const nuget = resolve(temp, './nuget/');
-
-/**
- * The Runtime folder within the Unity package structure.
- * Contains the main runtime assembly and code that will be included in builds.
- */
-export const runtimeFolder = resolve(packageFolder, './Runtime/');
-
-/**
- * The main runtime assembly definition file.
- * Defines the primary assembly for the Unity package.
- */
-export const runtimeAsmDefFile = resolve(runtimeFolder, './Runtime.asmdef');
-
-/**
- * The Internal folder within the Runtime directory.
- * Contains internal assemblies that are not exposed to the public API.
- */
-export const internalAssemblyFolder = resolve(runtimeFolder, './Internal/');
-
-/**
- * The internal assembly definition file.
- * Defines the internal assembly for non-public code.
- */
-export const internalAsmDefFile = resolve(internalAssemblyFolder, './Internal.asmdef');
-
-/**
- * The package.json file path within the Unity package.
- * Contains metadata about the Unity package.
- */
-export const packageJson = resolve(packageFolder, './package.json');
-
-/**
- * The README.md file path within the Unity package.
- * Contains documentation for the package.
- */
-export const readme = resolve(packageFolder, './README.md');
-
-/**
- * The LICENSE file path within the Unity package.
- * Contains the license information for the package.
- */
-export const license = resolve(packageFolder, './LICENSE');
-
-/**
- * The CHANGELOG.md file path within the Unity package.
- * Contains the version history and changes for the package.
- */
-export const changelog = resolve(packageFolder, './CHANGELOG.md');
-
-/**
- * The Editor folder within the Unity package structure.
- * Contains Unity Editor-specific scripts and assets.
- */
-export const editorFolder = resolve(packageFolder, './Editor/');
-
-/**
- * The Tests folder within the Unity package structure.
- * Contains unit tests and test assets for the package.
- */
-export const testFolder = resolve(packageFolder, './Tests/');
-
-/**
- * The Samples folder within the Unity package structure.
- * Contains example projects and sample code (tilde suffix indicates it's not included in package).
- */
-export const sampleFolder = resolve(packageFolder, './Samples~/');
-
-/**
- * The Documentation folder within the Unity package structure.
- * Contains detailed documentation (tilde suffix indicates it's not included in package).
- */
-export const documentationFolder = resolve(packageFolder, './Documentation~/');
-
-/**
- * The Third Party Notices file path within the Unity package.
- * Contains acknowledgments for third-party libraries and dependencies.
- */
-export const notices = resolve(packageFolder, './Third Party Notices.md');
-
-// the build output should be in the <slnFolder>/<barename>/bin/Release/netstandard2.0/
-const slnFolder = dirname(solutionFile);
-const apiName = barename(solutionFile);
-if (!apiName) {
-  exit(`✗ Failed to determine API name: '${solutionFile}'`);
+ * The paths used while creating a Unity package.
+ *
+ * These are computed for each package (see `getLocations`), so that more than
+ * one package can be created in the same process.
+ */
+export interface Locations {
+  /**
+   * Temporary directory for storing intermediate files during the build process.
+   * Located in the system's temp directory under 'make-unity-sdk'.
+   */
+  temp: string;
+
+  /**
+   * Directory for storing NuGet packages and related files.
+   * Located within the temp directory.
+   */
+  nuget: string;
+
+  /**
+   * The output folder where the package contents are laid out.
+   */
+  packageFolder: string;
+
+  /**
+   * The folder where the final .tgz package is created.
+   */
+  packageParentFolder: string;
+
+  /**
+   * The Runtime folder within the Unity package structure.
+   * Contains the main runtime assembly and code that will be included in builds.
+   */
+  runtimeFolder: string;
+
+  /**
+   * The main runtime assembly definition file.
+   * Defines the primary assembly for the Unity package.
+   */
+  runtimeAsmDefFile: string;
+
+  /**
+   * The Internal folder within the Runtime directory.
+   * Contains internal assemblies that are not exposed to the public API.
+   */
+  internalAssemblyFolder: string;
+
+  /**
+   * The internal assembly definition file.
+   * Defines the internal assembly for non-public code.
+   */
+  internalAsmDefFile: string;
+
+  /**
+   * The package.json file path within the Unity package.
+   * Contains metadata about the Unity package.
+   */
+  packageJson: string;
+
+  /**
+   * The README.md file path within the Unity package.
+   * Contains documentation for the package.
+   */
+  readme: string;
+
+  /**
+   * The LICENSE file path within the Unity package.
+   * Contains the license information for the package.
+   */
+  license: string;
+
+  /**
+   * The CHANGELOG.md file path within the Unity package.
+   * Contains the version history and changes for the package.
+   */
+  changelog: string;
+
+  /**
+   * The Editor folder within the Unity package structure.
+   * Contains Unity Editor-specific scripts and assets.
+   */
+  editorFolder: string;
+
+  /**
+   * The editor assembly definition file.
+   * Defines the assembly for the Editor scripts (see `createEditorLayer`).
+   */
+  editorAsmDefFile: string;
+
+  /**
+   * The Tests folder within the Unity package structure.
+   * Contains unit tests and test assets for the package.
+   */
+  testFolder: string;
+
+  /**
+   * The Samples folder within the Unity package structure.
+   * Contains example projects and sample code (tilde suffix indicates it's not included in package).
+   */
+  sampleFolder: string;
+
+  /**
+   * The Documentation folder within the Unity package structure.
+   * Contains detailed documentation (tilde suffix indicates it's not included in package).
+   */
+  documentationFolder: string;
+
+  /**
+   * The Third Party Notices file path within the Unity package.
+   * Contains acknowledgments for third-party libraries and dependencies.
+   */
+  notices: string;
+
+  /**
+   * The dependency lockfile (unity-sdk.lock.json), next to the solution file.
+   * Records the hashes of the bundled NuGet packages (see `lockPackages`).
+   * (empty when there is no solution file)
+   */
+  lockFile: string;
+
+  /**
+   * The GUID registry (unity-sdk.guids.json), next to the solution file.
+   * Records the GUIDs of the assets in the package (see `registerGuids`).
+   * (empty when there is no solution file)
+   */
+  guidRegistry: string;
+
+  /**
+   * The folder of the API project (the folder that contains the project file).
+   * When the project is not known, this is derived from the solution file name.
+   * (empty when there is no solution file)
+   */
+  apiFolder: string;
+
+  /**
+   * The bin folder within the API directory.
+   * Contains the compiled binaries and build artifacts.
+   * (empty when there is no solution file)
+   */
+  apiBinFolder: string;
+
+  /**
+   * The final build output folder for the .NET API.
+   * Contains the Release build targeting .NET Standard 2.0.
+   * (empty when there is no solution file)
+   */
+  buildOutputFolder: string;
 }
 
 /**
- * The API folder path derived from the solution file name.
- * This is where the compiled .NET API will be located.
- */
-export const apiFolder = resolve(slnFolder, apiName);
-
-/**
- * The bin folder within the API directory.
- * Contains the compiled binaries and build artifacts.
- */
-export const apiBinFolder = resolve(apiFolder, 'bin');
-
-/**
- * The final build output folder for the .NET API.
- * Contains the Release build targeting .NET Standard 2.0.
- */
-export const buildOutputFolder = resolve(apiBinFolder, 'Release', 'netstandard2.0');
+ * Computes the locations used to create a Unity package.
+ *
+ * @param solutionFile - The full path to the solution file (commands that work on an existing package folder don't need one)
+ * @param packageFolder - The full path to the output folder for the package contents
+ * @param packageParentFolder - The full path to the folder where the .tgz is created (defaults to the parent of the package folder)
+ * @param projectFile - The full path to the API project file (defaults to `<slnFolder>/<barename>/<barename>.csproj`)
+ * @returns The locations for the package
+ * @throws {Error} If the API name cannot be determined from the solution file
+ *
+ * @example
+ * ```typescript
+ * const locations = getLocations('/src/MyApi.sln', '/work/output');
+ * console.log(locations.runtimeFolder); // '/work/output/Runtime'
+ * ```
+ */
+export function getLocations(solutionFile: string | undefined, packageFolder: string, packageParentFolder = resolve(packageFolder, '..'), projectFile?: string): Locations {
+  const temp = resolve(tmpdir(), './make-unity-sdk/');
+  const runtimeFolder = resolve(packageFolder, './Runtime/');
+  const internalAssemblyFolder = resolve(runtimeFolder, './Internal/');
+
+  // the build output should be in the <projectFolder>/bin/Release/netstandard2.0/
+  // (without a project file, the project folder is <slnFolder>/<barename>/)
+  let apiFolder = '';
+  let apiBinFolder = '';
+  let buildOutputFolder = '';
+  if (projectFile) {
+    apiFolder = dirname(projectFile);
+    apiBinFolder = resolve(apiFolder, 'bin');
+    buildOutputFolder = resolve(apiBinFolder, 'Release', 'netstandard2.0');
+  } else if (solutionFile) {
+    const apiName = barename(solutionFile);
+    if (!apiName) {
+      throw new Error(`✗ Failed to determine API name: '${solutionFile}'`);
+    }
+    apiFolder = resolve(dirname(solutionFile), apiName);
+    apiBinFolder = resolve(apiFolder, 'bin');
+    buildOutputFolder = resolve(apiBinFolder, 'Release', 'netstandard2.0');
+  }
+
+  return {
+    temp,
+    nuget: resolve(temp, './nuget/'),
+    packageFolder,
+    packageParentFolder,
+    runtimeFolder,
+    runtimeAsmDefFile: resolve(runtimeFolder, './Runtime.asmdef'),
+    internalAssemblyFolder,
+    internalAsmDefFile: resolve(internalAssemblyFolder, './Internal.asmdef'),
+    packageJson: resolve(packageFolder, './package.json'),
+    readme: resolve(packageFolder, './README.md'),
+    license: resolve(packageFolder, './LICENSE'),
+    changelog: resolve(packageFolder, './CHANGELOG.md'),
+    editorFolder: resolve(packageFolder, './Editor/'),
+    editorAsmDefFile: resolve(packageFolder, './Editor/Editor.asmdef'),
+    testFolder: resolve(packageFolder, './Tests/'),
+    sampleFolder: resolve(packageFolder, './Samples~/'),
+    documentationFolder: resolve(packageFolder, './Documentation~/'),
+    notices: resolve(packageFolder, './Third Party Notices.md'),
+    lockFile: solutionFile ? resolve(dirname(solutionFile), 'unity-sdk.lock.json') : '',
+    guidRegistry: solutionFile ? resolve(dirname(solutionFile), 'unity-sdk.guids.json') : '',
+    apiFolder,
+    apiBinFolder,
+    buildOutputFolder,
+  };
+}
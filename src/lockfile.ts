@@ -0,0 +1,292 @@
+import AdmZip from 'adm-zip';
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, relative, resolve, sep } from 'node:path';
+import { cyan } from './ansi';
+import { assetVersion } from './assets';
+import { PackageContext } from './context';
+import { fileExists, hashFile, writeTextFile } from './filesystem';
+import { globalPackagesFolder, LocatedPackage } from './nuget';
+import { check, error, info, verbose } from './output';
+import { targetPath } from './unpack';
+
+/**
+ * A bundled NuGet package, as recorded in the lockfile.
+ */
+export interface LockedPackage {
+  /** the package version */
+  version: string;
+
+  /** where the package came from (the package source URL, a local folder, or `global-packages` for the global packages folder) */
+  source: string;
+
+  /** the SHA-512 hash of the .nupkg (base64; the same as the `contentHash` in NuGet's .nupkg.metadata) */
+  sha512: string;
+
+  /** the SHA-512 hash (base64) of each extracted file, by its path in the package */
+  files: Record<string, string>;
+}
+
+/**
+ * The contents of the lockfile (unity-sdk.lock.json).
+ */
+export interface LockFile {
+  /** the version of the lockfile format */
+  version: 1;
+
+  /** the bundled NuGet packages (by package id) for each Unity package (by name) */
+  packages: Record<string, Record<string, LockedPackage>>;
+}
+
+/**
+ * A bundled package, and the files that were extracted from it.
+ */
+export interface ExtractedPackage {
+  /** the package */
+  pkg: LocatedPackage;
+
+  /** the files that were extracted (paths inside the package) */
+  files: string[];
+
+  /** the folder in the package that the subfolders are kept relative to (undefined when the files are put directly in Runtime/Internal/) */
+  folder?: string;
+}
+
+/**
+ * Reads the lockfile.
+ *
+ * @param lockFile - The full path to the lockfile
+ * @returns A Promise that resolves to the lockfile, or undefined if it doesn't exist
+ * @throws {Error} If the lockfile cannot be read or parsed
+ */
+export async function readLockFile(lockFile: string): Promise<LockFile | undefined> {
+  if (!await fileExists(lockFile)) {
+    return undefined;
+  }
+  try {
+    const json = JSON.parse(await readFile(lockFile, 'utf8'));
+    if (json.version !== 1 || typeof json.packages !== 'object') {
+      throw new Error('unsupported format');
+    }
+    return json;
+  } catch (err) {
+    throw new Error(`Failed to read the lockfile '${lockFile}': ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Returns the hash of a buffer (SHA-512, base64).
+ */
+function sha512(data: Buffer) {
+  return createHash('sha512').update(data).digest('base64');
+}
+
+/**
+ * Computes the hash of a package, the way NuGet does (SHA-512 of the .nupkg, base64).
+ *
+ * For an extracted package folder, the hash that NuGet recorded when it extracted the
+ * package is used (the `contentHash` in `.nupkg.metadata`, or the `<id>.<version>.nupkg.sha512` file).
+ *
+ * @param pkg - The package
+ * @returns A Promise that resolves to the hash, or undefined if it isn't known (an extracted folder without the hash files)
+ */
+export async function packageHash(pkg: LocatedPackage) {
+  if (pkg.source !== 'folder') {
+    return hashFile(pkg.path, 'sha512', 'base64');
+  }
+
+  const metadata = resolve(pkg.path, '.nupkg.metadata');
+  if (await fileExists(metadata)) {
+    return JSON.parse(await readFile(metadata, 'utf8')).contentHash as string | undefined;
+  }
+  const hashFileName = resolve(pkg.path, `${pkg.name.toLowerCase()}.${assetVersion(pkg).toLowerCase()}.nupkg.sha512`);
+  return await fileExists(hashFileName) ? (await readFile(hashFileName, 'utf8')).trim() : undefined;
+}
+
+/**
+ * Computes the hashes of the files in a package.
+ *
+ * @param pkg - The package
+ * @param files - The paths of the files inside the package
+ * @returns A Promise that resolves to the hash of each file (SHA-512, base64), by path
+ */
+async function fileHashes(pkg: LocatedPackage, files: string[]) {
+  const result: Record<string, string> = {};
+  if (pkg.source === 'folder') {
+    for (const file of files) {
+      result[file] = await hashFile(resolve(pkg.path, file), 'sha512', 'base64');
+    }
+    return result;
+  }
+
+  const zip = new AdmZip(pkg.path);
+  for (const entry of zip.getEntries()) {
+    const path = entry.entryName.replace(/\\/g, '/');
+    if (files.includes(path)) {
+      result[path] = sha512(entry.getData());
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns how a package source is recorded in the lockfile (so that it doesn't depend on the machine).
+ *
+ * @param lockFile - The full path to the lockfile
+ * @param from - The package source URL, or the local folder
+ */
+function describeSource(lockFile: string, from: string) {
+  if (/^https?:\/\//i.test(from)) {
+    return from;
+  }
+  const global = relative(globalPackagesFolder(), from);
+  if (!global.startsWith('..') && !global.startsWith(sep)) {
+    return 'global-packages';
+  }
+  return relative(dirname(lockFile), from).split(sep).join('/') || '.';
+}
+
+/**
+ * Records the bundled NuGet packages in the lockfile, and verifies them against it.
+ *
+ * The lockfile (`unity-sdk.lock.json`, next to the solution file) records the version,
+ * source and SHA-512 hash of each package, and the hashes of the files extracted from
+ * it. The hashes are checked:
+ *
+ * - against the hash that `dotnet restore` recorded in project.assets.json (when known)
+ * - against the lockfile, for packages with the same version (a package with a different
+ *   version is a dependency update, and replaces the entry)
+ * - the files that are already in Runtime/Internal/ (from earlier runs) against the files in the packages
+ *
+ * With the `locked` option, the lockfile must exist and list exactly the packages that
+ * are bundled (and exactly the files that are extracted from each one, which depend on
+ * ie, the `apiCompatibility` and `includeDocs` options), and it is never written. With
+ * the `updateLock` option, the entries are replaced, whatever they were. Otherwise, the
+ * lockfile is created or updated for the packages that changed.
+ *
+ * This runs before anything is written to the package folder, so that a package that doesn't
+ * match never gets there.
+ *
+ * @param context - The package context (the package metadata must be initialized)
+ * @param extracted - The bundled packages, and the files selected from each one (before the documentation, symbols and conflicting assemblies are left out)
+ * @returns A Promise that resolves when the lockfile has been checked (and written)
+ * @throws {Error} If any package or file does not match, or the lockfile is missing or out of date (with `locked`)
+ *
+ * @example
+ * ```typescript
+ * await lockPackages(context, [{ pkg, files: ['lib/netstandard2.0/Newtonsoft.Json.dll'] }]);
+ * ```
+ */
+export async function lockPackages(context: PackageContext, extracted: ExtractedPackage[]) {
+  const { options, packageMetadata, locations: { lockFile, internalAssemblyFolder } } = context;
+  if (!lockFile) {
+    return;
+  }
+  if (options.locked && options.updateLock) {
+    throw new Error('--locked and --update-lock cannot be used together');
+  }
+
+  const name = basename(lockFile);
+  const existing = await readLockFile(lockFile);
+  if (options.locked && !existing) {
+    throw new Error(`The lockfile '${lockFile}' does not exist (run without --locked to create it)`);
+  }
+
+  const lock: LockFile = existing ?? { version: 1, packages: {} };
+  const previous = lock.packages[packageMetadata.name] ?? {};
+  const current: Record<string, LockedPackage> = {};
+  const problems = new Array<string>();
+  const targets = new Map<string, Array<{ pkg: string, hash: string }>>();
+
+  for (const { pkg, files, folder } of extracted) {
+    const version = assetVersion(pkg);
+    const hash = await packageHash(pkg) ?? '';
+    const entry: LockedPackage = {
+      version,
+      source: pkg.from ? describeSource(lockFile, pkg.from) : previous[pkg.name]?.source ?? 'cache',
+      sha512: hash,
+      files: await fileHashes(pkg, files),
+    };
+    current[pkg.name] = entry;
+
+    if (!hash) {
+      problems.push(`${pkg.name} ${version}: the hash of the package is not known ('${pkg.path}' has no .nupkg.metadata)`);
+    } else if (pkg.sha512 && pkg.sha512 !== hash) {
+      problems.push(`${pkg.name} ${version}: the package hash does not match project.assets.json ('${pkg.path}')`);
+    }
+
+    const locked = previous[pkg.name];
+    if (options.locked && locked?.version !== version) {
+      problems.push(`${pkg.name} ${version}: ${locked ? `the lockfile has version ${locked.version}` : `not in ${name}`}`);
+    } else if (locked && locked.version === version && !options.updateLock) {
+      if (locked.sha512 !== hash) {
+        problems.push(`${pkg.name} ${version}: the package hash does not match ${name} ('${pkg.path}')`);
+      }
+      for (const [file, fileHash] of Object.entries(entry.files)) {
+        if (locked.files[file] === undefined) {
+          // (a file that isn't recorded is only added to the lockfile when it can be written)
+          if (options.locked) {
+            problems.push(`${pkg.name} ${version}: '${file}' is extracted, but not in ${name}`);
+          }
+        } else if (locked.files[file] !== fileHash) {
+          problems.push(`${pkg.name} ${version}: '${file}' does not match ${name}`);
+        }
+      }
+      if (options.locked) {
+        for (const file of Object.keys(locked.files).filter(each => entry.files[each] === undefined)) {
+          problems.push(`${pkg.name} ${version}: '${file}' is in ${name}, but no longer extracted`);
+        }
+      }
+    }
+
+    for (const [file, fileHash] of Object.entries(entry.files)) {
+      const target = resolve(internalAssemblyFolder, targetPath(file, folder));
+      targets.set(target, [...targets.get(target) ?? [], { pkg: `${pkg.name} ${version}`, hash: fileHash }]);
+    }
+  }
+
+  // the files in Runtime/Internal/ are left alone when they exist, so check that they are ones in the packages
+  // (this runs before the conflicts are resolved, so another package may have the file that is kept)
+  for (const [target, sources] of targets) {
+    if (await fileExists(target)) {
+      const hash = await hashFile(target, 'sha512', 'base64');
+      if (!sources.some(each => each.hash === hash)) {
+        problems.push(`${sources[0].pkg}: '${target}' is not the file in the package (use --clean)`);
+      }
+    }
+  }
+
+  if (options.locked) {
+    for (const id of Object.keys(previous).filter(each => !current[each])) {
+      problems.push(`${id} ${previous[id].version}: in ${name}, but no longer bundled`);
+    }
+  }
+
+  if (problems.length) {
+    for (const problem of problems) {
+      error(`  ${problem}`);
+    }
+    throw new Error(`${problems.length} bundled package problem(s) found${options.locked || options.updateLock ? '' : ' (if the changes are expected, run with --update-lock)'}`);
+  }
+
+  if (options.locked) {
+    info(`  ${check} All ${extracted.length} NuGet package(s) match '${cyan(lockFile)}'`);
+    return;
+  }
+
+  lock.packages[packageMetadata.name] = current;
+  await writeTextFile(lockFile, `${JSON.stringify(sortLockFile(lock), null, 2)}\n`);
+  verbose(`  ${check} Checked ${extracted.length} NuGet package(s) against '${cyan(lockFile)}'`);
+}
+
+/**
+ * Sorts the entries in the lockfile, so that it only changes when the packages do.
+ */
+function sortLockFile(lock: LockFile): LockFile {
+  const sorted = <T>(record: Record<string, T>) => Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+  return {
+    version: lock.version,
+    packages: sorted(Object.fromEntries(Object.entries(lock.packages).map(([name, packages]) =>
+      [name, sorted(Object.fromEntries(Object.entries(packages).map(([id, entry]) => [id, { ...entry, files: sorted(entry.files) }])))]))),
+  };
+}
@@ -0,0 +1,211 @@
+import { createHash } from 'node:crypto';
+import { basename, extname } from 'node:path';
+import { matchesPattern } from './unpack';
+
+/**
+ * The importer that Unity uses for an asset, which decides the settings block in its .meta file.
+ *
+ * - `folder` - a folder (`DefaultImporter`, with `folderAsset: yes`)
+ * - `plugin` - a .dll (`PluginImporter`, see `PluginSettings`)
+ * - `text` - a text asset, like .txt, .md or .json (`TextScriptImporter`)
+ * - `manifest` - the package.json (`PackageManifestImporter`)
+ * - `asmdef` - an assembly definition (`AssemblyDefinitionImporter`)
+ * - `asmref` - an assembly definition reference (`AssemblyDefinitionReferenceImporter`)
+ * - `script` - a C# script (`MonoImporter`)
+ * - `none` - anything else (no settings block, so Unity uses the importer's defaults)
+ */
+export type ImporterKind = 'folder' | 'plugin' | 'text' | 'manifest' | 'asmdef' | 'asmref' | 'script' | 'none';
+
+/**
+ * The PluginImporter settings of a .dll (the `plugins` option, keyed by glob pattern).
+ */
+export interface PluginSettings {
+  /** only reference the assembly from assembly definitions that list it in `precompiledReferences` (default: false) */
+  isExplicitlyReferenced?: boolean;
+
+  /** check that the assembly's references can be resolved (default: true) */
+  validateReferences?: boolean;
+
+  /** load the assembly at startup (default: false) */
+  isPreloaded?: boolean;
+
+  /** only use the assembly when all of these scripting symbols are defined */
+  defineConstraints?: string[];
+
+  /** the only platforms to use the assembly on (see `pluginPlatforms`) */
+  includePlatforms?: string[];
+
+  /** the platforms not to use the assembly on (see `pluginPlatforms`; ignored with `includePlatforms`) */
+  excludePlatforms?: string[];
+}
+
+/**
+ * The platforms that plugin settings can name, with the key and settings that Unity writes for each one.
+ */
+export const pluginPlatforms: Record<string, { key: string; settings: Record<string, string> }> = {
+  Editor: { key: 'Editor: Editor', settings: { CPU: 'AnyCPU', DefaultValueInitialized: 'true', OS: 'AnyOS' } },
+  Android: { key: 'Android: Android', settings: { CPU: 'ARMv7' } },
+  iOS: { key: 'iPhone: iOS', settings: { AddToEmbeddedBinaries: 'false', CPU: 'AnyCPU' } },
+  WebGL: { key: 'WebGL: WebGL', settings: {} },
+  Win: { key: 'Standalone: Win', settings: { CPU: 'x86' } },
+  Win64: { key: 'Standalone: Win64', settings: { CPU: 'x86_64' } },
+  OSXUniversal: { key: 'Standalone: OSXUniversal', settings: { CPU: 'AnyCPU' } },
+  Linux64: { key: 'Standalone: Linux64', settings: { CPU: 'x86_64' } },
+};
+
+/**
+ * The extensions of the files that Unity imports as text assets.
+ */
+const textExtensions = ['.txt', '.md', '.json', '.xml', '.html', '.htm', '.csv', '.yaml', '.yml', '.bytes'];
+
+/**
+ * Returns the GUID that is generated for an asset (the MD5 hash of its path in the package).
+ *
+ * @param relativePath - The path of the asset, relative to the package folder
+ * @returns The GUID (32 hex digits)
+ */
+export function metaGuid(relativePath: string) {
+  return createHash('md5').update(relativePath).digest('hex');
+}
+
+/**
+ * Works out the importer that Unity uses for an asset.
+ *
+ * @param relativePath - The path of the asset, relative to the package folder
+ * @param directory - Whether the asset is a folder
+ * @returns The importer
+ *
+ * @example
+ * ```typescript
+ * importerKind('Runtime/Internal/System.Memory.dll', false); // 'plugin'
+ * importerKind('Runtime', true); // 'folder'
+ * ```
+ */
+export function importerKind(relativePath: string, directory: boolean): ImporterKind {
+  if (directory) {
+    return 'folder';
+  }
+  if (relativePath === 'package.json') {
+    return 'manifest';
+  }
+  const extension = extname(relativePath).toLowerCase();
+  switch (extension) {
+    case '.dll':
+      return 'plugin';
+    case '.asmdef':
+      return 'asmdef';
+    case '.asmref':
+      return 'asmref';
+    case '.cs':
+      return 'script';
+  }
+  // (files without an extension, like LICENSE, are text assets too)
+  return textExtensions.includes(extension) || !extension && !basename(relativePath).startsWith('.') ? 'text' : 'none';
+}
+
+/**
+ * Returns the plugin settings for a .dll: the settings of every pattern in the `plugins` option
+ * that matches its path, merged in order (so later patterns override earlier ones).
+ *
+ * @param relativePath - The path of the .dll, relative to the package folder (using '/' separators)
+ * @param plugins - The `plugins` option (settings keyed by glob pattern)
+ * @returns The settings
+ *
+ * @example
+ * ```typescript
+ * pluginSettings('Runtime/Internal/System.Memory.dll', { 'Runtime/Internal/*.dll': { isExplicitlyReferenced: true } });
+ * // { isExplicitlyReferenced: true }
+ * ```
+ */
+export function pluginSettings(relativePath: string, plugins: Record<string, PluginSettings> = {}): PluginSettings {
+  return Object.entries(plugins)
+    .filter(([pattern]) => matchesPattern(relativePath, pattern))
+    .reduce<PluginSettings>((settings, [, each]) => ({ ...settings, ...each }), {});
+}
+
+/**
+ * Renders the PluginImporter settings block.
+ */
+function pluginImporter(settings: PluginSettings) {
+  const flag = (value: boolean | undefined, fallback: boolean) => (value ?? fallback) ? 1 : 0;
+  const entry = (key: string, enabled: boolean, values: Record<string, string | number>) => [
+    '  - first:',
+    `      ${key}`,
+    '    second:',
+    `      enabled: ${enabled ? 1 : 0}`,
+    ...Object.keys(values).length ? ['      settings:', ...Object.keys(values).sort().map(name => `        ${name}: ${values[name]}`)] : ['      settings: {}'],
+  ];
+
+  const include = settings.includePlatforms;
+  const exclude = include ? [] : settings.excludePlatforms ?? [];
+  const platformData = new Array<string>();
+  if (exclude.length) {
+    // the 'Any Platform' toggle, with the platforms it leaves out
+    platformData.push(...entry(': Any', false, Object.fromEntries(Object.keys(pluginPlatforms).map(name => [`Exclude ${name}`, exclude.includes(name) ? 1 : 0]))));
+  }
+  platformData.push(...entry('Any: ', !include, {}));
+  for (const [name, { key, settings: values }] of Object.entries(pluginPlatforms)) {
+    if (include || exclude.length || name === 'Editor') {
+      platformData.push(...entry(key, include ? include.includes(name) : exclude.length > 0 && !exclude.includes(name), values));
+    }
+  }
+
+  const defines = settings.defineConstraints ?? [];
+  return [
+    'PluginImporter:',
+    '  externalObjects: {}',
+    '  serializedVersion: 2',
+    '  iconMap: {}',
+    '  executionOrder: {}',
+    ...defines.length ? ['  defineConstraints:', ...defines.map(each => `  - ${each}`)] : ['  defineConstraints: []'],
+    `  isPreloaded: ${flag(settings.isPreloaded, false)}`,
+    '  isOverridable: 0',
+    `  isExplicitlyReferenced: ${flag(settings.isExplicitlyReferenced, false)}`,
+    `  validateReferences: ${flag(settings.validateReferences, true)}`,
+    '  platformData:',
+    ...platformData,
+  ];
+}
+
+/**
+ * Renders the contents of a .meta file.
+ *
+ * @param guid - The GUID of the asset
+ * @param kind - The importer (see `importerKind`)
+ * @param settings - The plugin settings (for a .dll)
+ * @returns The contents of the .meta file
+ *
+ * @example
+ * ```typescript
+ * renderMeta(metaGuid('Runtime'), 'folder');
+ * // 'fileFormatVersion: 2\nguid: ...\nfolderAsset: yes\nDefaultImporter:\n  externalObjects: {}\n...'
+ * ```
+ */
+export function renderMeta(guid: string, kind: ImporterKind, settings: PluginSettings = {}) {
+  const lines = ['fileFormatVersion: 2', `guid: ${guid}`];
+  const common = ['  userData: ', '  assetBundleName: ', '  assetBundleVariant: '];
+  switch (kind) {
+    case 'folder':
+      lines.push('folderAsset: yes', 'DefaultImporter:', '  externalObjects: {}', ...common);
+      break;
+    case 'plugin':
+      lines.push(...pluginImporter(settings), ...common);
+      break;
+    case 'text':
+      lines.push('TextScriptImporter:', '  externalObjects: {}', ...common);
+      break;
+    case 'manifest':
+      lines.push('PackageManifestImporter:', '  externalObjects: {}', ...common);
+      break;
+    case 'asmdef':
+      lines.push('AssemblyDefinitionImporter:', '  externalObjects: {}', ...common);
+      break;
+    case 'asmref':
+      lines.push('AssemblyDefinitionReferenceImporter:', '  externalObjects: {}', ...common);
+      break;
+    case 'script':
+      lines.push('MonoImporter:', '  externalObjects: {}', '  serializedVersion: 2', '  defaultReferences: []', '  executionOrder: 0', '  icon: {instanceID: 0}', ...common);
+      break;
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -1,8 +1,7 @@
 import { existsSync, readFileSync } from 'fs';
 import { getSDKProperties } from './build';
-import { clean, metadata, solutionFile } from './cli';
+import { PackageContext, requireSolutionFile } from './context';
 import { barename } from './filesystem';
-import { packageJson } from './locations';
 
 /**
  * Removes undefined properties from an object.
@@ -31,25 +30,28 @@ function trim(obj: Record<string, any>) {
 /**
  * Loads and parses the package.json file or returns default values.
  * 
- * This function attempts to load the package.json file from the specified path.
+ * This function attempts to load the package.json file of the package.
  * If the file doesn't exist or if the --clean flag is set, it returns default
  * metadata values with placeholder strings that can be replaced later.
  * 
- * @param packageJsonPath - The path to the package.json file to load
+ * @param context - The package context
  * @returns An object containing package metadata, either from the file or default values
  * 
  * @example
  * ```typescript
- * const metadata = loadPackageJson('./package.json');
+ * const metadata = loadPackageJson(context);
  * console.log(metadata.name); // Either from file or default
  * ```
  */
-function loadPackageJson(packageJsonPath: string) {
-  if (!existsSync(packageJsonPath) || clean) {
+function loadPackageJson(context: PackageContext) {
+  const { options, project, locations: { packageJson } } = context;
+  if (!existsSync(packageJson) || options.clean) {
+    // the defaults are named after the project (or the solution, when the project isn't known)
+    const baseName = barename(project?.csprojFile ?? requireSolutionFile(context));
     // default values before command line arguments are processed
     return {
-      name: `com.${metadata.company || "${company}"}.${barename(solutionFile)}`.toLowerCase(),
-      displayName: barename(solutionFile),
+      name: `com.${options.company || "${company}"}.${baseName}`.toLowerCase(),
+      displayName: baseName,
       version: "0.0.1",
       description: "${description}",
       author: "${author}",
@@ -59,78 +61,80 @@ function loadPackageJson(packageJsonPath: string) {
       unity: "6000.0",
     };
   }
-  return JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+  return JSON.parse(readFileSync(packageJson, 'utf8'));
 }
 
-/**
- * The final package metadata combining file data and command line arguments.
- * 
- * This object represents the complete package metadata after merging the
- * package.json file contents with any command line arguments that override
- * the file values. Undefined values are automatically removed.
- * 
- * The metadata includes standard Unity package fields like name, version,
- * company, displayName, description, author, license, and URLs.
- */
-export let packageMetadata: Record<string, any> = {};
-
 /**
  * Initializes and populates the package metadata by merging multiple sources.
  * 
  * This function orchestrates the creation of the final package metadata by:
  * 1. Extracting SDK properties from the .NET solution (version, project info)
  * 2. Loading existing package.json file (if it exists and --clean is not set)
- * 3. Merging command line arguments that override file values
+ * 3. Merging the options (config file, environment, command line) that override file values
  * 4. Applying default values for missing fields
  * 5. Cleaning up undefined properties
  * 
  * The function prioritizes values in this order:
- * 1. Command line arguments (highest priority)
+ * 1. Options from the command line, environment or config file (highest priority)
  * 2. SDK properties from .csproj file (for version)
  * 3. Existing package.json file values
  * 4. Default placeholder values (lowest priority)
  * 
- * @returns A Promise that resolves when the package metadata has been initialized
+ * The result is stored in `context.packageMetadata`.
+ * 
+ * @param context - The package context
+ * @returns A Promise that resolves to the package metadata
  * @throws {Error} If the SDK properties cannot be extracted from the solution file
  * 
  * @example
  * ```typescript
  * try {
- *   await initPackageMetadata();
- *   console.log('Package name:', packageMetadata.name);
- *   console.log('Version:', packageMetadata.version);
- *   console.log('Company:', packageMetadata.company);
+ *   const metadata = await initPackageMetadata(context);
+ *   console.log('Package name:', metadata.name);
+ *   console.log('Version:', metadata.version);
+ *   console.log('Company:', metadata.company);
  * } catch (error) {
  *   console.error('Failed to initialize package metadata:', error.message);
  * }
  * ```
  */
-export async function initPackageMetadata() {
-  // Extract SDK properties from the .NET solution file
+export async function initPackageMetadata(context: PackageContext) {
+  const { options } = context;
+
+  // Extract SDK properties from the .NET solution file (unless the project has already been found)
   // This provides version information and validates the solution structure
-  const sdkProperties = await getSDKProperties(solutionFile);
+  const sdkProperties = context.project ?? await getSDKProperties(requireSolutionFile(context), options.project);
 
   // Merge all metadata sources with proper precedence
-  packageMetadata = trim({
+  context.packageMetadata = trim({
     // Start with existing package.json file (if it exists and --clean is not set)
-    ...loadPackageJson(packageJson),
+    ...loadPackageJson(context),
 
-    // Override with command line arguments and SDK properties
+    // Override with the merged options and SDK properties
     ...trim({
-      name: metadata.name,
+      name: options.name,
       // the version will be always overridden with the command line or what is in the SDK .csproj file.
-      version: metadata.version || sdkProperties.version,
+      version: options.version || sdkProperties.version,
 
-      company: metadata.company,
-      displayName: metadata.displayName,
-      description: metadata.description,
+      company: options.company,
+      displayName: options.displayName,
+      description: options.description,
 
-      author: metadata.author,
-      license: metadata.license,
-      changelogUrl: metadata.changelogUrl,
-      documentationUrl: metadata.documentationUrl,
+      author: options.author,
+      license: options.license,
+      changelogUrl: options.changelogUrl,
+      documentationUrl: options.documentationUrl,
     })
   });
+
+  // packages created from other projects in the solution (and the UPM packages that provide NuGet packages) are UPM dependencies
+  if (context.packageReferences.length) {
+    context.packageMetadata.dependencies = {
+      ...context.packageMetadata.dependencies,
+      ...Object.fromEntries(context.packageReferences.map(({ name, version }) => [name, version]))
+    };
+  }
+  return context.packageMetadata;
 }
 
 
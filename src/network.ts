@@ -1,50 +1,467 @@
 import { createWriteStream } from 'node:fs';
-import { basename } from 'node:path';
+import { rename, rm } from 'node:fs/promises';
 import { pipeline } from 'node:stream/promises';
 import { cyan } from './ansi';
 import { fileExists } from './filesystem';
-import { check, cross, info, verbose } from './output';
+import { check, cross, debug, info, report, stripAnsi, verbose } from './output';
+import { verifyZip } from './unpack';
+
+/**
+ * A NuGet package source.
+ */
+export interface NuGetFeed {
+  /** the name of the source (the key in nuget.config) */
+  name: string;
+
+  /** the URL of the v3 service index (`.../index.json`), a v2 feed URL, or a local folder */
+  url: string;
+
+  /** the user name (from packageSourceCredentials) */
+  username?: string;
+
+  /** the password or token (from packageSourceCredentials) */
+  password?: string;
+}
+
+/**
+ * The resources of a NuGet v3 feed that are used.
+ */
+export interface ServiceIndex {
+  /** the base URL of the flat container (`PackageBaseAddress/3.0.0`) */
+  packageBaseAddress?: string;
+
+  /** the base URL of the package registrations (`RegistrationsBaseUrl`) */
+  registrationsBaseUrl?: string;
+}
+
+/**
+ * A version of a package, from the package registrations of a NuGet v3 feed.
+ */
+export interface RegistrationEntry {
+  /** the package id */
+  id: string;
+
+  /** the package version */
+  version: string;
+
+  /** the URL of the .nupkg */
+  packageContent: string;
+
+  /** the package is listed */
+  listed: boolean;
+
+  /** the authors of the package */
+  authors?: string;
+
+  /** the SPDX license expression */
+  licenseExpression?: string;
+
+  /** the license URL */
+  licenseUrl?: string;
+
+  /** the project URL */
+  projectUrl?: string;
+}
+
+/**
+ * The settings for HTTP requests.
+ */
+export interface NetworkSettings {
+  /** how many times to retry a request that fails with a network error, a timeout or a 408, 429 or 5xx status (default: 3) */
+  retries?: number;
+
+  /** how long each attempt may take, in milliseconds (default: 100000) */
+  timeout?: number;
+
+  /** the delay before the first retry, in milliseconds; it doubles for each retry (default: 1000) */
+  retryDelay?: number;
+}
+
+const settings: Required<NetworkSettings> = { retries: 3, timeout: 100_000, retryDelay: 1000 };
+
+/**
+ * Configures the retries and timeouts for HTTP requests.
+ *
+ * @param values - The settings to change (the others are left as they are)
+ */
+export function configureNetwork(values: NetworkSettings) {
+  for (const [key, value] of Object.entries(values) as Array<[keyof NetworkSettings, number | undefined]>) {
+    if (value !== undefined) {
+      settings[key] = value;
+    }
+  }
+}
+
+/**
+ * Creates the error for a response with an error status (the status is kept, to decide if the request is retried).
+ */
+function statusError(url: string, response: Response) {
+  return Object.assign(new Error(`${response.status} ${response.statusText}`), {
+    status: response.status,
+    retryAfter: Number(response.headers.get('retry-after')) || undefined,
+  });
+}
+
+/**
+ * Checks if a failed request should be retried.
+ *
+ * Network errors, timeouts and incomplete downloads are retried, and so are the
+ * 408 (timeout), 429 (too many requests) and 5xx statuses; other statuses are not.
+ */
+function isRetryable(err: any) {
+  if (typeof err?.status === 'number') {
+    return err.status === 408 || err.status === 429 || err.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Describes why a request failed.
+ */
+function failureReason(err: any) {
+  if (err?.name === 'TimeoutError') {
+    return `timed out after ${settings.timeout / 1000}s`;
+  }
+  // fetch reports network errors as 'fetch failed', with the details in the cause
+  const cause = err?.cause?.code ?? err?.cause?.message;
+  return `${err instanceof Error ? stripAnsi(err.message).trim() : err}${cause ? ` (${cause})` : ''}`;
+}
+
+/**
+ * Runs a request, with a timeout for each attempt, and retries it (with exponential backoff) if it fails.
+ *
+ * @param description - What the request is for (used in the messages)
+ * @param attempt - Makes the request; it is given the signal that aborts it when it times out
+ * @returns A Promise that resolves to the result of the first attempt that succeeds
+ * @throws {Error} If the last attempt fails, or the failure is one that is not retried
+ */
+async function withRetries<T>(description: string, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(AbortSignal.timeout(settings.timeout));
+    } catch (err: any) {
+      const reason = failureReason(err);
+      if (retry >= settings.retries || !isRetryable(err)) {
+        throw new Error(`${description}: ${reason}${retry ? ` (after ${retry + 1} attempts)` : ''}`);
+      }
+      // honor Retry-After (in seconds) when the server asks to slow down; otherwise back off exponentially (with some jitter)
+      const delay = err?.retryAfter ? Math.min(err.retryAfter * 1000, 60_000) : settings.retryDelay * 2 ** retry * (1 + Math.random() / 4);
+      verbose(`  ${cross} ${description}: ${reason}; retrying in ${(delay / 1000).toFixed(1)}s`);
+      await new Promise(done => setTimeout(done, delay));
+    }
+  }
+}
 
 /**
  * Downloads a file from a URL to a local target path.
  * 
- * This function downloads a file using the Fetch API and streams it directly to the
- * target file. It includes built-in checks to avoid re-downloading existing files
- * and provides detailed logging of the download process.
+ * The file is downloaded to a temporary file next to the target, and is only renamed
+ * into place when the response has a success status and the file passes the `validate`
+ * check (ie, `verifyZip`), so an error page or an interrupted transfer never ends up as
+ * the target. Attempts that time out or fail with a network error (or a 408, 429 or 5xx
+ * status) are retried with exponential backoff (see `configureNetwork`). Existing files
+ * are not downloaded again.
  * 
  * @param url - The URL of the file to download
  * @param target - The local file path where the downloaded file should be saved
+ * @param headers - Extra request headers (ie, for authentication)
+ * @param validate - Checks the downloaded file before it is renamed into place (throws if it is not valid)
  * @returns A Promise that resolves when the download is complete
- * @throws {Error} If the download fails, the response has no body, or the file cannot be written
+ * @throws {Error} If the download fails (after the retries), the server responds with an error status, the response has no body, the file is not valid, or the file cannot be written
  * 
  * @example
  * ```typescript
  * try {
- *   await downloadFile('https://example.com/file.zip', './downloads/file.zip');
+ *   await downloadFile('https://example.com/file.zip', './downloads/file.zip', {}, verifyZip);
  *   console.log('Download completed successfully');
  * } catch (error) {
  *   console.error('Download failed:', error.message);
  * }
  * ```
  */
-export async function downloadFile(url: string, target: string): Promise<void> {
-  if (!await fileExists(target)) {
-    const filename = basename(target);
-    // use fetch to download the package and stream it to the target file
-    const response = await fetch(url);
-    if (!response.body) {
-      throw new Error(`  ${cross} No response body for ${cyan(url)}`);
+export async function downloadFile(url: string, target: string, headers: Record<string, string> = {}, validate?: (filePath: string) => Promise<void>): Promise<void> {
+  if (await fileExists(target)) {
+    report({ type: 'download', url, path: target, status: 'skipped' });
+    verbose(`  ${check} Skipped '${cyan(target)}' - file exists`);
+    return;
+  }
+
+  const partial = `${target}.${process.pid}.partial`;
+  await withRetries(`Failed to download ${url}`, async (signal) => {
+    debug(`  GET ${url}`);
+    try {
+      // use fetch to download the file and stream it to the temporary file
+      const response = await fetch(url, { headers, signal });
+      if (!response.ok) {
+        throw statusError(url, response);
+      }
+      if (!response.body) {
+        throw new Error(`No response body for ${url}`);
+      }
+      await pipeline(response.body, createWriteStream(partial), { signal });
+      await validate?.(partial);
+      await rename(partial, target);
+    } finally {
+      await rm(partial, { force: true });
     }
-    const writer = createWriteStream(target);
-    await pipeline(response.body, writer);
-    writer.close();
-
-    if (await fileExists(target)) {
-      info(`  ${check} Downloaded '${cyan(target)}'`);
-      return;
-    } else {
-      throw new Error(`  ${cross} Failed to download ${cyan(filename)}`);
+  });
+
+  report({ type: 'download', url, path: target, status: 'downloaded' });
+  info(`  ${check} Downloaded '${cyan(target)}'`);
+}
+
+/**
+ * Checks if a feed is a remote (http or https) feed, rather than a local folder.
+ *
+ * @param feed - The package source
+ */
+export function isRemoteFeed(feed: NuGetFeed) {
+  return /^https?:\/\//i.test(feed.url);
+}
+
+/**
+ * Checks if a remote feed is a NuGet v3 feed (the URL is the service index).
+ *
+ * @param feed - The package source
+ */
+export function isV3Feed(feed: NuGetFeed) {
+  return isRemoteFeed(feed) && /\.json$/i.test(new URL(feed.url).pathname);
+}
+
+/**
+ * Returns the request headers for a feed (the basic authentication header, when it has credentials).
+ *
+ * The credentials are only sent to the origin of the feed: a URL on another host (ie, a
+ * CDN or a blob store that the feed's `packageContent` points to) gets no headers.
+ *
+ * @param feed - The package source
+ * @param url - The URL of the request (defaults to the feed URL)
+ */
+export function feedHeaders(feed: NuGetFeed, url = feed.url): Record<string, string> {
+  if (feed.username === undefined && feed.password === undefined) {
+    return {};
+  }
+  if (new URL(url).origin !== new URL(feed.url).origin) {
+    return {};
+  }
+  return { authorization: `Basic ${Buffer.from(`${feed.username ?? ''}:${feed.password ?? ''}`).toString('base64')}` };
+}
+
+/**
+ * Gets a JSON document from a feed.
+ *
+ * @param feed - The package source (for the credentials)
+ * @param url - The URL of the document
+ * @returns A Promise that resolves to the document, or undefined if the server responds with 404
+ * @throws {Error} If the server responds with another error status (after the retries)
+ */
+async function fetchJson(feed: NuGetFeed, url: string): Promise<any> {
+  return withRetries(`Failed to get ${url}`, async (signal) => {
+    debug(`  GET ${url}`);
+    const response = await fetch(url, { headers: { accept: 'application/json', ...feedHeaders(feed) }, signal });
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw statusError(url, response);
+    }
+    return response.json();
+  });
+}
+
+const serviceIndexes = new Map<string, Promise<ServiceIndex>>();
+
+/**
+ * Gets the service index of a NuGet v3 feed, and finds the resources that are used.
+ *
+ * The service index is fetched once per URL.
+ *
+ * @param feed - The package source
+ * @returns A Promise that resolves to the base URLs of the flat container and the package registrations
+ * @throws {Error} If the service index cannot be fetched
+ *
+ * @example
+ * ```typescript
+ * const { packageBaseAddress } = await getServiceIndex({ name: 'nuget.org', url: 'https://api.nuget.org/v3/index.json' });
+ * // 'https://api.nuget.org/v3-flatcontainer/'
+ * ```
+ */
+export function getServiceIndex(feed: NuGetFeed) {
+  let result = serviceIndexes.get(feed.url);
+  if (!result) {
+    result = (async () => {
+      const index = await fetchJson(feed, feed.url);
+      if (!index) {
+        throw new Error(`The service index of '${feed.name}' was not found (${feed.url})`);
+      }
+      const resources: Array<{ '@id': string; '@type': string | string[] }> = index.resources ?? [];
+      const find = (...types: string[]) => {
+        for (const type of types) {
+          const resource = resources.find(each => [each['@type']].flat().includes(type));
+          if (resource) {
+            return resource['@id'].endsWith('/') ? resource['@id'] : `${resource['@id']}/`;
+          }
+        }
+        return undefined;
+      };
+      return {
+        packageBaseAddress: find('PackageBaseAddress/3.0.0'),
+        registrationsBaseUrl: find('RegistrationsBaseUrl/3.6.0', 'RegistrationsBaseUrl/3.4.0', 'RegistrationsBaseUrl/3.0.0-rc', 'RegistrationsBaseUrl/3.0.0-beta', 'RegistrationsBaseUrl'),
+      };
+    })();
+    // don't keep failures, so that a later call can try again
+    result.catch(() => serviceIndexes.delete(feed.url));
+    serviceIndexes.set(feed.url, result);
+  }
+  return result;
+}
+
+/**
+ * Normalizes a NuGet version, the way the feeds do.
+ *
+ * Leading zeros are removed, a missing patch number is added, a fourth number of 0 is
+ * removed, and build metadata (`+...`) is removed. The result is in lower case.
+ *
+ * @param version - The version
+ * @returns The normalized version
+ *
+ * @example
+ * ```typescript
+ * normalizeVersion('1.0');           // '1.0.0'
+ * normalizeVersion('01.2.3.0+abc');  // '1.2.3'
+ * normalizeVersion('1.0.0-Preview'); // '1.0.0-preview'
+ * ```
+ */
+export function normalizeVersion(version: string) {
+  const [release, ...prerelease] = version.split('+')[0].split('-');
+  const numbers = release.split('.').map(each => /^\d+$/.test(each) ? `${Number(each)}` : each);
+  while (numbers.length < 3) {
+    numbers.push('0');
+  }
+  if (numbers.length === 4 && numbers[3] === '0') {
+    numbers.pop();
+  }
+  return [numbers.join('.'), ...prerelease].join('-').toLowerCase();
+}
+
+/**
+ * Gets the versions of a package in a NuGet v3 feed (from the flat container).
+ *
+ * @param feed - The package source
+ * @param id - The package id
+ * @returns A Promise that resolves to the versions (normalized), or an empty array if the package isn't in the feed
+ * @throws {Error} If the feed has no flat container, or the request fails
+ */
+export async function getPackageVersions(feed: NuGetFeed, id: string): Promise<string[]> {
+  const { packageBaseAddress } = await getServiceIndex(feed);
+  if (!packageBaseAddress) {
+    throw new Error(`The feed '${feed.name}' has no PackageBaseAddress resource`);
+  }
+  const index = await fetchJson(feed, `${packageBaseAddress}${id.toLowerCase()}/index.json`);
+  return (index?.versions ?? []).map((each: string) => normalizeVersion(each));
+}
+
+/**
+ * Gets the versions of a package from the package registrations of a NuGet v3 feed.
+ *
+ * Registration pages that aren't inlined in the index are fetched.
+ *
+ * @param feed - The package source
+ * @param id - The package id
+ * @returns A Promise that resolves to the versions, or an empty array if the package isn't in the feed
+ * @throws {Error} If the feed has no registrations resource, or a request fails
+ *
+ * @example
+ * ```typescript
+ * const entries = await getRegistration(feed, 'Newtonsoft.Json');
+ * const latest = entries.filter(each => each.listed).pop();
+ * ```
+ */
+export async function getRegistration(feed: NuGetFeed, id: string): Promise<RegistrationEntry[]> {
+  const { registrationsBaseUrl } = await getServiceIndex(feed);
+  if (!registrationsBaseUrl) {
+    throw new Error(`The feed '${feed.name}' has no RegistrationsBaseUrl resource`);
+  }
+  const index = await fetchJson(feed, `${registrationsBaseUrl}${id.toLowerCase()}/index.json`);
+  const result = new Array<RegistrationEntry>();
+  for (const page of index?.items ?? []) {
+    const items = page.items ?? (await fetchJson(feed, page['@id']))?.items ?? [];
+    for (const { catalogEntry: entry, packageContent } of items) {
+      result.push({
+        id: entry.id,
+        version: entry.version,
+        packageContent: packageContent ?? entry.packageContent,
+        listed: entry.listed ?? true,
+        authors: [entry.authors ?? []].flat().join(', ') || undefined,
+        licenseExpression: entry.licenseExpression || undefined,
+        licenseUrl: entry.licenseUrl || undefined,
+        projectUrl: entry.projectUrl || undefined,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the URL to download a package version from, in a remote feed.
+ *
+ * For a v3 feed, the flat container is used (or the package registrations, when the
+ * feed has no flat container). For a v2 feed, the `package/<id>/<version>` URL is used.
+ *
+ * @param feed - The package source
+ * @param id - The package id
+ * @param version - The package version
+ * @returns A Promise that resolves to the URL, or undefined if the feed doesn't have the package version
+ * @throws {Error} If a request to the feed fails
+ */
+export async function findPackageUrl(feed: NuGetFeed, id: string, version: string) {
+  const normalized = normalizeVersion(version);
+  if (!isV3Feed(feed)) {
+    return `${feed.url.replace(/\/+$/, '')}/package/${id}/${version}`;
+  }
+
+  const { packageBaseAddress } = await getServiceIndex(feed);
+  if (packageBaseAddress) {
+    const lowerId = id.toLowerCase();
+    return (await getPackageVersions(feed, id)).includes(normalized) ?
+      `${packageBaseAddress}${lowerId}/${normalized}/${lowerId}.${normalized}.nupkg` :
+      undefined;
+  }
+  return (await getRegistration(feed, id)).find(each => normalizeVersion(each.version) === normalized)?.packageContent;
+}
+
+/**
+ * Downloads a package from the first remote feed that has it.
+ *
+ * The feeds are tried in order; a feed that doesn't have the package (or fails) is
+ * skipped, and the reasons are reported if none of the feeds have it.
+ *
+ * @param feeds - The package sources to try (local folders are ignored)
+ * @param id - The package id
+ * @param version - The package version
+ * @param target - The local file path where the .nupkg should be saved
+ * @returns A Promise that resolves to the feed the package was downloaded from
+ * @throws {Error} If none of the feeds have the package
+ *
+ * @example
+ * ```typescript
+ * const feed = await downloadPackage(feeds, 'Newtonsoft.Json', '13.0.3', './temp/nuget/newtonsoft.json.13.0.3.nupkg');
+ * ```
+ */
+export async function downloadPackage(feeds: NuGetFeed[], id: string, version: string, target: string) {
+  const problems = new Array<string>();
+  for (const feed of feeds.filter(isRemoteFeed)) {
+    try {
+      const url = await findPackageUrl(feed, id, version);
+      if (!url) {
+        problems.push(`${feed.name}: not found`);
+        continue;
+      }
+      await downloadFile(url, target, feedHeaders(feed, url), verifyZip);
+      return feed;
+    } catch (err) {
+      problems.push(`${feed.name}: ${err instanceof Error ? stripAnsi(err.message).trim() : err}`);
     }
   }
-  verbose(`  ${check} Skipped '${cyan(target)}' - file exists`);
-}
\ No newline at end of file
+  throw new Error(`Failed to download ${id} ${version}${problems.length ? `:\n  ${problems.join('\n  ')}` : ' (no package sources)'}`);
+}
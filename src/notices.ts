@@ -0,0 +1,255 @@
+import AdmZip from 'adm-zip';
+import { readdir, readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { cyan } from './ansi';
+import { assetVersion } from './assets';
+import { PackageContext } from './context';
+import { fileExists, writeTextFile } from './filesystem';
+import { LocatedPackage, readPackageFile } from './nuget';
+import { verbose, warn, warning } from './output';
+import { updatePlaceholders } from './packaging';
+import { childElement, parseXml } from './xml';
+
+/**
+ * The folder that contains the license texts (by SPDX id, ie `MIT.txt`) that are embedded in the notices.
+ */
+export const licensesFolder = resolve(__dirname, '..', 'licenses');
+
+/**
+ * The license and attribution information of a bundled NuGet package, from its .nuspec.
+ */
+export interface PackageNotice {
+  /** the package id */
+  id: string;
+
+  /** the package version */
+  version: string;
+
+  /** the package authors */
+  authors?: string;
+
+  /** the copyright statement */
+  copyright?: string;
+
+  /** the project URL */
+  projectUrl?: string;
+
+  /** how the license is given: an SPDX expression, a file in the package, only a URL (deprecated), or not at all */
+  licenseType: 'expression' | 'file' | 'url' | 'none';
+
+  /** the SPDX license expression (ie, `MIT`), or the path of the license file in the package */
+  license?: string;
+
+  /** the license URL (from `<licenseUrl>`) */
+  licenseUrl?: string;
+
+  /** the license texts to embed in the notices */
+  licenseTexts: string[];
+
+  /** why the license needs to be checked by hand (undefined when the license is known) */
+  problem?: string;
+}
+
+/**
+ * Returns the license ids in an SPDX license expression (ie, `MIT OR Apache-2.0` has `MIT` and `Apache-2.0`).
+ *
+ * The operators and the exceptions (`WITH <exception>`) are dropped.
+ */
+function licenseIds(expression: string) {
+  return expression.replace(/\bWITH\s+\S+/gi, ' ').replace(/[()]/g, ' ').split(/\s+/)
+    .filter(each => each && !/^(AND|OR)$/i.test(each))
+    .map(each => each.replace(/\+$/, ''));
+}
+
+/**
+ * Reads the license and attribution information of a package from its .nuspec.
+ *
+ * The license is taken from `<license type="expression">` (the text of each license in
+ * the expression is embedded, from the `licenses/` folder), `<license type="file">` (the
+ * file is embedded), or the deprecated `<licenseUrl>` (which is only trusted when it is a
+ * `https://licenses.nuget.org/<expression>` URL). When the license can't be determined,
+ * or its text isn't available, `problem` says why.
+ *
+ * @param pkg - The package (the .nupkg, or the extracted package folder)
+ * @returns A Promise that resolves to the notice
+ * @throws {Error} If the package has no .nuspec, or it cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const notice = await readPackageNotice(pkg);
+ * // { id: 'Newtonsoft.Json', version: '13.0.3', license: 'MIT', licenseType: 'expression', ... }
+ * ```
+ */
+export async function readPackageNotice(pkg: LocatedPackage): Promise<PackageNotice> {
+  const entries = pkg.source === 'folder' ? await readdir(pkg.path) : new AdmZip(pkg.path).getEntries().map(each => each.entryName);
+  const nuspecName = entries.find(each => !/[\\/]/.test(each) && each.toLowerCase().endsWith('.nuspec'));
+  const nuspec = nuspecName ? await readPackageFile(pkg, nuspecName) : undefined;
+  if (!nuspec) {
+    throw new Error(`Failed to find the .nuspec in '${pkg.path}'`);
+  }
+
+  let metadata;
+  try {
+    metadata = childElement(parseXml(nuspec.toString('utf8')), 'metadata');
+  } catch (err) {
+    throw new Error(`Failed to read the .nuspec in '${pkg.path}': ${err instanceof Error ? err.message : err}`);
+  }
+  const text = (name: string) => childElement(metadata, name)?.text.trim() || undefined;
+
+  const notice: PackageNotice = {
+    id: text('id') ?? pkg.name,
+    version: text('version') ?? assetVersion(pkg),
+    authors: text('authors'),
+    copyright: text('copyright'),
+    projectUrl: text('projectUrl'),
+    licenseType: 'none',
+    licenseUrl: text('licenseUrl'),
+    licenseTexts: [],
+  };
+
+  const license = childElement(metadata, 'license');
+  const nugetLicense = /^https?:\/\/licenses\.nuget\.org\/(.+)$/i.exec(notice.licenseUrl ?? '');
+  if (license?.attributes.type === 'file') {
+    notice.licenseType = 'file';
+    notice.license = license.text.trim();
+    const file = await readPackageFile(pkg, notice.license);
+    if (file) {
+      notice.licenseTexts.push(file.toString('utf8').replace(/\r\n/g, '\n').trim());
+    } else {
+      notice.problem = `the license file '${notice.license}' is not in the package`;
+    }
+  } else if (license?.attributes.type === 'expression' || nugetLicense) {
+    notice.licenseType = 'expression';
+    notice.license = license ? license.text.trim() : decodeURIComponent(nugetLicense![1]);
+    const missing = new Array<string>();
+    for (const id of licenseIds(notice.license)) {
+      const licenseFile = resolve(licensesFolder, `${id}.txt`);
+      if (!await fileExists(licenseFile)) {
+        missing.push(id);
+        continue;
+      }
+      // (a function, so that `$&` or `$$` in the copyright are not replacement patterns)
+      const template = (await readFile(licenseFile, 'utf8')).replace(/\r\n/g, '\n');
+      notice.licenseTexts.push((notice.copyright ? template.replace('${copyright}', () => notice.copyright!) : template.replace(/\$\{copyright\}\n*/, '')).trim());
+    }
+    if (missing.length) {
+      notice.problem = `the text of ${missing.join(', ')} is not included (see https://licenses.nuget.org/${encodeURIComponent(notice.license)})`;
+    }
+  } else if (notice.licenseUrl) {
+    notice.licenseType = 'url';
+    notice.problem = `the license is only given as a URL (${notice.licenseUrl})`;
+  } else {
+    notice.problem = 'the package has no license information';
+  }
+  return notice;
+}
+
+/**
+ * Returns a fenced code block, with a fence that doesn't appear in the text.
+ */
+function codeBlock(text: string) {
+  const longest = Math.max(2, ...[...text.matchAll(/`+/g)].map(([each]) => each.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}\n${text}\n${fence}`;
+}
+
+/**
+ * Renders the notice of a package as a Markdown section.
+ *
+ * @param notice - The notice
+ * @returns The Markdown text
+ */
+export function renderNotice(notice: PackageNotice) {
+  const lines = [`## ${notice.id}`, ''];
+  const fields: Array<[string, string | undefined]> = [
+    ['Version', notice.version],
+    ['Authors', notice.authors],
+    ['Project', notice.projectUrl],
+    ['License', notice.licenseType === 'expression' ? notice.license :
+      notice.licenseType === 'file' ? `See below (\`${notice.license}\` in the package)` :
+        notice.licenseType === 'url' ? `Unknown (see ${notice.licenseUrl})` : 'Unknown'],
+  ];
+  lines.push(fields.filter(([, value]) => value).map(([name, value]) => `**${name}:** ${value}`).join('  \n'));
+
+  if (notice.problem) {
+    lines.push('', `> **Note:** The license of this package needs to be checked: ${notice.problem}.`);
+  }
+  if (notice.copyright && notice.licenseType !== 'expression') {
+    lines.push('', notice.copyright);
+  }
+  for (const text of notice.licenseTexts) {
+    lines.push('', codeBlock(text));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * The header of the notices file, when the `noticesHeader` option isn't set.
+ */
+const defaultHeader = `# Third Party Notices
+
+This file contains third-party software notices and license information for NuGet packages redistributed with this Unity SDK.
+`;
+
+/**
+ * Creates the Third Party Notices file in the package, from the metadata of the bundled NuGet packages.
+ *
+ * Each package's .nuspec is read (see `readPackageNotice`) and the license text is
+ * embedded. Packages whose license can't be determined are flagged, both in the file and
+ * with a warning. The header (by default, a title and a short introduction) and the footer
+ * (by default, none) can be replaced with Markdown templates (the `noticesHeader` and
+ * `noticesFooter` options), which may use placeholders.
+ *
+ * The licenses that are found are also recorded on the assets (`context.assets`), so that
+ * the run summary reports them.
+ *
+ * @param context - The package context
+ * @param packages - The bundled packages
+ * @param data - The placeholder values for the header and footer (earlier objects take precedence)
+ * @returns A Promise that resolves to the notices
+ * @throws {Error} If a package cannot be read, or a template does not exist
+ *
+ * @example
+ * ```typescript
+ * await createNotices(context, packages, ...placeholderValues(context));
+ * ```
+ */
+export async function createNotices(context: PackageContext, packages: LocatedPackage[], ...data: Record<string, unknown>[]) {
+  const { options, locations: { notices } } = context;
+
+  const template = async (path: string | undefined, fallback: string) => {
+    if (!path) {
+      return fallback;
+    }
+    if (!await fileExists(path)) {
+      throw new Error(`The notices template '${path}' does not exist`);
+    }
+    return updatePlaceholders((await readFile(path, 'utf8')).replace(/\r\n/g, '\n'), ...data);
+  };
+
+  const results = new Array<PackageNotice>();
+  for (const pkg of packages) {
+    const notice = await readPackageNotice(pkg);
+    results.push(notice);
+    if (notice.problem) {
+      warn(`${warning} '${cyan(notice.id)}' ${notice.version}: ${notice.problem}; check the license before redistributing it`);
+    } else {
+      verbose(`  ${notice.id} ${notice.version}: ${notice.licenseType === 'expression' ? notice.license : `license file '${notice.license}'`}`);
+    }
+
+    const asset = context.assets?.find(each => each.name.toLowerCase() === pkg.name.toLowerCase());
+    if (asset && !asset.license && notice.licenseType === 'expression') {
+      asset.license = notice.license;
+    }
+  }
+  results.sort((a, b) => a.id.localeCompare(b.id, 'en', { sensitivity: 'base' }));
+
+  const header = await template(options.noticesHeader, defaultHeader);
+  const footer = await template(options.noticesFooter, '');
+  const sections = [header.trimEnd(), ...results.map(each => renderNotice(each).trimEnd())];
+  if (footer.trim()) {
+    sections.push('---', footer.trimEnd());
+  }
+  await writeTextFile(notices, `${sections.join('\n\n')}\n`);
+  return results;
+}
@@ -0,0 +1,484 @@
+import AdmZip from 'adm-zip';
+import { readdir, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, resolve } from 'node:path';
+import { cyan } from './ansi';
+import { Asset, assetVersion } from './assets';
+import { PackageContext } from './context';
+import { copyFile, deleteFile, directoryExists, fileExists } from './filesystem';
+import { configureNetwork, downloadFile, downloadPackage, isRemoteFeed, NuGetFeed } from './network';
+import { check, info, report, stripAnsi, verbose, warn, warning } from './output';
+import { verifyZip } from './unpack';
+import { childElement, childElements, parseXml, XmlElement } from './xml';
+
+/**
+ * Where a NuGet package was found.
+ *
+ * - `cache` - the .nupkg is already in the temp nuget folder
+ * - `global` - the .nupkg is in the global packages folder (`NUGET_PACKAGES` or ~/.nuget/packages)
+ * - `feed` - the .nupkg is in a local folder feed
+ * - `folder` - only the extracted package folder was found (the files are copied from there)
+ * - `download` - the package must be downloaded
+ */
+export type PackageSource = 'cache' | 'global' | 'feed' | 'folder' | 'download';
+
+/**
+ * A NuGet package, and where it comes from.
+ */
+export interface LocatedPackage extends Asset {
+  /** where the package was found */
+  source: PackageSource;
+
+  /** the .nupkg file, or the extracted package folder (when the source is `folder`) */
+  path: string;
+
+  /** where the package came from: the package source URL, or the local folder (set by `acquirePackages`; not known for `cache`) */
+  from?: string;
+}
+
+/**
+ * The package sources from the nuget.config files.
+ */
+export interface NuGetConfig {
+  /** the enabled package sources, in order (with their credentials) */
+  sources: NuGetFeed[];
+
+  /** the package source mapping: the package id patterns for each source (by source name) */
+  mapping: Record<string, string[]>;
+
+  /** the nuget.config files that were read, from the most to the least specific */
+  files: string[];
+}
+
+/**
+ * The package source that is used when the nuget.config files don't define any.
+ */
+export const defaultFeed: NuGetFeed = { name: 'nuget.org', url: 'https://api.nuget.org/v3/index.json' };
+
+/**
+ * Returns the nuget.config files that apply to a folder, the way `dotnet restore` finds them.
+ *
+ * These are the nuget.config files in the folder and each of its parents, and then the
+ * user's NuGet.Config (`%APPDATA%\NuGet\NuGet.Config` on Windows, `~/.nuget/NuGet/NuGet.Config` elsewhere).
+ *
+ * @param folder - The folder to start in (ie, the folder that contains the solution)
+ * @returns A Promise that resolves to the files that exist, from the most to the least specific
+ */
+export async function findNuGetConfigFiles(folder: string) {
+  const result = new Array<string>();
+  for (let current = resolve(folder); ; current = dirname(current)) {
+    for (const name of ['nuget.config', 'NuGet.config', 'NuGet.Config']) {
+      const candidate = resolve(current, name);
+      // on case-insensitive file systems, the names are the same file
+      if (await fileExists(candidate) && !result.some(each => each.toLowerCase() === candidate.toLowerCase())) {
+        result.push(candidate);
+      }
+    }
+    if (dirname(current) === current) {
+      break;
+    }
+  }
+
+  const userConfig = process.platform === 'win32' && process.env.APPDATA ?
+    resolve(process.env.APPDATA, 'NuGet', 'NuGet.Config') :
+    resolve(homedir(), '.nuget', 'NuGet', 'NuGet.Config');
+  if (await fileExists(userConfig) && !result.includes(userConfig)) {
+    result.push(userConfig);
+  }
+  return result;
+}
+
+/**
+ * Replaces the `%NAME%` environment variable references in a nuget.config value.
+ */
+function expandVariables(value: string) {
+  return value.replace(/%([^%]+)%/g, (match, name: string) => process.env[name] ?? match);
+}
+
+/**
+ * Returns the `key`/`value` pairs of the `<add>` elements in a section (stopping at a `<clear />`).
+ */
+function addedValues(section: XmlElement | undefined) {
+  const result = new Array<[string, string]>();
+  for (const each of section?.children ?? []) {
+    if (each.name.toLowerCase() === 'clear') {
+      result.length = 0;
+    } else if (each.name.toLowerCase() === 'add' && each.attributes.key !== undefined) {
+      result.push([each.attributes.key, expandVariables(each.attributes.value ?? '')]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads the package sources, their credentials and the package source mapping from nuget.config files.
+ *
+ * The files are applied from the least to the most specific, the way `dotnet restore`
+ * does: a source in a more specific file replaces the one with the same name, a
+ * `<clear />` removes the sources from the less specific files, and the sources in
+ * `<disabledPackageSources>` are left out. Local folder sources are resolved relative
+ * to the file that defines them. Credentials come from `<packageSourceCredentials>`
+ * (`Username` and `ClearTextPassword`), or from a `NuGetPackageSourceCredentials_<name>`
+ * environment variable (`Username=...;Password=...`). If no sources are defined,
+ * nuget.org is used.
+ *
+ * @param files - The nuget.config files, from the most to the least specific (see `findNuGetConfigFiles`)
+ * @returns A Promise that resolves to the package sources
+ * @throws {Error} If a file cannot be read or parsed
+ *
+ * @example
+ * ```typescript
+ * const { sources } = await readNuGetConfig(await findNuGetConfigFiles('./MyApi'));
+ * ```
+ */
+export async function readNuGetConfig(files: string[]): Promise<NuGetConfig> {
+  let sources = new Map<string, NuGetFeed>();
+  const disabled = new Set<string>();
+  const credentials = new Map<string, { username?: string; password?: string }>();
+  let mapping: Record<string, string[]> = {};
+
+  for (const file of [...files].reverse()) {
+    let root: XmlElement;
+    try {
+      root = parseXml(await readFile(file, 'utf8'));
+    } catch (err) {
+      throw new Error(`Failed to read '${file}': ${err instanceof Error ? err.message : err}`);
+    }
+
+    const packageSources = childElement(root, 'packageSources');
+    if (childElements(packageSources, 'clear').length) {
+      sources = new Map();
+    }
+    for (const [name, url] of addedValues(packageSources)) {
+      sources.delete(name);
+      sources.set(name, { name, url: /^https?:\/\//i.test(url) ? url : resolve(dirname(file), url) });
+    }
+
+    for (const [name, value] of addedValues(childElement(root, 'disabledPackageSources'))) {
+      if (value.toLowerCase() === 'true') {
+        disabled.add(name);
+      } else {
+        disabled.delete(name);
+      }
+    }
+
+    for (const source of childElement(root, 'packageSourceCredentials')?.children ?? []) {
+      // source names with spaces are encoded in element names (ie, 'My_x0020_Feed')
+      const name = source.name.replace(/_x([0-9a-f]{4})_/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+      const values = new Map(addedValues(source).map(([key, value]) => [key.toLowerCase(), value]));
+      if (values.has('password') && !values.has('cleartextpassword')) {
+        warn(`${warning} The password for '${cyan(name)}' in '${cyan(file)}' is encrypted, which is not supported; use ClearTextPassword (with a %VARIABLE%) instead`);
+      }
+      credentials.set(name, { username: values.get('username'), password: values.get('cleartextpassword') });
+    }
+
+    const sourceMapping = childElement(root, 'packageSourceMapping');
+    if (childElements(sourceMapping, 'clear').length) {
+      mapping = {};
+    }
+    for (const source of childElements(sourceMapping, 'packageSource')) {
+      const patterns = childElements(source, 'package').map(each => each.attributes.pattern).filter(each => each);
+      mapping[source.attributes.key] = [...new Set([...(mapping[source.attributes.key] ?? []), ...patterns])];
+    }
+  }
+
+  const result = [...sources.values()].filter(each => !disabled.has(each.name)).map(each => {
+    const fromEnvironment = process.env[`NuGetPackageSourceCredentials_${each.name.replace(/[^A-Za-z0-9_]/g, '_')}`];
+    if (fromEnvironment) {
+      const values = new Map(fromEnvironment.split(';').map(part => part.split('=')).map(([key, ...value]) => [key.trim().toLowerCase(), value.join('=')]));
+      return { ...each, username: values.get('username'), password: values.get('password') };
+    }
+    return { ...each, ...credentials.get(each.name) };
+  });
+
+  return { sources: result.length ? result : [defaultFeed], mapping, files };
+}
+
+/**
+ * Returns the package sources to use for a package, from the package source mapping.
+ *
+ * When there is no mapping, every source is used. Otherwise, the most specific pattern
+ * that matches the package id wins (an exact id, then the longest `prefix*`), and only
+ * the sources with that pattern are used; when no pattern matches, no source is.
+ *
+ * @param config - The package sources
+ * @param id - The package id
+ * @returns The sources to try, in order
+ *
+ * @example
+ * ```typescript
+ * sourcesFor({ sources, mapping: { contoso: ['Contoso.*'], 'nuget.org': ['*'] }, files: [] }, 'Contoso.Api');
+ * // [contoso]
+ * ```
+ */
+export function sourcesFor(config: NuGetConfig, id: string) {
+  if (Object.keys(config.mapping).length === 0) {
+    return config.sources;
+  }
+
+  const lowerId = id.toLowerCase();
+  const specificity = (pattern: string) => {
+    const lower = pattern.toLowerCase();
+    if (lower === lowerId) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    return lower.endsWith('*') && lowerId.startsWith(lower.slice(0, -1)) ? lower.length : -1;
+  };
+
+  const best = Math.max(-1, ...Object.values(config.mapping).flat().map(specificity));
+  if (best < 0) {
+    return [];
+  }
+  return config.sources.filter(each => (config.mapping[each.name] ?? []).some(pattern => specificity(pattern) === best));
+}
+
+/**
+ * Returns the package sources for a package context.
+ *
+ * The nuget.config files are found from the folder that contains the solution (or
+ * the `nugetConfig` option is used, like `dotnet restore --configfile`). The result
+ * is kept in the context.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the package sources
+ * @throws {Error} If a nuget.config file cannot be read or parsed
+ */
+export async function packageSources(context: PackageContext) {
+  if (!context.nugetConfig) {
+    const { nugetConfig } = context.options;
+    const files = nugetConfig ? [resolve(process.cwd(), nugetConfig)] :
+      await findNuGetConfigFiles(context.solutionFile ? dirname(context.solutionFile) : process.cwd());
+    if (nugetConfig && !await fileExists(files[0])) {
+      throw new Error(`NuGet configuration file '${files[0]}' does not exist`);
+    }
+    context.nugetConfig = await readNuGetConfig(files);
+    for (const file of files) {
+      verbose(`  Using NuGet configuration '${cyan(file)}'`);
+    }
+  }
+  return context.nugetConfig;
+}
+
+/**
+ * Returns the global packages folder that `dotnet restore` uses.
+ *
+ * @param env - The environment to read from (defaults to process.env)
+ * @returns The full path to the folder (`NUGET_PACKAGES`, or ~/.nuget/packages)
+ */
+export function globalPackagesFolder(env: Record<string, string | undefined> = process.env) {
+  return resolve(env.NUGET_PACKAGES || resolve(homedir(), '.nuget', 'packages'));
+}
+
+/**
+ * Returns the local folders to look for a package in, in the order they are tried.
+ *
+ * @param context - The package context
+ * @param id - The package id (for the package source mapping)
+ * @returns A Promise that resolves to the global packages folder, the local feeds (from the
+ * `localFeed` option), then the local folder sources in the nuget.config files
+ */
+export async function localSources(context: PackageContext, id: string) {
+  const feeds = ([] as string[]).concat(context.options.localFeed ?? []).map(each => resolve(process.cwd(), each));
+  const configured = sourcesFor(await packageSources(context), id).filter(each => !isRemoteFeed(each)).map(each => each.url);
+  return [
+    { folder: globalPackagesFolder(), source: 'global' as const },
+    ...[...new Set([...feeds, ...configured])].map(folder => ({ folder, source: 'feed' as const })),
+  ];
+}
+
+/**
+ * Looks for a package in a local folder.
+ *
+ * Both layouts that NuGet uses are supported: a flat folder of .nupkg files
+ * (`<id>.<version>.nupkg`), and a hierarchical folder (`<id>/<version>/<id>.<version>.nupkg`,
+ * which is also the layout of the global packages folder). A hierarchical folder
+ * without the .nupkg (just the extracted files) is found too.
+ *
+ * @param folder - The folder to look in
+ * @param name - The package id
+ * @param version - The package version
+ * @returns A Promise that resolves to the .nupkg (or the extracted package folder), or undefined if it isn't there
+ */
+async function findInFolder(folder: string, name: string, version: string) {
+  const ids = [...new Set([name.toLowerCase(), name])];
+  const versions = [...new Set([version.toLowerCase(), version])];
+
+  for (const id of ids) {
+    for (const ver of versions) {
+      for (const nupkg of [resolve(folder, id, ver, `${id}.${ver}.nupkg`), resolve(folder, `${id}.${ver}.nupkg`)]) {
+        if (await fileExists(nupkg)) {
+          return { kind: 'nupkg' as const, path: nupkg };
+        }
+      }
+    }
+  }
+
+  for (const id of ids) {
+    for (const ver of versions) {
+      const extracted = resolve(folder, id, ver);
+      if (await fileExists(resolve(extracted, `${id}.nuspec`)) || await directoryExists(resolve(extracted, 'lib'))) {
+        return { kind: 'folder' as const, path: extracted };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Works out where a package comes from, without changing anything.
+ *
+ * The temp nuget folder is checked first, then the global packages folder, then
+ * the local feeds (in order), then the local folder sources in nuget.config. If the package isn't found, it must be downloaded.
+ *
+ * @param context - The package context
+ * @param asset - The package
+ * @returns A Promise that resolves to the package and where it is
+ *
+ * @example
+ * ```typescript
+ * const { source, path } = await locatePackage(context, asset);
+ * ```
+ */
+export async function locatePackage(context: PackageContext, asset: Asset): Promise<LocatedPackage> {
+  const cached = resolve(context.locations.nuget, asset.filename);
+  // a cached file that is truncated (ie, from an interrupted download) is fetched again
+  if (await fileExists(cached) && await verifyZip(cached, false).then(() => true, () => false)) {
+    return { ...asset, source: 'cache', path: cached };
+  }
+
+  const version = assetVersion(asset);
+  for (const { folder, source } of await localSources(context, asset.name)) {
+    const found = await findInFolder(folder, asset.name, version);
+    if (found) {
+      return { ...asset, source: found.kind === 'folder' ? 'folder' : source, path: found.path };
+    }
+  }
+  return { ...asset, source: 'download', path: cached };
+}
+
+/**
+ * Runs an async function for each item, with at most `limit` running at the same time.
+ *
+ * @param items - The items
+ * @param limit - The most items to process at the same time
+ * @param fn - The function to run for each item
+ * @returns A Promise that resolves to the outcome for each item (in the same order), when they have all finished
+ */
+async function settleLimited<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Gets the packages ready to extract.
+ *
+ * Packages in the global packages folder or a local feed are copied to the temp
+ * nuget folder; extracted package folders are used where they are. The other
+ * packages are downloaded from the package sources (see `packageSources`), unless
+ * the `offline` option is set, in which case this fails with the list of the
+ * packages that are missing.
+ *
+ * At most `downloadConcurrency` packages are fetched at the same time, and each
+ * download is retried and timed out as set by the `downloadRetries` and
+ * `downloadTimeout` options. When packages fail, the others are still fetched, and
+ * the error lists each package that failed, and why.
+ *
+ * @param context - The package context
+ * @param packages - The packages to acquire
+ * @returns A Promise that resolves to the packages, with the path to each .nupkg (or extracted folder)
+ * @throws {Error} If a package is missing in offline mode, or any package could not be fetched
+ *
+ * @example
+ * ```typescript
+ * for (const { path, files } of await acquirePackages(context, await resolveAssets(context))) {
+ *   await unzip(path, files, internalAssemblyFolder);
+ * }
+ * ```
+ */
+export async function acquirePackages(context: PackageContext, packages: Asset[]) {
+  const { options } = context;
+  configureNetwork({ retries: options.downloadRetries ?? 3, timeout: (options.downloadTimeout ?? 100) * 1000 });
+
+  const config = await packageSources(context);
+  const located = await Promise.all(packages.map(each => locatePackage(context, each)));
+
+  const missing = located.filter(each => each.source === 'download');
+  if (options.offline && missing.length) {
+    const sources = [...new Set((await Promise.all(missing.map(each => localSources(context, each.name)))).flat().map(each => each.folder))];
+    throw new Error(`Offline, and ${missing.length} NuGet package(s) were not found:\n  ${missing.map(each => `${each.name} ${assetVersion(each)}`).join('\n  ')}\nLooked in:\n  ${[context.locations.nuget, ...sources].join('\n  ')}`);
+  }
+
+  const results = await settleLimited(located, options.downloadConcurrency ?? 4, async (each): Promise<LocatedPackage> => {
+    const target = resolve(context.locations.nuget, each.filename);
+    if ((each.source === 'global' || each.source === 'feed' || each.source === 'download') && await fileExists(target)) {
+      warn(`${warning} '${cyan(target)}' is incomplete or corrupt; getting it again`);
+      await deleteFile(target);
+    }
+
+    switch (each.source) {
+      case 'cache':
+        verbose(`  ${check} Skipped '${cyan(target)}' - file exists`);
+        report({ type: 'download', url: each.packageUrl ?? each.origin, path: target, status: 'skipped' });
+        return each;
+
+      case 'global':
+      case 'feed':
+        await copyFile(each.path, target);
+        report({ type: 'download', url: each.path, path: target, status: 'local' });
+        return { ...each, path: target, from: dirname(each.path) };
+
+      case 'folder':
+        info(`  ${check} Using the extracted package '${cyan(each.path)}'`);
+        report({ type: 'download', url: each.path, path: each.path, status: 'local' });
+        return { ...each, from: each.path };
+
+      case 'download':
+        if (each.packageUrl) {
+          await downloadFile(each.packageUrl, target, {}, verifyZip);
+          return { ...each, path: target, from: each.packageUrl };
+        }
+        const feed = await downloadPackage(sourcesFor(config, each.name), each.name, assetVersion(each), target);
+        verbose(`  ${check} '${cyan(each.name)}' came from '${cyan(feed.name)}'`);
+        return { ...each, path: target, from: feed.url };
+    }
+  });
+
+  const failures = results.flatMap((each, index) => each.status === 'rejected' ? [`${located[index].name} ${assetVersion(located[index])}: ${each.reason instanceof Error ? stripAnsi(each.reason.message).trim() : each.reason}`] : []);
+  if (failures.length) {
+    throw new Error(`Failed to get ${failures.length} of ${located.length} NuGet package(s):\n  ${failures.map(each => each.replace(/\n/g, '\n    ')).join('\n  ')}`);
+  }
+  return results.map(each => (each as PromiseFulfilledResult<LocatedPackage>).value);
+}
+
+/**
+ * Reads a file from a package (the .nupkg, or the extracted package folder).
+ *
+ * @param pkg - The package
+ * @param path - The path of the file in the package (either separator; ignoring case)
+ * @returns A Promise that resolves to the file contents, or undefined if the package doesn't have the file
+ *
+ * @example
+ * ```typescript
+ * const nuspec = await readPackageFile(pkg, 'Newtonsoft.Json.nuspec');
+ * ```
+ */
+export async function readPackageFile(pkg: LocatedPackage, path: string) {
+  const wanted = path.replace(/\\/g, '/').replace(/^\/+/, '').toLowerCase();
+  if (pkg.source === 'folder') {
+    const name = (await readdir(pkg.path, { recursive: true })).find(each => each.replace(/\\/g, '/').toLowerCase() === wanted);
+    return name ? readFile(resolve(pkg.path, name)) : undefined;
+  }
+  return new AdmZip(pkg.path).getEntries().find(each => each.entryName.replace(/\\/g, '/').toLowerCase() === wanted)?.getData();
+}
@@ -1,5 +1,185 @@
 import { blue, green, red, yellow } from './ansi';
-import { enableDebug, enableQuiet, enableVerbose } from './cli';
+
+/**
+ * The output levels that are enabled.
+ */
+export interface OutputSettings {
+  /** show verbose output (moderate detail) */
+  verbose?: boolean;
+
+  /** show debug output (very detailed) */
+  debug?: boolean;
+
+  /** suppress normal output messages */
+  quiet?: boolean;
+
+  /** emit NDJSON events on stdout instead of the normal output */
+  json?: boolean;
+
+  /** the output format ('text' or 'json'; `json: true` is the same as 'json') */
+  reporter?: string;
+}
+
+/**
+ * An event emitted by the JSON reporter (one JSON object per line on stdout).
+ */
+export type ReportEvent =
+  | { type: 'stage'; stage: string; status: 'started' | 'finished' | 'failed'; duration?: number }
+  | { type: 'file'; action: 'created' | 'updated' | 'skipped' | 'deleted'; path: string }
+  | { type: 'download'; url: string; path: string; status: 'downloaded' | 'local' | 'skipped' }
+  | { type: 'framework'; package: string; version: string; framework?: string; status: 'selected' | 'placeholder' | 'ref-only' | 'incompatible' | 'no-lib' }
+  | { type: 'diagnostic'; level: 'error' | 'warning'; message: string }
+  | ({ type: 'summary' } & RunSummary);
+
+/**
+ * The summary emitted at the end of a run by the JSON reporter.
+ */
+export interface RunSummary {
+  /** the run completed without errors */
+  success: boolean;
+
+  /** the package name */
+  name?: string;
+
+  /** the package version */
+  version?: string;
+
+  /** the full path to the .tgz file */
+  tgz?: string;
+
+  /** the SHA-512 hash of the .tgz file (hex) */
+  sha512?: string;
+
+  /** the NuGet packages bundled in the package */
+  dependencies: Array<{ name: string; version: string; license?: string }>;
+
+  /** the packages that were created (when creating a package for each project) */
+  packages?: Array<{ name: string; version: string; tgz: string; sha512: string }>;
+
+  /** the number of warnings reported */
+  warnings: number;
+
+  /** the number of errors reported */
+  errors: number;
+
+  /** how long each stage took (and the total), in milliseconds */
+  timings: Record<string, number>;
+}
+
+let enableVerbose = false;
+let enableDebug = false;
+let enableQuiet = false;
+let enableSilent = false;
+let enableJson = false;
+
+/**
+ * Sets which output levels are enabled.
+ * 
+ * @param settings - The output levels to enable (missing values are disabled)
+ * 
+ * @example
+ * ```typescript
+ * configureOutput({ verbose: true });
+ * ```
+ */
+export function configureOutput(settings: OutputSettings) {
+  enableVerbose = !!settings.verbose;
+  enableDebug = !!settings.debug;
+  enableQuiet = !!settings.quiet;
+  enableJson = !!settings.json || settings.reporter === 'json';
+  timings = {};
+}
+
+/**
+ * Checks if the JSON reporter is enabled.
+ */
+export function isJsonReporter() {
+  return enableJson;
+}
+
+/**
+ * Removes ANSI escape sequences (colors, etc.) from a string.
+ */
+export function stripAnsi(text: string) {
+  return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * Emits an event when the JSON reporter is enabled (does nothing otherwise).
+ * 
+ * Each event is written to stdout as a single line of JSON, with a timestamp.
+ * 
+ * @param event - The event to emit
+ * 
+ * @example
+ * ```typescript
+ * report({ type: 'file', action: 'created', path: '/work/output/package.json' });
+ * ```
+ */
+export function report(event: ReportEvent) {
+  if (enableJson) {
+    process.stdout.write(`${JSON.stringify({ ...event, timestamp: new Date().toISOString() })}\n`);
+  }
+}
+
+/**
+ * How long each stage took, in milliseconds (reset by `configureOutput`).
+ */
+export let timings: Record<string, number> = {};
+
+/**
+ * Runs a stage of the pipeline, recording how long it took.
+ * 
+ * The JSON reporter emits an event when the stage starts, and when it finishes (or fails).
+ * 
+ * @param name - The name of the stage
+ * @param fn - The function that runs the stage
+ * @returns A Promise that resolves to the result of the function
+ * 
+ * @example
+ * ```typescript
+ * const tgz = await stage('pack', () => packStage(context));
+ * ```
+ */
+export async function stage<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  report({ type: 'stage', stage: name, status: 'started' });
+  try {
+    const result = await fn();
+    timings[name] = (timings[name] ?? 0) + Date.now() - started;
+    report({ type: 'stage', stage: name, status: 'finished', duration: Date.now() - started });
+    return result;
+  } catch (err) {
+    timings[name] = (timings[name] ?? 0) + Date.now() - started;
+    report({ type: 'stage', stage: name, status: 'failed', duration: Date.now() - started });
+    throw err;
+  }
+}
+
+/**
+ * Runs a function with the normal output (info, log, verbose and debug) suppressed.
+ * 
+ * Warnings and errors are still shown. This is used when running the pipeline
+ * against a scratch folder (ie, for --dry-run), where the messages would refer
+ * to the scratch paths.
+ * 
+ * @param fn - The function to run
+ * @returns A Promise that resolves to the result of the function
+ * 
+ * @example
+ * ```typescript
+ * await silently(() => assembleStage(scratchContext));
+ * ```
+ */
+export async function silently<T>(fn: () => Promise<T>): Promise<T> {
+  const previous = enableSilent;
+  enableSilent = true;
+  try {
+    return await fn();
+  } finally {
+    enableSilent = previous;
+  }
+}
 
 /**
  * Global counter for tracking the number of errors encountered during execution.
@@ -7,6 +187,11 @@ import { enableDebug, enableQuiet, enableVerbose } from './cli';
  */
 export let errorCount = 0;
 
+/**
+ * Global counter for tracking the number of warnings reported by the warn() function.
+ */
+export let warningCount = 0;
+
 /**
  * Unicode check mark symbol in green color for success messages.
  */
@@ -27,14 +212,25 @@ export const warning = yellow('⚠');
  */
 export const note = blue('ℹ');
 
+/**
+ * Resets the error and warning counters (ie, before creating another package in the same process).
+ */
+export function resetErrorCount() {
+  errorCount = 0;
+  warningCount = 0;
+}
+
 /**
  * Exits the process with an error message and optional exit code.
  * 
  * This function displays the error message in red and then terminates
  * the process with the specified exit code (defaults to the current error count).
  * 
+ * Only the command line should call this; the pipeline throws errors instead,
+ * so that it can be used from other tools.
+ * 
  * @param message - The error message or Error object to display
- * @param code - The exit code to use (defaults to errorCount)
+ * @param code - The exit code to use (defaults to errorCount, which is at least 1 here)
  * @throws {never} This function never returns as it terminates the process
  * 
  * @example
@@ -44,9 +240,9 @@ export const note = blue('ℹ');
  * }
  * ```
  */
-export function exit(message: string | Error, code: number = errorCount): never {
+export function exit(message: string | Error, code?: number): never {
   error(`\n${red(message.toString())}`);
-  process.exit(code);
+  process.exit(code ?? errorCount);
 }
 
 /**
@@ -65,7 +261,7 @@ export function exit(message: string | Error, code: number = errorCount): never
  * ```
  */
 export function info(message?: any, ...optionalParams: any[]) {
-  if (!enableQuiet) {
+  if (!enableQuiet && !enableSilent && !enableJson) {
     console.log(message, ...optionalParams);
   }
 }
@@ -86,7 +282,9 @@ export function info(message?: any, ...optionalParams: any[]) {
  * ```
  */
 export function log(message?: any, ...optionalParams: any[]) {
-  console.log(message, ...optionalParams);
+  if (!enableSilent && !enableJson) {
+    console.log(message, ...optionalParams);
+  }
 }
 
 /**
@@ -105,7 +303,7 @@ export function log(message?: any, ...optionalParams: any[]) {
  * ```
  */
 export function debug(message?: any, ...optionalParams: any[]) {
-  if (enableDebug) {
+  if (enableDebug && !enableSilent && !enableJson) {
     console.debug(message, ...optionalParams);
   }
 }
@@ -126,7 +324,7 @@ export function debug(message?: any, ...optionalParams: any[]) {
  * ```
  */
 export function verbose(message?: any, ...optionalParams: any[]) {
-  if (enableVerbose) {
+  if (enableVerbose && !enableSilent && !enableJson) {
     console.log(message, ...optionalParams);
   }
 }
@@ -148,6 +346,10 @@ export function verbose(message?: any, ...optionalParams: any[]) {
  */
 export function error(message?: any, ...optionalParams: any[]) {
   errorCount++;
+  if (enableJson) {
+    report({ type: 'diagnostic', level: 'error', message: stripAnsi([message, ...optionalParams].join(' ')).trim() });
+    return;
+  }
   console.error(message, ...optionalParams);
 }
 
@@ -167,5 +369,10 @@ export function error(message?: any, ...optionalParams: any[]) {
  * ```
  */
 export function warn(message?: any, ...optionalParams: any[]) {
+  warningCount++;
+  if (enableJson) {
+    report({ type: 'diagnostic', level: 'warning', message: stripAnsi([message, ...optionalParams].join(' ')).trim() });
+    return;
+  }
   console.warn(message, ...optionalParams);
 }
\ No newline at end of file
@@ -1,14 +1,15 @@
-import { createHash } from 'node:crypto';
 import { readdir, readFile } from 'node:fs/promises';
-import { basename, extname, relative, resolve } from 'node:path';
+import { basename, dirname, extname, relative, resolve, sep } from 'node:path';
 import { bold, cyan, green, red } from './ansi';
-import { internalAsmDefTemplate, runtimeAsmDefTemplate } from './asmdef';
+import { asmDefScript, asmDefScriptMarker, asmDefScriptName, internalAsmDefTemplate, runtimeAsmDefTemplate } from './asmdef';
 import { run } from './automation';
-import { metadata, packageFolder } from './cli';
-import { copyFile, deleteFile, ensureDirectoryExists, exists, fileExists, isTextFile, pathInfo, writeTextFile } from './filesystem';
-import { internalAsmDefFile, runtimeAsmDefFile } from './locations';
-import { packageMetadata } from './metadata';
-import { debug, error, exit, info, note } from './output';
+import { UnityPackageOptions } from './config';
+import { PackageContext } from './context';
+import { copyFile, deleteFile, ensureDirectoryExists, exists, fileChanged, fileExists, isTextFile, pathInfo, writeTextFile } from './filesystem';
+import { AssetGuid, readMetaGuid } from './guids';
+import { importerKind, metaGuid, pluginSettings, PluginSettings, renderMeta } from './meta';
+import { cross, debug, error, info, note, warn, warning } from './output';
+import { flag, optionSchema } from './schema';
 
 /**
  * Creates or updates the package.json file for the Unity package.
@@ -17,14 +18,15 @@ import { debug, error, exit, info, note } from './output';
  * etc.) to the package.json file in JSON format with proper indentation.
  * 
  * @param packageJsonPath - The path where the package.json file should be created
+ * @param packageMetadata - The metadata to write
  * @returns A Promise that resolves when the file is written
  * 
  * @example
  * ```typescript
- * await createPackageJson('./output/package.json');
+ * await createPackageJson('./output/package.json', { name: 'com.mycompany.api', version: '1.0.0' });
  * ```
  */
-export async function createPackageJson(packageJsonPath: string) {
+export async function createPackageJson(packageJsonPath: string, packageMetadata: Record<string, any>) {
   // use the metadata to create/update the package.json file
   await writeTextFile(packageJsonPath, JSON.stringify(packageMetadata, null, 2));
 }
@@ -47,6 +49,7 @@ export async function createPackageJson(packageJsonPath: string) {
 export async function createLicense(license: string) {
   // do not overwrite the license if it exists
   if (await fileExists(license)) {
+    fileChanged('unchanged', license);
     return;
   }
 
@@ -73,6 +76,7 @@ export async function createLicense(license: string) {
 export async function createChangelog(changelog: string) {
   // do not overwrite the changelog if it exists
   if (await fileExists(changelog)) {
+    fileChanged('unchanged', changelog);
     return;
   }
 
@@ -81,6 +85,62 @@ export async function createChangelog(changelog: string) {
     `);
 }
 
+/**
+ * Returns the assembly definition settings that the options control (see `createAsmDefFiles`).
+ *
+ * A setting whose option isn't given gets the value in the template, so that removing an
+ * option also removes the setting from an existing assembly definition.
+ *
+ * @param options - The options
+ * @param template - The template of the assembly definition (for the settings whose options aren't given)
+ * @returns The settings
+ * @throws {Error} If both `includePlatforms` and `excludePlatforms` are given
+ */
+function asmDefSettings(options: UnityPackageOptions, template: typeof runtimeAsmDefTemplate) {
+  const list = (value: string | string[]) => [value].flat();
+  if (options.includePlatforms && options.excludePlatforms) {
+    throw new Error(`Only one of ${flag('includePlatforms')} and ${flag('excludePlatforms')} can be given (an assembly definition has one or the other)`);
+  }
+  return {
+    rootNamespace: options.rootNamespace ?? template.rootNamespace,
+    includePlatforms: options.includePlatforms ? list(options.includePlatforms) : template.includePlatforms,
+    excludePlatforms: options.excludePlatforms ? list(options.excludePlatforms) : template.excludePlatforms,
+    defineConstraints: options.defineConstraints ? list(options.defineConstraints) : template.defineConstraints,
+    versionDefines: options.versionDefines ? Object.entries(options.versionDefines).map(([define, value]) => {
+      const [name, ...expression] = value.split('@');
+      return { name, expression: expression.join('@'), define };
+    }) : template.versionDefines,
+    allowUnsafeCode: options.allowUnsafeCode ?? template.allowUnsafeCode,
+  };
+}
+
+/**
+ * Writes the script next to a generated assembly definition, unless the folder has scripts of its own.
+ *
+ * @param folder - The folder that has the assembly definition
+ * @param name - The name of the assembly definition
+ */
+async function createAsmDefScript(folder: string, name: string) {
+  const script = resolve(folder, asmDefScriptName);
+  const scripts = (await readdir(folder)).filter(each => extname(each).toLowerCase() === '.cs' && each !== asmDefScriptName);
+  if (scripts.length) {
+    await removeAsmDefScript(script);
+  } else if (!await fileExists(script) || (await readFile(script, 'utf8')).startsWith(asmDefScriptMarker)) {
+    await writeTextFile(script, asmDefScript(name));
+  }
+}
+
+/**
+ * Deletes the script next to a generated assembly definition (if it was generated).
+ *
+ * @param script - The full path to the script
+ */
+async function removeAsmDefScript(script: string) {
+  if (await fileExists(script) && (await readFile(script, 'utf8')).startsWith(asmDefScriptMarker)) {
+    await deleteFile(script);
+  }
+}
+
 /**
  * Creates Unity assembly definition files for internal and runtime assemblies.
  * 
@@ -88,65 +148,119 @@ export async function createChangelog(changelog: string) {
  * compiled assemblies. It creates separate definitions for internal (non-public)
  * assemblies and runtime (public) assemblies, with proper references between them.
  * 
- * CURRENTLY NOT REQUIRED - Unity will give a warning if you don't have any .cs files
+ * The settings in an existing .asmdef file are kept, except the ones that the `rootNamespace`,
+ * `includePlatforms`, `excludePlatforms`, `defineConstraints`, `versionDefines` and
+ * `allowUnsafeCode` options control (in both files), which are reset to the template when
+ * the option isn't given; `autoReferenced` only applies to the runtime assembly definition. The assemblies that the UPM packages this package
+ * depends on provide are added to the precompiled references of the runtime assembly
+ * definition.
+ * 
+ * Unity warns about an assembly definition that has no scripts, so each folder that has
+ * no .cs files of its own gets a generated `AssemblyInfo.cs`.
  * 
+ * @param context - The package context
  * @param internalFiles - Array of internal DLL filenames
  * @param externalFiles - Array of runtime DLL filenames
  * @returns A Promise that resolves when both asmdef files are created
+ * @throws {Error} If both `includePlatforms` and `excludePlatforms` are given
  * 
+ * @example
+ * ```typescript
+ * await createAsmDefFiles(context, ['System.Memory.dll'], ['MyApi.dll']);
+ * // Creates Runtime/Runtime.asmdef and Runtime/Internal/Internal.asmdef
+ * ```
  */
-export async function createAsmDefFiles(internalFiles: string[], externalFiles: string[]) {
+export async function createAsmDefFiles(context: PackageContext, internalFiles: string[], externalFiles: string[]) {
+  const { options, packageMetadata, packageReferences, locations: { internalAsmDefFile, runtimeAsmDefFile } } = context;
+  const existing = async (file: string) => await fileExists(file) ? JSON.parse(await readFile(file, 'utf8')) : {};
+
   // create the internal asmdef file
   const internalAsmDef = {
-    ...await fileExists(internalAsmDefFile) ? JSON.parse(await readFile(internalAsmDefFile, 'utf8')) : internalAsmDefTemplate,
+    ...internalAsmDefTemplate,
+    ...await existing(internalAsmDefFile),
+    ...asmDefSettings(options, internalAsmDefTemplate),
     name: `${packageMetadata.name}.Internal`,
     precompiledReferences: internalFiles.map(each => basename(each))
   }
   await writeTextFile(internalAsmDefFile, internalAsmDef);
+  await createAsmDefScript(dirname(internalAsmDefFile), internalAsmDef.name);
 
-  let runtimeAsmDef =
-  {
-    ... await fileExists(runtimeAsmDefFile) ? JSON.parse(await readFile(runtimeAsmDefFile, 'utf8')) : runtimeAsmDefTemplate,
+  // (the assemblies in the UPM packages are referenced where they are)
+  const provided = packageReferences.filter(each => each.upm).flatMap(each => each.assemblies).map(each => `${each}.dll`);
+  const runtimeAsmDef = {
+    ...runtimeAsmDefTemplate,
+    ...await existing(runtimeAsmDefFile),
+    ...asmDefSettings(options, runtimeAsmDefTemplate),
+    autoReferenced: options.autoReferenced ?? runtimeAsmDefTemplate.autoReferenced,
     name: packageMetadata.name,
     // add the assembly names 
-    precompiledReferences: externalFiles.map(each => basename(each)),
+    precompiledReferences: [...externalFiles.map(each => basename(each)), ...provided],
     references: [
       `${packageMetadata.name}.Internal`
     ]
   }
   await writeTextFile(runtimeAsmDefFile, runtimeAsmDef);
+  await createAsmDefScript(dirname(runtimeAsmDefFile), runtimeAsmDef.name);
+}
+
+/**
+ * Deletes the assembly definition files (and the scripts that were generated next to them).
+ * 
+ * @param context - The package context
+ * @returns A Promise that resolves when the files are deleted
+ */
+export async function removeAsmDefFiles(context: PackageContext) {
+  const { internalAsmDefFile, runtimeAsmDefFile } = context.locations;
+  for (const file of [internalAsmDefFile, runtimeAsmDefFile]) {
+    if (await fileExists(file)) {
+      await deleteFile(file);
+    }
+    await removeAsmDefScript(resolve(dirname(file), asmDefScriptName));
+  }
 }
 
 /**
  * Creates a Unity .meta file for a given file path.
  * 
  * Unity uses .meta files to store metadata about assets. This function generates
- * a basic .meta file with a unique GUID based on the file's relative path from
- * the package folder. If a .meta file already exists, it will not be overwritten.
+ * a .meta file with the asset's GUID from the GUID registry (see `registerGuids`), and
+ * the settings block of the importer that Unity uses for the asset (see `renderMeta`);
+ * a .dll gets the PluginImporter settings from the `plugins` option (see `pluginSettings`).
  * 
+ * A .meta file that the registry marks as custom is left alone. Without a registry, the
+ * GUID is based on the file's relative path from the package folder: a .meta file that was
+ * generated before is brought up to date (keeping its GUID), and one that has a different
+ * GUID was made (or tuned) by hand, so it is left alone.
+ * 
+ * @param packageFolder - The root folder of the package
  * @param fullPath - The full path to the file that needs a .meta file
+ * @param plugins - The plugin settings, keyed by glob pattern (the `plugins` option)
+ * @param assigned - The GUID from the GUID registry (if there is one)
  * @returns A Promise that resolves when the .meta file is created or skipped
  * 
  * @example
  * ```typescript
- * await createMetaFile('/path/to/package/Runtime/MyScript.cs');
+ * await createMetaFile('/path/to/package', '/path/to/package/Runtime/MyScript.cs');
  * // Creates /path/to/package/Runtime/MyScript.cs.meta
  * ```
  */
-export async function createMetaFile(fullPath: string) {
+export async function createMetaFile(packageFolder: string, fullPath: string, plugins: Record<string, PluginSettings> = {}, assigned?: AssetGuid) {
   const relativePath = relative(packageFolder, fullPath);
   const metaFile = `${fullPath}.meta`;
+  const guid = assigned?.guid ?? metaGuid(relativePath);
 
   if (await fileExists(metaFile)) {
-    // don't overwrite the meta file if it already exists
-    return;
+    const existing = await readMetaGuid(metaFile);
+    if (assigned ? assigned.custom : existing && existing !== guid) {
+      // don't overwrite a meta file that was made by hand
+      fileChanged('unchanged', metaFile);
+      return;
+    }
   }
 
-  // write a basic meta file
-  await writeTextFile(metaFile, `
-fileFormatVersion: 2
-guid: ${createHash('md5').update(relativePath).digest('hex')}`);
-
+  const path = relativePath.split(sep).join('/');
+  const kind = importerKind(path, (await pathInfo(fullPath)).kind === 'directory');
+  await writeTextFile(metaFile, renderMeta(guid, kind, kind === 'plugin' ? pluginSettings(path, plugins) : undefined));
 }
 
 /**
@@ -157,14 +271,17 @@ guid: ${createHash('md5').update(relativePath).digest('hex')}`);
  * that no longer have corresponding source files.
  * 
  * @param folder - The folder path to process recursively
+ * @param packageFolder - The root folder of the package (defaults to the folder)
+ * @param plugins - The plugin settings, keyed by glob pattern (the `plugins` option)
+ * @param guids - The GUID of each asset, by full path (see `registerGuids`)
  * @returns A Promise that resolves when all .meta files are processed
  * 
  * @example
  * ```typescript
- * await createMetaFiles('./output/Runtime');
+ * await createMetaFiles('./output');
  * ```
  */
-export async function createMetaFiles(folder: string) {
+export async function createMetaFiles(folder: string, packageFolder = folder, plugins: Record<string, PluginSettings> = {}, guids?: Map<string, AssetGuid>) {
   // recursively create the meta files in the folder
   const files = await readdir(folder);
   const metaFiles = new Set<string>(files.filter(each => extname(each) === ".meta"));
@@ -174,10 +291,10 @@ export async function createMetaFiles(folder: string) {
     const fullPath = resolve(folder, filename);
     const { kind } = await pathInfo(fullPath);
     if (kind === "directory") {
-      await createMetaFiles(fullPath);
+      await createMetaFiles(fullPath, packageFolder, plugins, guids);
     }
 
-    await createMetaFile(fullPath);
+    await createMetaFile(packageFolder, fullPath, plugins, guids?.get(fullPath));
     // remove the meta file from the set
     metaFiles.delete(`${filename}.meta`);
   }
@@ -195,30 +312,43 @@ export async function createMetaFiles(folder: string) {
  * from the Unity package folder. The resulting package will be placed in the
  * specified target location.
  * 
+ * The name of the .tgz file is taken from the JSON output of `npm pack --json`.
+ * 
  * @param packageFolder - The folder containing the Unity package to package
  * @param targetLocation - The directory where the .tgz file should be created
- * @returns A Promise that resolves with the npm pack result
- * @throws {Error} If the npm pack command fails
+ * @returns A Promise that resolves with the npm pack result, and the full path to the .tgz file
+ * @throws {Error} If the npm pack command fails, or its output cannot be parsed
  * 
  * @example
  * ```typescript
- * const result = await packageViaNpm('./output', './packages');
- * console.log('Package created:', result.stderr);
+ * const { filename } = await packageViaNpm('./output', './packages');
+ * console.log('Package created:', filename);
  * ```
  */
 export async function packageViaNpm(packageFolder: string, targetLocation: string) {
   // package the folder via npm
-  const { stdout, stderr, exitCode } = await run('npm', 'pack', packageFolder, '--pack-destination', targetLocation);
+  const { stdout, stderr, exitCode } = await run('npm', 'pack', packageFolder, '--pack-destination', targetLocation, '--json');
   if (exitCode !== 0) {
-    return exit(`✗ Failed to package via npm: \n${stdout}\n${stderr}`);
+    throw new Error(`✗ Failed to package via npm: \n${stdout}\n${stderr}`);
   }
 
-  return { stdout, stderr, exitCode };
+  // npm prints an array with the details of each package it created
+  let filename: string | undefined;
+  try {
+    filename = JSON.parse(stdout.slice(stdout.indexOf('[')))[0]?.filename;
+  } catch {
+    // reported below
+  }
+  if (!filename) {
+    throw new Error(`✗ Failed to find the package name in the output of npm pack: \n${stdout}`);
+  }
+
+  return { stdout, stderr, exitCode, filename: resolve(targetLocation, filename) };
 }
 
 /** replaces ${key} with the value of the key in the data object */
-function updatePlaceholders(text: string, ...data: Record<string, string>[]) {
-  return text.replace(/\$\{([^}]+)\}/g, (match, p1) => data.find(d => d[p1])?.[p1] || match);
+export function updatePlaceholders(text: string, ...data: Record<string, unknown>[]) {
+  return text.replace(/\$\{([^}]+)\}/g, (match, p1) => String(data.find(d => d[p1])?.[p1] || match));
 }
 
 /**
@@ -230,14 +360,15 @@ function updatePlaceholders(text: string, ...data: Record<string, string>[]) {
  * 
  * @param sourceFolder - The source folder containing files to copy
  * @param targetFolder - The target folder where files should be copied
+ * @param data - The placeholder values (earlier objects take precedence)
  * @returns A Promise that resolves when all files are copied and processed
  * 
  * @example
  * ```typescript
- * await updateResources('./resources', './output');
+ * await updateResources('./resources', './output', packageMetadata, options);
  * ```
  */
-export async function updateResources(sourceFolder: string, targetFolder: string) {
+export async function updateResources(sourceFolder: string, targetFolder: string, ...data: Record<string, unknown>[]) {
   await ensureDirectoryExists(targetFolder);
 
   for (const name of await readdir(sourceFolder)) {
@@ -247,14 +378,14 @@ export async function updateResources(sourceFolder: string, targetFolder: string
     const { kind } = await pathInfo(sourcePath);
     switch (kind) {
       case 'directory':
-        await updateResources(sourcePath, targetPath);
+        await updateResources(sourcePath, targetPath, ...data);
         continue;
 
       case 'file':
         // if the target file already exists, and it is a text file, then see if it needs to be updated.
         if (await isTextFile(targetPath)) {
           const content = await readFile(targetPath, 'utf8');
-          await writeTextFile(targetPath, updatePlaceholders(content, packageMetadata, metadata));
+          await writeTextFile(targetPath, updatePlaceholders(content, ...data));
           continue;
         }
 
@@ -262,12 +393,13 @@ export async function updateResources(sourceFolder: string, targetFolder: string
         if (await isTextFile(sourcePath)) {
           // if the file already exists, read it from the target so we can update 
           const content = await readFile(sourcePath, 'utf8');
-          await writeTextFile(targetPath, updatePlaceholders(content, packageMetadata, metadata));
+          await writeTextFile(targetPath, updatePlaceholders(content, ...data));
           continue;
         }
 
         // if the file already exists, skip it.
         if (await exists(targetPath)) {
+          fileChanged('unchanged', targetPath);
           continue;
         }
 
@@ -278,6 +410,32 @@ export async function updateResources(sourceFolder: string, targetFolder: string
   }
 }
 
+/**
+ * Recreates a single resource file from its source.
+ * 
+ * Unlike `updateResources`, this replaces the target file even if it already exists
+ * (ie, after the resource template has been edited). Text files have their
+ * placeholders replaced; other files are copied.
+ * 
+ * @param sourcePath - The path to the resource file
+ * @param targetPath - The path to the file in the package folder
+ * @param data - The placeholder values (earlier objects take precedence)
+ * @returns A Promise that resolves when the file is written
+ * 
+ * @example
+ * ```typescript
+ * await updateResource('./resources/README.md', './output/README.md', packageMetadata, options);
+ * ```
+ */
+export async function updateResource(sourcePath: string, targetPath: string, ...data: Record<string, unknown>[]) {
+  if (await isTextFile(sourcePath)) {
+    const content = await readFile(sourcePath, 'utf8');
+    await writeTextFile(targetPath, updatePlaceholders(content, ...data));
+    return;
+  }
+  await copyFile(sourcePath, targetPath);
+}
+
 /**
  * Verifies that all placeholder values in package files have been resolved.
  * 
@@ -318,10 +476,76 @@ export async function verifyPackageFiles(folderPath: string) {
           const key = placeholder.slice(2, -1);
 
           error(`  ${red('✗')} Unresolved placeholder '${red(bold(placeholder))}' found in '${cyan(filePath)}'`);
-          info(`     use ${green`--${key} <value>`} to set it.`);
+          info(`     use ${green(optionSchema[key] ? `${flag(key)} <value>` : `--placeholder ${key}=<value>`)} to set it.`);
         }
 
       }
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * Verifies that the package.json file exists and contains the required fields.
+ * 
+ * @param packageJsonPath - The path to the package.json file
+ * @returns A Promise that resolves to the parsed package.json (or undefined if it is not valid)
+ * 
+ * @example
+ * ```typescript
+ * const pkg = await verifyPackageJson('./output/package.json');
+ * ```
+ */
+export async function verifyPackageJson(packageJsonPath: string): Promise<Record<string, any> | undefined> {
+  if (!await fileExists(packageJsonPath)) {
+    error(`  ${cross} Missing package file '${cyan(packageJsonPath)}'`);
+    return undefined;
+  }
+
+  let pkg: Record<string, any>;
+  try {
+    pkg = JSON.parse(await readFile(packageJsonPath, 'utf8'));
+  } catch (err) {
+    error(`  ${cross} Failed to parse '${cyan(packageJsonPath)}': ${err}`);
+    return undefined;
+  }
+
+  for (const field of ['name', 'version', 'displayName']) {
+    if (!pkg[field]) {
+      error(`  ${cross} Missing '${red(field)}' in '${cyan(packageJsonPath)}'`);
+    }
+  }
+  return pkg;
+}
+
+/**
+ * Verifies that every file and folder in the package has a matching .meta file.
+ * 
+ * Unity ignores assets without a .meta file in an immutable (installed) package,
+ * so a missing .meta file is reported as an error. A .meta file without a matching
+ * asset is reported as a warning.
+ * 
+ * @param folder - The folder path to check recursively
+ * @returns A Promise that resolves when verification is complete
+ * 
+ * @example
+ * ```typescript
+ * await verifyMetaFiles('./output');
+ * ```
+ */
+export async function verifyMetaFiles(folder: string) {
+  const files = await readdir(folder);
+  const metaFiles = new Set<string>(files.filter(each => extname(each) === ".meta"));
+
+  for (const filename of files.filter(each => extname(each) !== ".meta")) {
+    const fullPath = resolve(folder, filename);
+    if ((await pathInfo(fullPath)).kind === 'directory') {
+      await verifyMetaFiles(fullPath);
+    }
+    if (!metaFiles.delete(`${filename}.meta`)) {
+      error(`  ${cross} Missing .meta file for '${cyan(fullPath)}'`);
+    }
+  }
+
+  for (const metaFile of metaFiles) {
+    warn(`  ${warning} Orphaned .meta file '${cyan(resolve(folder, metaFile))}'`);
+  }
+}
@@ -0,0 +1,275 @@
+import { readdir } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { green } from './ansi';
+import { buildSolution } from './build';
+import { selectCompanions } from './companions';
+import { resolveConflicts } from './conflicts';
+import { PackageContext, requireSolutionFile } from './context';
+import { resolveAssets } from './dependencies';
+import { createEditorLayer, removeEditorLayer } from './editor';
+import { copyFiles, deleteDirectory, directoryEmpty, directoryExists, ensureDirectoryExists, fileExists } from './filesystem';
+import { selectPackageFiles } from './frameworks';
+import { registerGuids, verifyGuids } from './guids';
+import { ExtractedPackage, lockPackages } from './lockfile';
+import { initPackageMetadata } from './metadata';
+import { createNotices } from './notices';
+import { acquirePackages } from './nuget';
+import { errorCount, log } from './output';
+import { verifyReferences } from './references';
+import { createSamples } from './samples';
+import { createAsmDefFiles, createChangelog, createLicense, createMetaFiles, createPackageJson, packageViaNpm, removeAsmDefFiles, updateResources, verifyMetaFiles, verifyPackageFiles, verifyPackageJson } from './packaging';
+import { commonFolder, extractFolder, unzip } from './unpack';
+
+/**
+ * Removes the temporary data, the package folder and (when a solution is given) the build output.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves when the folders have been deleted
+ */
+export async function cleanStage(context: PackageContext) {
+  const { solutionFile, locations: { temp, packageFolder, apiBinFolder } } = context;
+  log('> Cleaning up folders');
+  await Promise.all([
+    deleteDirectory(temp),
+    deleteDirectory(packageFolder),
+    solutionFile ? deleteDirectory(apiBinFolder) : undefined
+  ]);
+}
+
+/**
+ * Checks if the build stage would build the solution.
+ *
+ * @param context - The package context
+ * @param force - Build even if the build output already exists
+ * @returns A Promise that resolves to true if the solution would be built
+ */
+export async function needsBuild(context: PackageContext, force: boolean) {
+  return force || await directoryEmpty(context.locations.buildOutputFolder);
+}
+
+/**
+ * Builds the .NET solution.
+ *
+ * @param context - The package context
+ * @param force - Build even if the build output already exists
+ * @returns A Promise that resolves when the build is complete
+ * @throws {Error} If the solution file does not exist or the build fails
+ */
+export async function buildStage(context: PackageContext, force: boolean) {
+  const sln = requireSolutionFile(context);
+  if (!await fileExists(sln)) {
+    throw new Error(`Solution file '${sln}' does not exist`);
+  }
+
+  log('> Building solution');
+  if (await needsBuild(context, force)) {
+    const { stdout, stderr, exitCode } = await buildSolution(sln);
+    if (exitCode !== 0) {
+      throw new Error(`✗ Failed to build solution: \n${stdout}\n${stderr}`);
+    }
+  }
+}
+
+/**
+ * Lays out the Unity package folder from the build output.
+ *
+ * This gets (see `acquirePackages`) the NuGet dependencies (see `resolveAssets`), makes sure that
+ * no assembly would be in the package twice (see `resolveConflicts`), copies the build output to the
+ * Runtime/ folder, extracts the NuGet dependencies to the Runtime/Internal/ folder, creates the package
+ * metadata files (including the Third Party Notices, see `createNotices`), the Editor layer (when asked
+ * for, see `createEditorLayer`; otherwise it is removed) and the Unity .meta files.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves when the package folder is complete
+ * @throws {Error} If the solution file or the build output does not exist
+ */
+export async function assembleStage(context: PackageContext) {
+  const { temp, nuget, packageFolder, packageJson, runtimeFolder, internalAssemblyFolder, apiFolder, buildOutputFolder, license, changelog } = context.locations;
+  const sln = requireSolutionFile(context);
+  if (!await fileExists(sln)) {
+    throw new Error(`Solution file '${sln}' does not exist`);
+  }
+
+  // the NuGet packages that UPM packages provide are dependencies in the package.json, so they are resolved first
+  await resolveAssets(context);
+
+  // since we have a solution, we should be able to find the package project, and harvest some metadata
+  const packageMetadata = await initPackageMetadata(context);
+
+  // create the folders for the NuGet packages (the package folder is created once they have been checked)
+  await Promise.all([
+    ensureDirectoryExists(temp),
+    ensureDirectoryExists(nuget),
+  ]);
+
+  if (!await directoryExists(apiFolder)) {
+    throw new Error(`Failed to find API folder: '${apiFolder}'`);
+  }
+
+  if (!await directoryExists(buildOutputFolder)) {
+    throw new Error(`Failed to find build output folder: '${buildOutputFolder}' (has the solution been built?)`);
+  }
+
+  // Step 1: Get all packages (from the local caches and feeds, or by downloading them)
+  log(context.options.offline ? '> Finding NuGet packages (offline)' : '> Downloading NuGet packages');
+  const packages = await acquirePackages(context, await resolveAssets(context));
+
+  // Step 2: Pick the files for the nearest compatible framework from each package
+  // (keeping their subfolders relative to the folder that has all of them, when asked to)
+  const extracted = new Array<ExtractedPackage>();
+  for (const each of packages) {
+    const preserveFolders = each.preserveFolders ?? context.options.preserveFolders ?? false;
+    const files = await selectPackageFiles(each, context.options.apiCompatibility ?? 'netstandard2.1', preserveFolders);
+    if (files.length) {
+      extracted.push({ pkg: each, files, folder: preserveFolders ? commonFolder(files) : undefined });
+    }
+  }
+
+  // Step 3: Check the packages against the lockfile (and update it), before anything is written to the package folder
+  log('> Checking NuGet packages against the lockfile');
+  await lockPackages(context, extracted.filter(each => each.files.length));
+
+  // create required directories
+  log('> Creating folder structure');
+  await Promise.all([
+    ensureDirectoryExists(packageFolder),
+    ensureDirectoryExists(runtimeFolder),
+    ensureDirectoryExists(internalAssemblyFolder)
+  ]);
+
+  // leave out the documentation and symbols, unless they are wanted
+  const omitted = await selectCompanions(context, extracted);
+
+  // Step 4: Make sure that each assembly is only in the package once
+  // (except the assemblies that come from the packages that this package depends on)
+  log('> Checking for conflicting assemblies');
+  const provided = context.packageReferences.flatMap(each => each.assemblies);
+  const isProvided = (name: string) => provided.some(assembly => ['.dll', '.pdb', '.xml'].some(ext => name === `${assembly}${ext}`));
+  const excluded = await resolveConflicts(context, extracted, name => !isProvided(name));
+
+  // copy the files in the build output to the runtime folder
+  log('> Copying build output to runtime folder');
+  await copyFiles(buildOutputFolder, runtimeFolder, name => !isProvided(name) && !excluded.has(name.toLowerCase()) && !omitted.has(name.toLowerCase()));
+
+  log('> Extracting required files');
+  for (const { pkg, files, folder } of extracted) {
+    if (pkg.source === 'folder') {
+      await extractFolder(pkg.path, files, internalAssemblyFolder, folder);
+    } else {
+      await unzip(pkg.path, files, internalAssemblyFolder, folder);
+    }
+  }
+
+  if (context.options.sample) {
+    log('> Copying samples');
+    await createSamples(context);
+  }
+
+  log('> Creating required package assets');
+  await createPackageJson(packageJson, packageMetadata);
+  await resourcesStage(context);
+  await createLicense(license);
+  await createChangelog(changelog);
+  await createNotices(context, extracted.filter(each => each.files.length).map(each => each.pkg), ...placeholderValues(context));
+
+  if (context.options.editor) {
+    log('> Creating the Editor layer');
+    await createEditorLayer(context, ...placeholderValues(context));
+  } else {
+    await removeEditorLayer(context);
+  }
+
+  await asmdefStage(context);
+
+  // must be last step before creating the npm
+  await createMetaFiles(packageFolder, packageFolder, context.options.plugins, await registerGuids(context));
+}
+
+/**
+ * Creates the assembly definitions for Runtime/ and Runtime/Internal/, with the settings in the
+ * options (see `createAsmDefFiles`), or deletes them when the `asmdef` option is false.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves when the assembly definitions are up to date
+ * @throws {Error} If both `includePlatforms` and `excludePlatforms` are given
+ */
+export async function asmdefStage(context: PackageContext) {
+  const { runtimeFolder, internalAssemblyFolder } = context.locations;
+  if (context.options.asmdef === false) {
+    await removeAsmDefFiles(context);
+    return;
+  }
+
+  log('> Creating assembly definitions');
+  // find all the dlls in assembly folders
+  const internalDlls = (await readdir(internalAssemblyFolder)).filter(each => each.toLowerCase().endsWith('.dll'));
+  const runtimeDlls = (await readdir(runtimeFolder)).filter(each => each.toLowerCase().endsWith('.dll'));
+  await createAsmDefFiles(context, internalDlls, runtimeDlls);
+}
+
+/**
+ * The folder that contains the resource files (README.md, etc.) that are copied to the package.
+ */
+export const resourcesFolder = resolve(__dirname, '..', 'resources');
+
+/**
+ * Copies the resource files to the package folder, replacing the placeholders.
+ *
+ * The package metadata must already be initialized (see `initPackageMetadata`).
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves when the resource files are up to date
+ */
+export async function resourcesStage(context: PackageContext) {
+  await updateResources(resourcesFolder, context.locations.packageFolder, ...placeholderValues(context));
+}
+
+/**
+ * Returns the values used to replace the placeholders in the resource files (earlier objects take precedence).
+ *
+ * @param context - The package context
+ */
+export function placeholderValues(context: PackageContext) {
+  return [context.packageMetadata, context.options.placeholder ?? {}, context.options];
+}
+
+/**
+ * Verifies the contents of the package folder (including the assembly references, see `verifyReferences`).
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the parsed package.json of the package
+ * @throws {Error} If the package folder does not exist, or any errors are found
+ */
+export async function verifyStage(context: PackageContext) {
+  const { packageFolder, packageJson } = context.locations;
+  if (!await directoryExists(packageFolder)) {
+    throw new Error(`Package folder '${packageFolder}' does not exist`);
+  }
+
+  log('> verifying package contents');
+  const pkg = await verifyPackageJson(packageJson);
+  await verifyPackageFiles(packageFolder);
+  await verifyMetaFiles(packageFolder);
+  await verifyGuids(packageFolder);
+  await verifyReferences(context);
+
+  if (errorCount > 0) {
+    throw new Error("Errors encountered, package not created.");
+  }
+  return pkg!;
+}
+
+/**
+ * Packages the package folder as a .tgz file.
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the full path of the .tgz file
+ * @throws {Error} If npm fails to create the package
+ */
+export async function packStage(context: PackageContext) {
+  const { packageFolder, packageParentFolder } = context.locations;
+  log('> creating .tgz package');
+  const { filename } = await packageViaNpm(packageFolder, packageParentFolder);
+  log(`> Created package: ${green(filename)}`);
+  return filename;
+}
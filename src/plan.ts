@@ -0,0 +1,277 @@
+import { cp, mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, relative, resolve, sep } from 'node:path';
+import { bold, cyan, green, grey, red, yellow } from './ansi';
+import { Asset } from './assets';
+import { PackageContext, requireSolutionFile } from './context';
+import { resolveAssets } from './dependencies';
+import { directoryEmpty, directoryExists, FileChangeKind, fileExists, onFileChange } from './filesystem';
+import { getLocations } from './locations';
+import { locatePackage } from './nuget';
+import { log, silently, verbose } from './output';
+import { assembleStage, needsBuild } from './pipeline';
+
+/**
+ * A file that the pipeline would create, update, leave unchanged or delete.
+ */
+export interface PlannedFile {
+  /** what would happen to the file */
+  kind: FileChangeKind;
+
+  /** the path of the file, relative to the package folder (using '/' separators) */
+  path: string;
+}
+
+/**
+ * What the pipeline would do, without changing anything.
+ */
+export interface PackagePlan {
+  /** the folders that would be deleted first (when --clean is given) */
+  clean: string[];
+
+  /** the solution would be built */
+  build: boolean;
+
+  /** the build output does not exist yet, so the files for Runtime/ are not known */
+  buildOutputMissing: boolean;
+
+  /**
+   * the NuGet packages, and if they would be downloaded, reused from the nuget temp folder,
+   * taken from the global packages folder or a local feed, or are missing (offline)
+   */
+  packages: Array<{ name: string; filename: string; action: 'download' | 'reuse' | 'local' | 'missing' }>;
+
+  /** the files in Runtime/ (from the build output) */
+  runtime: PlannedFile[];
+
+  /** the files in Runtime/Internal/ (extracted from the NuGet packages) */
+  internal: PlannedFile[];
+
+  /** the package metadata and resource files */
+  resources: PlannedFile[];
+
+  /** the Unity .meta files */
+  meta: PlannedFile[];
+}
+
+/**
+ * Returns the folders that the clean stage would delete (the ones that exist).
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the full paths of the folders
+ */
+export async function planClean(context: PackageContext) {
+  const { solutionFile, locations: { temp, packageFolder, apiBinFolder } } = context;
+  const folders = solutionFile ? [temp, packageFolder, apiBinFolder] : [temp, packageFolder];
+  const result = new Array<string>();
+  for (const folder of folders) {
+    if (await directoryExists(folder)) {
+      result.push(folder);
+    }
+  }
+  return result;
+}
+
+/**
+ * Works out what the pipeline would do, without writing anything outside of a scratch folder.
+ *
+ * The existing package folder and the cached NuGet packages are copied to a scratch
+ * folder in the system temp directory, and the assemble stage is run against the copy
+ * (with its output suppressed). The changes it makes are recorded and mapped back to
+ * the real package folder. NuGet packages that are not cached are copied from the
+ * local feeds or downloaded to the scratch folder. The scratch folder is deleted afterwards.
+ *
+ * @param context - The package context
+ * @param force - The solution would be built even if the build output already exists
+ * @returns A Promise that resolves to the plan
+ * @throws {Error} If the solution file does not exist, or the assemble stage fails
+ *
+ * @example
+ * ```typescript
+ * const context = createContext({ sln: './MyApi.sln' });
+ * showPlan(context, await createPlan(context, false));
+ * ```
+ */
+export async function createPlan(context: PackageContext, force: boolean): Promise<PackagePlan> {
+  const { locations } = context;
+  const sln = requireSolutionFile(context);
+  if (!await fileExists(sln)) {
+    throw new Error(`Solution file '${sln}' does not exist`);
+  }
+
+  const clean = context.options.clean ? await planClean(context) : [];
+  const cleaned = (folder: string) => clean.includes(folder);
+
+  const build = cleaned(locations.apiBinFolder) || await needsBuild(context, force);
+  const buildOutputMissing = cleaned(locations.apiBinFolder) || await directoryEmpty(locations.buildOutputFolder);
+
+  const scratch = await mkdtemp(resolve(tmpdir(), 'make-unity-sdk-plan-'));
+  try {
+    const packageFolder = resolve(scratch, 'package');
+    const nuget = resolve(scratch, 'nuget');
+    const buildOutputFolder = buildOutputMissing ? resolve(scratch, 'build') : locations.buildOutputFolder;
+
+    // start from a copy of what is there now
+    if (!cleaned(locations.packageFolder) && await directoryExists(locations.packageFolder)) {
+      await cp(locations.packageFolder, packageFolder, { recursive: true });
+    }
+    await mkdir(nuget, { recursive: true });
+    await mkdir(buildOutputFolder, { recursive: true });
+    const lockFile = resolve(scratch, basename(locations.lockFile || 'unity-sdk.lock.json'));
+    if (locations.lockFile && await fileExists(locations.lockFile)) {
+      await cp(locations.lockFile, lockFile);
+    }
+    const guidRegistry = resolve(scratch, basename(locations.guidRegistry || 'unity-sdk.guids.json'));
+    if (locations.guidRegistry && await fileExists(locations.guidRegistry)) {
+      await cp(locations.guidRegistry, guidRegistry);
+    }
+
+    // the cached packages are gone when the temp folder is cleaned
+    const locateContext = cleaned(locations.temp) ? { ...context, locations: { ...locations, nuget } } : context;
+    const packages = new Array<PackagePlan['packages'][number]>();
+    const available = new Array<Asset>();
+    for (const asset of await resolveAssets(context)) {
+      const { source, path } = await locatePackage(locateContext, asset);
+      const action = source === 'cache' ? 'reuse' : source === 'download' ? (context.options.offline ? 'missing' : 'download') : 'local';
+      packages.push({ name: asset.name, filename: asset.filename, action });
+      if (action !== 'missing') {
+        available.push(asset);
+      }
+      if (source === 'cache') {
+        await cp(path, resolve(nuget, asset.filename));
+      }
+    }
+
+    const scratchContext: PackageContext = {
+      ...context,
+      locations: {
+        // (the project file too, so that the API folder and the build output are the project's)
+        ...getLocations(sln, packageFolder, locations.packageParentFolder, context.project?.csprojFile ?? (context.options.project ? resolve(process.cwd(), context.options.project) : undefined)),
+        temp: scratch,
+        nuget,
+        buildOutputFolder,
+        lockFile,
+        guidRegistry,
+      },
+      packageMetadata: {},
+      // the packages that are missing (offline) are reported in the plan, rather than failing the run
+      assets: available,
+    };
+
+    // record the changes to the package folder
+    const changes = new Map<string, FileChangeKind>();
+    const stop = onFileChange((kind, filePath) => {
+      const path = relative(packageFolder, filePath);
+      const key = path.split(sep).join('/');
+      // a file that is created and then checked again is still created
+      if (!path.startsWith('..') && !(kind === 'unchanged' && changes.has(key))) {
+        changes.set(key, kind);
+      }
+    });
+
+    try {
+      await silently(() => assembleStage(scratchContext));
+    } finally {
+      stop();
+    }
+
+    const plan: PackagePlan = { clean, build, buildOutputMissing, packages, runtime: [], internal: [], resources: [], meta: [] };
+    for (const [path, kind] of [...changes].sort(([a], [b]) => a.localeCompare(b))) {
+      if (path.endsWith('.meta')) {
+        plan.meta.push({ kind, path });
+      } else if (path.startsWith('Runtime/Internal/')) {
+        plan.internal.push({ kind, path });
+      } else if (path.startsWith('Runtime/')) {
+        plan.runtime.push({ kind, path });
+      } else {
+        plan.resources.push({ kind, path });
+      }
+    }
+    return plan;
+  } finally {
+    await rm(scratch, { recursive: true, force: true });
+  }
+}
+
+const symbols: Record<FileChangeKind, string> = {
+  created: green('+'),
+  updated: yellow('~'),
+  unchanged: grey('='),
+  deleted: red('-'),
+};
+
+const packageActions: Record<PackagePlan['packages'][number]['action'], string> = {
+  download: green('download'),
+  reuse: grey('reuse   '),
+  local: cyan('local   '),
+  missing: red('missing '),
+};
+
+/**
+ * Shows a section of the plan.
+ *
+ * Files that would be left unchanged are only listed when `listUnchanged` is set
+ * (or with --verbose); otherwise they are counted.
+ */
+function showFiles(title: string, files: PlannedFile[], listUnchanged: boolean) {
+  log(bold(title));
+  if (files.length === 0) {
+    log(`  ${grey`(nothing)`}`);
+  }
+  for (const { kind, path } of files) {
+    if (kind !== 'unchanged' || listUnchanged) {
+      log(`  ${symbols[kind]} ${kind.padEnd(9)} ${cyan(path)}`);
+    } else {
+      verbose(`  ${symbols[kind]} ${kind.padEnd(9)} ${cyan(path)}`);
+    }
+  }
+  const unchanged = files.filter(each => each.kind === 'unchanged').length;
+  if (unchanged && !listUnchanged) {
+    log(`  ${grey`${unchanged} file(s) unchanged`}`);
+  }
+  log('');
+}
+
+/**
+ * Prints the plan.
+ *
+ * @param context - The package context
+ * @param plan - The plan to print
+ */
+export function showPlan(context: PackageContext, plan: PackagePlan) {
+  const { packageFolder, buildOutputFolder } = context.locations;
+
+  log(bold`Dry run - nothing will be changed.`);
+  log(`Package folder: ${cyan(packageFolder)}\n`);
+
+  if (plan.clean.length) {
+    log(bold`Clean`);
+    for (const folder of plan.clean) {
+      log(`  ${symbols.deleted} delete    ${cyan(folder)}`);
+    }
+    log('');
+  }
+
+  log(bold`Build`);
+  log(plan.build ? `  The solution would be built.` : `  The solution would not be rebuilt (the build output exists).`);
+  if (plan.buildOutputMissing) {
+    log(`  ${yellow`The build output does not exist yet ('${buildOutputFolder}'); the files for Runtime/ are not known.`}`);
+  } else if (plan.build) {
+    log(`  ${grey`The files for Runtime/ are based on the current build output.`}`);
+  }
+  log('');
+
+  log(bold`NuGet packages`);
+  for (const { filename, action } of plan.packages) {
+    log(`  ${packageActions[action]} ${cyan(filename)}`);
+  }
+  if (plan.packages.some(each => each.action === 'missing')) {
+    log(`  ${red`Offline, and the missing packages are not in the global packages folder or a local feed.`}`);
+  }
+  log('');
+
+  showFiles('Runtime/', plan.runtime, false);
+  showFiles('Runtime/Internal/', plan.internal, false);
+  showFiles('Package files', plan.resources, true);
+  showFiles('.meta files', plan.meta, false);
+}
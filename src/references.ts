@@ -0,0 +1,172 @@
+import { readFile } from 'node:fs/promises';
+import { relative, resolve, sep } from 'node:path';
+import { cyan } from './ansi';
+import { AssemblyIdentity, AssemblyInfo, readAssembly } from './assembly';
+import { PackageContext } from './context';
+import { directoryExists, listFiles } from './filesystem';
+import { compareVersions } from './frameworks';
+import { check, cross, error, verbose, warn, warning } from './output';
+
+/**
+ * The assemblies in the .NET Standard 2.1 profile (the facades in NETStandard.Library.Ref),
+ * which Unity provides at the `netstandard2.1` API compatibility level.
+ */
+const netstandardFacades = [
+  'Microsoft.Win32.Primitives', 'mscorlib', 'netstandard', 'System', 'System.AppContext', 'System.Buffers',
+  'System.Collections', 'System.Collections.Concurrent', 'System.Collections.NonGeneric', 'System.Collections.Specialized',
+  'System.ComponentModel', 'System.ComponentModel.Composition', 'System.ComponentModel.EventBasedAsync',
+  'System.ComponentModel.Primitives', 'System.ComponentModel.TypeConverter', 'System.Console', 'System.Core', 'System.Data',
+  'System.Data.Common', 'System.Diagnostics.Contracts', 'System.Diagnostics.Debug', 'System.Diagnostics.FileVersionInfo',
+  'System.Diagnostics.Process', 'System.Diagnostics.StackTrace', 'System.Diagnostics.TextWriterTraceListener',
+  'System.Diagnostics.Tools', 'System.Diagnostics.TraceSource', 'System.Diagnostics.Tracing', 'System.Drawing',
+  'System.Drawing.Primitives', 'System.Dynamic.Runtime', 'System.Globalization', 'System.Globalization.Calendars',
+  'System.Globalization.Extensions', 'System.IO', 'System.IO.Compression', 'System.IO.Compression.FileSystem',
+  'System.IO.Compression.ZipFile', 'System.IO.FileSystem', 'System.IO.FileSystem.DriveInfo', 'System.IO.FileSystem.Primitives',
+  'System.IO.FileSystem.Watcher', 'System.IO.IsolatedStorage', 'System.IO.MemoryMappedFiles', 'System.IO.Pipes',
+  'System.IO.UnmanagedMemoryStream', 'System.Linq', 'System.Linq.Expressions', 'System.Linq.Parallel', 'System.Linq.Queryable',
+  'System.Memory', 'System.Net', 'System.Net.Http', 'System.Net.NameResolution', 'System.Net.NetworkInformation', 'System.Net.Ping',
+  'System.Net.Primitives', 'System.Net.Requests', 'System.Net.Security', 'System.Net.Sockets', 'System.Net.WebHeaderCollection',
+  'System.Net.WebSockets', 'System.Net.WebSockets.Client', 'System.Numerics', 'System.Numerics.Vectors', 'System.ObjectModel',
+  'System.Reflection', 'System.Reflection.DispatchProxy', 'System.Reflection.Emit', 'System.Reflection.Emit.ILGeneration',
+  'System.Reflection.Emit.Lightweight', 'System.Reflection.Extensions', 'System.Reflection.Primitives', 'System.Resources.Reader',
+  'System.Resources.ResourceManager', 'System.Resources.Writer', 'System.Runtime', 'System.Runtime.CompilerServices.VisualC',
+  'System.Runtime.Extensions', 'System.Runtime.Handles', 'System.Runtime.InteropServices',
+  'System.Runtime.InteropServices.RuntimeInformation', 'System.Runtime.Numerics', 'System.Runtime.Serialization',
+  'System.Runtime.Serialization.Formatters', 'System.Runtime.Serialization.Json', 'System.Runtime.Serialization.Primitives',
+  'System.Runtime.Serialization.Xml', 'System.Security.Claims', 'System.Security.Cryptography.Algorithms',
+  'System.Security.Cryptography.Csp', 'System.Security.Cryptography.Encoding', 'System.Security.Cryptography.Primitives',
+  'System.Security.Cryptography.X509Certificates', 'System.Security.Principal', 'System.Security.SecureString',
+  'System.ServiceModel.Web', 'System.Text.Encoding', 'System.Text.Encoding.Extensions', 'System.Text.RegularExpressions',
+  'System.Threading', 'System.Threading.Overlapped', 'System.Threading.Tasks', 'System.Threading.Tasks.Extensions',
+  'System.Threading.Tasks.Parallel', 'System.Threading.Thread', 'System.Threading.ThreadPool', 'System.Threading.Timer',
+  'System.Transactions', 'System.ValueTuple', 'System.Web', 'System.Windows', 'System.Xml', 'System.Xml.Linq',
+  'System.Xml.ReaderWriter', 'System.Xml.Serialization', 'System.Xml.XDocument', 'System.Xml.XmlDocument',
+  'System.Xml.XmlSerializer', 'System.Xml.XPath', 'System.Xml.XPath.XDocument',
+];
+
+/**
+ * The assemblies that .NET Standard 2.1 has, but .NET Framework 4.x doesn't (they must be bundled at the `netframework` level).
+ */
+const outOfBand = ['System.Buffers', 'System.Memory', 'System.Numerics.Vectors', 'System.Reflection.DispatchProxy', 'System.Threading.Tasks.Extensions'];
+
+/**
+ * The .NET Framework assemblies that Unity provides at the `netframework` API compatibility level (as well as the .NET Standard 2.0 facades).
+ */
+const frameworkAssemblies = [
+  'Microsoft.CSharp', 'System.ComponentModel.DataAnnotations', 'System.Configuration', 'System.Data.DataSetExtensions',
+  'System.Security', 'System.ServiceModel.Internals',
+];
+
+/**
+ * The assemblies that are always available in Unity (the engine and editor assemblies).
+ */
+const unityAssemblies = ['UnityEngine', 'UnityEngine.*', 'UnityEditor', 'UnityEditor.*'];
+
+/**
+ * Returns the names of the assemblies that Unity provides at an API compatibility level (lower case), and the highest `netstandard` version.
+ *
+ * @param level - The Unity API compatibility level (`netstandard2.1` or `netframework`)
+ */
+export function profileAssemblies(level: string) {
+  const names = level === 'netframework'
+    ? [...netstandardFacades.filter(each => !outOfBand.includes(each)), ...frameworkAssemblies]
+    : netstandardFacades;
+  return { names: new Set(names.map(each => each.toLowerCase())), netstandard: level === 'netframework' ? [2, 0] : [2, 1] };
+}
+
+/**
+ * Checks if an assembly name matches one of the patterns in an allow-list (`*` matches anything; ignoring case).
+ */
+function isAllowed(name: string, patterns: string[]) {
+  return patterns.some(pattern => new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*')}$`, 'i').test(name));
+}
+
+/**
+ * Describes an assembly reference, for messages (ie, `System.Memory 4.0.1.2`).
+ */
+function describe(reference: AssemblyIdentity) {
+  return `${reference.name} ${reference.version}`;
+}
+
+/**
+ * Checks that every assembly that the assemblies in the package reference will be there in Unity.
+ *
+ * Every .dll in Runtime/ (and its subfolders) is read, and each reference in its AssemblyRef
+ * table must be satisfied by:
+ *
+ * - an assembly in the package, with the same or a higher version
+ * - an assembly that the Unity packages this package depends on provide
+ * - an assembly in Unity's profile for the API compatibility level (the .NET Standard 2.1
+ *   facades, or the .NET Framework assemblies and the .NET Standard 2.0 facades); a
+ *   reference to a higher version of `netstandard` than the profile has is not satisfied
+ * - the Unity engine and editor assemblies, or a pattern in the `allowReference` option
+ *
+ * Each unresolved reference and version mismatch is reported as an error (the caller
+ * checks the error count).
+ *
+ * @param context - The package context
+ * @returns A Promise that resolves to the number of problems found
+ *
+ * @example
+ * ```typescript
+ * await verifyReferences(context);
+ * if (errorCount > 0) { ... }
+ * ```
+ */
+export async function verifyReferences(context: PackageContext) {
+  const { options, packageReferences, locations: { runtimeFolder, packageFolder } } = context;
+  if (!await directoryExists(runtimeFolder)) {
+    return 0;
+  }
+
+  const assemblies = new Array<{ path: string; assembly: AssemblyInfo }>();
+  for (const file of (await listFiles(runtimeFolder)).filter(each => each.toLowerCase().endsWith('.dll'))) {
+    const path = relative(packageFolder, resolve(runtimeFolder, file)).split(sep).join('/');
+    try {
+      const assembly = readAssembly(await readFile(resolve(runtimeFolder, file)));
+      if (assembly) {
+        assemblies.push({ path, assembly });
+      }
+    } catch (err) {
+      warn(`${warning} Failed to read '${path}', so its references are not checked: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const packaged = new Map(assemblies.map(each => [each.assembly.identity.name.toLowerCase(), each]));
+  const provided = new Set(packageReferences.flatMap(each => each.assemblies).map(each => each.toLowerCase()));
+  const profile = profileAssemblies(options.apiCompatibility ?? 'netstandard2.1');
+  const allowed = [...unityAssemblies, ...[options.allowReference ?? []].flat()];
+
+  // the problems, by reference (so that each one is only reported once, with the assemblies that have it)
+  const problems = new Map<string, string[]>();
+  const report = (problem: string, path: string) => problems.set(problem, [...problems.get(problem) ?? [], path]);
+  let count = 0;
+
+  for (const { path, assembly } of assemblies) {
+    for (const reference of assembly.references) {
+      count++;
+      const name = reference.name.toLowerCase();
+      const version = reference.version.split('.').map(Number);
+      const target = packaged.get(name);
+      if (target) {
+        if (compareVersions(version, target.assembly.identity.version.split('.').map(Number)) > 0) {
+          report(`${describe(reference)} is referenced, but the package has ${target.assembly.identity.version} ('${target.path}')`, path);
+        }
+      } else if (name === 'netstandard') {
+        if (compareVersions(version, profile.netstandard) > 0) {
+          report(`${describe(reference)} is referenced, but Unity only has .NET Standard ${profile.netstandard.join('.')} at the ${options.apiCompatibility ?? 'netstandard2.1'} API compatibility level`, path);
+        }
+      } else if (!profile.names.has(name) && !provided.has(name) && !isAllowed(reference.name, allowed)) {
+        report(`${describe(reference)} is referenced, but it isn't in the package or in Unity's ${options.apiCompatibility ?? 'netstandard2.1'} profile (bundle it, or use --allow-reference ${reference.name})`, path);
+      }
+    }
+  }
+
+  for (const [problem, paths] of problems) {
+    error(`  ${cross} ${problem}: referenced by ${paths.map(each => `'${cyan(each)}'`).join(', ')}`);
+  }
+  if (!problems.size) {
+    verbose(`  ${check} ${count} reference(s) in ${assemblies.length} assemblies are satisfied`);
+  }
+  return problems.size;
+}
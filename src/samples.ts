@@ -0,0 +1,279 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, dirname, extname, relative, resolve } from 'node:path';
+import { cyan } from './ansi';
+import { readAssemblyIdentity, readAssemblyTypes } from './assembly';
+import { sampleAsmDefTemplate } from './asmdef';
+import { run } from './automation';
+import { PackageContext } from './context';
+import { barename, copyFile, deleteDirectory, deleteFile, directoryExists, ensureDirectoryExists, fileExists, listFiles, pathInfo, writeTextFile } from './filesystem';
+import { check, cross, error, info, verbose, warn, warning } from './output';
+
+/**
+ * A sample that is put in the package (in Samples~/), for Unity Package Manager to import.
+ */
+export interface Sample {
+  /** the name of the sample (the name of its folder in Samples~/) */
+  name: string;
+
+  /** the folder that has the sample's files */
+  folder: string;
+
+  /** the sample's C# project (when the sample is a project) */
+  project?: string;
+
+  /** the assembly that the project builds (when the sample is a project) */
+  assembly?: string;
+
+  /** the name shown in the Package Manager */
+  displayName: string;
+
+  /** the description shown in the Package Manager */
+  description: string;
+}
+
+/**
+ * The files and folders in a sample that are not copied to the package (the build output,
+ * and the files that only the .NET SDK uses).
+ */
+const ignoredSampleFiles = [/(^|\/)(bin|obj|\.vs|\.idea)\//i, /\.(csproj|sln|user)$/i];
+
+/**
+ * Reads the name and description of a sample from its README.md (the first heading, and the
+ * first paragraph after it).
+ */
+async function readSampleReadme(folder: string) {
+  const readme = (await readdir(folder)).find(each => each.toLowerCase() === 'readme.md');
+  if (!readme) {
+    return {};
+  }
+  const lines = (await readFile(resolve(folder, readme), 'utf8')).split(/\r?\n/);
+  const heading = lines.findIndex(each => /^#\s+\S/.test(each));
+  const paragraph = new Array<string>();
+  for (const line of lines.slice(heading + 1)) {
+    if (!line.trim() || line.startsWith('#')) {
+      if (paragraph.length) {
+        break;
+      }
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+  return { displayName: heading >= 0 ? lines[heading].replace(/^#\s+/, '').trim() : undefined, description: paragraph.join(' ') || undefined };
+}
+
+/**
+ * Finds a sample: a folder, or a C# project (a .csproj, or a folder with one .csproj in it).
+ *
+ * The name shown in the Package Manager is the project's `Title`, or the first heading in
+ * the sample's README.md, or the name of the folder (or project); the description is the
+ * project's `Description`, or the first paragraph of the README.md.
+ *
+ * @param path - The full path to the folder or project file
+ * @returns A Promise that resolves to the sample
+ * @throws {Error} If the path is not a folder or a project file, or the project can't be read
+ *
+ * @example
+ * ```typescript
+ * const sample = await findSample('/src/Samples/QuickStart/QuickStart.csproj');
+ * // { name: 'QuickStart', folder: '/src/Samples/QuickStart', project: '...', assembly: '.../bin/Release/net8.0/QuickStart.dll', ... }
+ * ```
+ */
+export async function findSample(path: string): Promise<Sample> {
+  const { kind } = await pathInfo(path);
+  let project: string | undefined;
+  if (kind === 'file' && extname(path).toLowerCase() === '.csproj') {
+    project = path;
+  } else if (kind === 'directory') {
+    const projects = (await readdir(path)).filter(each => extname(each).toLowerCase() === '.csproj');
+    project = projects.length === 1 ? resolve(path, projects[0]) : undefined;
+  } else {
+    throw new Error(`Sample '${path}' is not a folder or a C# project`);
+  }
+
+  const folder = project ? dirname(project) : path;
+  const name = project ? barename(project) : basename(folder);
+  const readme = await readSampleReadme(folder);
+  const sample: Sample = { name, folder, displayName: readme.displayName ?? name, description: readme.description ?? '' };
+  if (!project) {
+    return sample;
+  }
+
+  // (the build output of the Release configuration, which the solution is built with)
+  const { exitCode, stdout, stderr } = await run('dotnet', 'msbuild', project, '--getProperty:Title,Description,TargetPath', '-p:Configuration=Release');
+  if (exitCode) {
+    throw new Error(`Failed to read the properties of the sample project '${project}': ${stderr || stdout}`);
+  }
+  const { Properties } = JSON.parse(stdout);
+  return {
+    ...sample,
+    project,
+    assembly: Properties.TargetPath || undefined,
+    displayName: Properties.Title || sample.displayName,
+    description: Properties.Description || sample.description,
+  };
+}
+
+/**
+ * Copies a sample to its folder in Samples~/ (leaving out the build output and the project
+ * files), and deletes the files that are no longer in the sample.
+ *
+ * The sample gets an assembly definition (`<name>.asmdef`) that references the runtime
+ * assembly definition, unless it has one of its own.
+ *
+ * @param context - The package context
+ * @param sample - The sample
+ * @returns A Promise that resolves to the sample's folder in the package
+ */
+async function copySample(context: PackageContext, sample: Sample) {
+  const { options, packageMetadata, locations: { sampleFolder } } = context;
+  const target = resolve(sampleFolder, sample.name);
+  await ensureDirectoryExists(target);
+
+  const files = (await listFiles(sample.folder)).filter(file => !ignoredSampleFiles.some(pattern => pattern.test(file)));
+  for (const file of files) {
+    await ensureDirectoryExists(dirname(resolve(target, file)));
+    await copyFile(resolve(sample.folder, file), resolve(target, file));
+  }
+
+  const asmdef = `${sample.name}.asmdef`;
+  const generated = !files.some(file => extname(file).toLowerCase() === '.asmdef');
+  if (generated) {
+    await writeTextFile(resolve(target, asmdef), {
+      ...sampleAsmDefTemplate,
+      name: `${packageMetadata.name}.Samples.${sample.name}`,
+      references: options.asmdef !== false ? [packageMetadata.name] : [],
+    });
+  }
+
+  // remove the files from earlier runs (the .meta files are removed with them)
+  const kept = new Set([...files, ...generated ? [asmdef] : []].map(each => each.toLowerCase()));
+  for (const file of (await listFiles(target)).filter(each => !each.endsWith('.meta') && !kept.has(each.toLowerCase()))) {
+    await deleteFile(resolve(target, file));
+  }
+  return target;
+}
+
+/**
+ * Checks that a sample only uses the public types of the SDK (the assemblies in Runtime/
+ * and its subfolders).
+ *
+ * The types that the sample's assembly uses (its TypeRef table) are compared with the
+ * types that the SDK's assemblies make visible; using an internal type would only work
+ * because of `InternalsVisibleTo`, or not compile in Unity at all. A sample project that
+ * hasn't been built is built first (`dotnet build -c Release`); a sample that isn't a
+ * project can't be checked, which is reported as a warning.
+ *
+ * Each type that isn't public is reported as an error (`createSamples` fails when there are any).
+ *
+ * @param context - The package context
+ * @param sample - The sample
+ * @returns A Promise that resolves to the number of problems found
+ * @throws {Error} If the sample project fails to build
+ */
+export async function verifySampleReferences(context: PackageContext, sample: Sample) {
+  const { runtimeFolder } = context.locations;
+  if (!sample.project) {
+    warn(`${warning} Sample '${cyan(sample.name)}' is not a C# project, so the types it uses are not checked`);
+    return 0;
+  }
+  if (!sample.assembly || !await fileExists(sample.assembly)) {
+    info(`  Building the sample project '${cyan(sample.project)}'`);
+    const { exitCode, stdout, stderr } = await run('dotnet', 'build', '-c', 'Release', sample.project);
+    if (exitCode) {
+      throw new Error(`Failed to build the sample project '${sample.project}': ${stderr || stdout}`);
+    }
+  }
+  if (!sample.assembly || !await fileExists(sample.assembly)) {
+    warn(`${warning} Sample '${cyan(sample.name)}' has no build output${sample.assembly ? ` ('${sample.assembly}')` : ''}, so the types it uses are not checked`);
+    return 0;
+  }
+
+  // the public types of the SDK (including the assemblies in Runtime/Internal/), by assembly name
+  const sdk = new Map<string, Set<string>>();
+  for (const file of (await listFiles(runtimeFolder)).filter(each => extname(each).toLowerCase() === '.dll')) {
+    const data = await readFile(resolve(runtimeFolder, file));
+    const identity = readAssemblyIdentity(data);
+    if (identity) {
+      sdk.set(identity.name.toLowerCase(), readAssemblyTypes(data)!.visible);
+    }
+  }
+
+  const types = readAssemblyTypes(await readFile(sample.assembly));
+  const problems = new Set<string>();
+  for (const { assembly, type } of types?.references ?? []) {
+    const visible = sdk.get(assembly.toLowerCase());
+    if (visible && !visible.has(type)) {
+      problems.add(`'${type}' (${assembly})`);
+    }
+  }
+
+  for (const problem of problems) {
+    error(`  ${cross} Sample '${cyan(sample.name)}' uses ${problem}, which is not a public type of the SDK`);
+  }
+  if (!problems.size) {
+    verbose(`  ${check} Sample '${cyan(sample.name)}' only uses the public types of the SDK`);
+  }
+  return problems.size;
+}
+
+/**
+ * Puts the samples in the package (the `sample` option), for Unity Package Manager to import.
+ *
+ * Each sample (a folder, or a C# project; see `findSample`) is copied to `Samples~/<name>/`
+ * with its own assembly definition, and listed in the `samples` of the package.json (with
+ * its display name, description and path), so that the Package Manager shows an "Import"
+ * button for it. The types that a sample project uses are checked (see
+ * `verifySampleReferences`); using a type that isn't public is an error. The samples that
+ * are no longer given are removed.
+ *
+ * Without the `sample` option, Samples~/ and the `samples` in the package.json are left alone.
+ *
+ * @param context - The package context (the package metadata must be initialized)
+ * @returns A Promise that resolves to the samples
+ * @throws {Error} If a sample cannot be found, two samples have the same name, or a sample uses a type of the SDK that isn't public
+ *
+ * @example
+ * ```typescript
+ * await createSamples(context);
+ * await createPackageJson(packageJson, context.packageMetadata);
+ * ```
+ */
+export async function createSamples(context: PackageContext) {
+  const { options, packageMetadata, locations: { sampleFolder, packageFolder } } = context;
+  if (!options.sample) {
+    return [];
+  }
+
+  const samples = new Array<Sample>();
+  for (const path of [options.sample].flat()) {
+    const sample = await findSample(resolve(process.cwd(), path));
+    if (samples.some(each => each.name.toLowerCase() === sample.name.toLowerCase())) {
+      throw new Error(`There is more than one sample named '${sample.name}'`);
+    }
+    samples.push(sample);
+  }
+
+  await ensureDirectoryExists(sampleFolder);
+  let problems = 0;
+  for (const sample of samples) {
+    const target = await copySample(context, sample);
+    problems += await verifySampleReferences(context, sample);
+    info(`  ${check} Sample '${cyan(sample.displayName)}' in '${cyan(relative(packageFolder, target))}'`);
+  }
+  if (problems) {
+    throw new Error(`${problems} type(s) used by the samples are not public types of the SDK`);
+  }
+
+  // remove the samples from earlier runs
+  const names = new Set(samples.map(each => each.name.toLowerCase()));
+  for (const name of await readdir(sampleFolder)) {
+    const fullPath = resolve(sampleFolder, name);
+    if (!names.has(name.toLowerCase()) && await directoryExists(fullPath)) {
+      await deleteDirectory(fullPath);
+      info(`  ${check} Removed the sample '${cyan(name)}' (it is no longer given)`);
+    }
+  }
+
+  packageMetadata.samples = samples.map(({ name, displayName, description }) => ({ displayName, description, path: `Samples~/${name}` }));
+  return samples;
+}
@@ -0,0 +1,773 @@
+import { pluginPlatforms } from './meta';
+
+/**
+ * The type of an option value.
+ *
+ * - `string` - a string value
+ * - `path` - a string value that is a path (relative paths in a configuration file are relative to that file)
+ * - `boolean` - a flag (no value on the command line)
+ * - `number` - a numeric value
+ * - `map` - key/value pairs (`key=value` on the command line, an object in a configuration file)
+ */
+export type OptionType = 'string' | 'path' | 'boolean' | 'number' | 'map';
+
+/**
+ * The groups that options are shown in, in the help.
+ */
+export type OptionGroup = 'general' | 'metadata' | 'placeholders';
+
+/**
+ * The definition of an option.
+ */
+export interface OptionDefinition {
+  /** the type of the value */
+  type: OptionType;
+
+  /** the group the option is shown in, in the help */
+  group: OptionGroup;
+
+  /** a one-line description of the option */
+  description: string;
+
+  /** the command line flag, when it isn't `--<name>` (ie, `--print-config`) */
+  flag?: string;
+
+  /** the name of the value, shown in the help (ie, `<path>`) */
+  argument?: string;
+
+  /** an example of the option, shown in the help */
+  example?: string;
+
+  /** the default value, shown in the help */
+  defaultValue?: string;
+
+  /** the option is required to build a package */
+  required?: boolean;
+
+  /** the option can be given more than once (the value is an array) */
+  repeatable?: boolean;
+
+  /** the option is not shown in the help */
+  hidden?: boolean;
+
+  /** checks the value, returning a description of the problem (or undefined if it is valid) */
+  validate?: (value: any) => string | undefined;
+}
+
+/**
+ * Checks that a value is a valid UPM package name.
+ *
+ * Unity package names use reverse domain name notation (ie, `com.company.package`),
+ * are at most 214 characters long, and only contain lowercase letters, digits,
+ * hyphens, underscores and periods.
+ *
+ * @param value - The package name to check
+ * @returns A description of the problem, or undefined if the name is valid
+ *
+ * @example
+ * ```typescript
+ * validatePackageName('com.mycompany.api'); // undefined
+ * validatePackageName('My Package'); // 'must be in reverse domain notation ...'
+ * ```
+ */
+export function validatePackageName(value: string) {
+  if (value.length > 214) {
+    return 'must be at most 214 characters long';
+  }
+  if (!/^[a-z0-9][a-z0-9_-]*(\.[a-z0-9][a-z0-9_-]*)+$/.test(value)) {
+    return 'must be in reverse domain notation, using lowercase letters, digits, hyphens and underscores (ie, com.mycompany.mypackage)';
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a value is a valid semantic version (https://semver.org).
+ *
+ * @param value - The version to check
+ * @returns A description of the problem, or undefined if the version is valid
+ *
+ * @example
+ * ```typescript
+ * validateVersion('1.2.3-preview.1'); // undefined
+ * validateVersion('banana'); // 'must be a semantic version ...'
+ * ```
+ */
+export function validateVersion(value: string) {
+  if (!/^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/.test(value)) {
+    return 'must be a semantic version (ie, 1.2.3 or 1.2.3-preview.1)';
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a value is an absolute http(s) URL.
+ *
+ * @param value - The URL to check
+ * @returns A description of the problem, or undefined if the URL is valid
+ *
+ * @example
+ * ```typescript
+ * validateUrl('https://docs.example.com'); // undefined
+ * validateUrl('docs.example.com'); // 'must be an absolute http or https URL'
+ * ```
+ */
+export function validateUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    if (protocol === 'http:' || protocol === 'https:') {
+      return undefined;
+    }
+  } catch {
+    // fall through
+  }
+  return 'must be an absolute http or https URL';
+}
+
+/**
+ * Checks the `packageFiles` option: each entry must be an object with only `files`,
+ * `excludeFiles` (glob patterns) and `preserveFolders`.
+ *
+ * @param value - The option value (keyed by package id)
+ * @returns A description of the problem, or undefined if the value is valid
+ *
+ * @example
+ * ```typescript
+ * validatePackageFiles({ 'Newtonsoft.Json': { files: 'lib/netstandard2.0/*.dll' } }); // undefined
+ * validatePackageFiles({ 'Newtonsoft.Json': { file: 'lib/netstandard2.0/*.dll' } }); // 'has an unknown setting ...'
+ * ```
+ */
+export function validatePackageFiles(value: Record<string, any>) {
+  const patterns = (each: any) => each === undefined || typeof each === 'string' || (Array.isArray(each) && each.every(pattern => typeof pattern === 'string'));
+  for (const [id, entry] of Object.entries(value)) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return `must have an object for each package (got '${id}': ${JSON.stringify(entry)})`;
+    }
+    const unknown = Object.keys(entry).find(key => !['files', 'excludeFiles', 'preserveFolders'].includes(key));
+    if (unknown) {
+      return `has an unknown setting '${unknown}' for '${id}' (expected files, excludeFiles or preserveFolders)`;
+    }
+    if (!patterns(entry.files) || !patterns(entry.excludeFiles)) {
+      return `must have glob patterns (a string or an array of strings) in files and excludeFiles for '${id}'`;
+    }
+    if (entry.preserveFolders !== undefined && typeof entry.preserveFolders !== 'boolean') {
+      return `must have true or false in preserveFolders for '${id}'`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks the `upmPackage` option: each value must be a UPM package reference (`<name>@<version>`,
+ * with a valid package name and version), or empty.
+ *
+ * @param value - The option value (keyed by NuGet package id)
+ * @returns A description of the problem, or undefined if the value is valid
+ *
+ * @example
+ * ```typescript
+ * validateUpmPackages({ 'Newtonsoft.Json': 'com.unity.nuget.newtonsoft-json@3.2.1' }); // undefined
+ * validateUpmPackages({ 'Newtonsoft.Json': 'com.unity.nuget.newtonsoft-json' }); // 'must be <name>@<version> ...'
+ * ```
+ */
+export function validateUpmPackages(value: Record<string, any>) {
+  for (const [id, reference] of Object.entries(value)) {
+    if (typeof reference !== 'string') {
+      return `must have a string for each package (got '${id}': ${JSON.stringify(reference)})`;
+    }
+    if (!reference.trim()) {
+      continue;
+    }
+    const [, name, version] = /^([^@\s]+)@(\S+)$/.exec(reference.trim()) ?? [];
+    const problem = name ? validatePackageName(name) ?? validateVersion(version) : 'must be <name>@<version>';
+    if (problem) {
+      return `${problem} (for '${id}')`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks the `plugins` option: each entry must be an object with only the settings in
+ * `PluginSettings`, and the platforms must be in `pluginPlatforms`.
+ *
+ * @param value - The option value (keyed by glob pattern)
+ * @returns A description of the problem, or undefined if the value is valid
+ *
+ * @example
+ * ```typescript
+ * validatePluginSettings({ 'Runtime/Internal/*.dll': { excludePlatforms: ['WebGL'] } }); // undefined
+ * validatePluginSettings({ 'Runtime/Internal/*.dll': { excludePlatforms: ['Web'] } }); // 'has an unknown platform ...'
+ * ```
+ */
+export function validatePluginSettings(value: Record<string, any>) {
+  const booleans = ['isExplicitlyReferenced', 'validateReferences', 'isPreloaded'];
+  const lists = ['defineConstraints', 'includePlatforms', 'excludePlatforms'];
+  for (const [pattern, entry] of Object.entries(value)) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return `must have an object for each pattern (got '${pattern}': ${JSON.stringify(entry)})`;
+    }
+    for (const [key, setting] of Object.entries(entry)) {
+      if (booleans.includes(key)) {
+        if (typeof setting !== 'boolean') {
+          return `must have true or false in ${key} for '${pattern}'`;
+        }
+      } else if (lists.includes(key)) {
+        if (!Array.isArray(setting) || !setting.every(each => typeof each === 'string')) {
+          return `must have an array of strings in ${key} for '${pattern}'`;
+        }
+        const unknown = key.endsWith('Platforms') && setting.find(each => !(each in pluginPlatforms));
+        if (unknown) {
+          return `has an unknown platform '${unknown}' for '${pattern}' (expected ${Object.keys(pluginPlatforms).join(', ')})`;
+        }
+      } else {
+        return `has an unknown setting '${key}' for '${pattern}' (expected ${[...booleans, ...lists].join(', ')})`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks a platform name for an assembly definition (ie, `Editor`, `WebGL` or `WindowsStandalone64`).
+ *
+ * @param value - The platform name
+ * @returns A description of the problem, or undefined if the value is valid
+ */
+export function validateAsmDefPlatform(value: string) {
+  return /^[A-Za-z][A-Za-z0-9]*$/.test(value) ? undefined : 'must be a Unity platform name (ie, Editor, WebGL or WindowsStandalone64)';
+}
+
+/**
+ * Checks the `versionDefines` option: each value must be `<package>@<expression>`, where
+ * the expression is a version or a version range (ie, `[3.0,4.0)`).
+ *
+ * @param value - The option value (keyed by scripting symbol)
+ * @returns A description of the problem, or undefined if the value is valid
+ *
+ * @example
+ * ```typescript
+ * validateVersionDefines({ HAS_NEWTONSOFT: 'com.unity.nuget.newtonsoft-json@[3.0,4.0)' }); // undefined
+ * validateVersionDefines({ HAS_NEWTONSOFT: 'com.unity.nuget.newtonsoft-json' }); // 'must be <package>@<expression> ...'
+ * ```
+ */
+export function validateVersionDefines(value: Record<string, any>) {
+  for (const [symbol, define] of Object.entries(value)) {
+    if (!/^[A-Za-z_]\w*$/.test(symbol)) {
+      return `must be keyed by scripting symbols (got '${symbol}')`;
+    }
+    if (typeof define !== 'string' || !/^[^@\s]+@\S+$/.test(define)) {
+      return `must be <package>@<expression> (got '${symbol}': ${JSON.stringify(define)})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The options that the tool supports.
+ *
+ * This schema is used to parse the command line, validate the merged options
+ * (from the command line, environment variables and configuration files), and
+ * generate the help.
+ */
+export const optionSchema: Record<string, OptionDefinition> = {
+  sln: {
+    type: 'path', group: 'general', argument: '<path>', required: true,
+    description: 'Path to the .NET solution file (.sln) to build and package',
+    example: './MyProject.sln',
+    validate: (value: string) => value.toLowerCase().endsWith('.sln') ? undefined : 'must be a .sln file',
+  },
+  project: {
+    type: 'path', group: 'general', argument: '<path>', defaultValue: 'the only eligible project',
+    description: 'The project in the solution to create the package from',
+    example: './MyApi/MyApi.csproj',
+    validate: (value: string) => value.toLowerCase().endsWith('proj') ? undefined : 'must be a project file (ie, .csproj)',
+  },
+  allProjects: {
+    type: 'boolean', group: 'general', flag: '--all-projects',
+    description: 'Create a package for each eligible project in the solution',
+  },
+  projects: {
+    type: 'map', group: 'general', hidden: true,
+    description: 'Options for each project (with --all-projects), keyed by project name (configuration files only)',
+  },
+  excludePackage: {
+    type: 'string', group: 'general', flag: '--exclude-package', argument: '<id>', repeatable: true,
+    description: 'Do not bundle a NuGet package, even if the project depends on it (can be repeated)',
+    example: 'System.Buffers',
+  },
+  packageFiles: {
+    type: 'map', group: 'general', hidden: true,
+    description: 'The files to extract from each NuGet package, keyed by package id (configuration files only)',
+    validate: validatePackageFiles,
+  },
+  upmPackage: {
+    type: 'map', group: 'general', flag: '--upm-package', argument: '<id>=<name>@<version>', repeatable: true,
+    description: 'Depend on a UPM package instead of bundling a NuGet package (an empty value bundles it; can be repeated)',
+    example: 'Newtonsoft.Json=com.unity.nuget.newtonsoft-json@3.2.1',
+    validate: validateUpmPackages,
+  },
+  plugins: {
+    type: 'map', group: 'general', hidden: true,
+    description: 'The importer settings of the .dll files in the package, keyed by glob pattern (configuration files only)',
+    validate: validatePluginSettings,
+  },
+  renameAsset: {
+    type: 'map', group: 'general', flag: '--rename-asset', argument: '<old path>=<new path>', repeatable: true,
+    description: 'Give a renamed asset the GUID of its old path in the GUID registry (paths in the package; can be repeated)',
+    example: 'Runtime/MyApi.dll=Runtime/MyCompany.Api.dll',
+  },
+  preserveFolders: {
+    type: 'boolean', group: 'general', flag: '--preserve-folders',
+    description: 'Keep the subfolders of the files extracted from the NuGet packages (ie, for satellite resource assemblies)',
+  },
+  includeDocs: {
+    type: 'boolean', group: 'general', flag: '--include-docs',
+    description: 'Put the XML documentation of the build output in the package (for IntelliSense)',
+  },
+  includeDependencyDocs: {
+    type: 'boolean', group: 'general', flag: '--include-dependency-docs',
+    description: 'Put the XML documentation of the bundled NuGet packages in the package',
+  },
+  includeSymbols: {
+    type: 'boolean', group: 'general', flag: '--include-symbols',
+    description: 'Put the portable PDBs in the package (for debugging), unless the symbols are embedded in the assemblies',
+  },
+  sample: {
+    type: 'path', group: 'general', flag: '--sample', argument: '<path>', repeatable: true,
+    description: 'A sample to put in Samples~/ (a folder, or a C# project; can be repeated)',
+    example: './Samples/QuickStart/QuickStart.csproj',
+  },
+  asmdef: {
+    type: 'boolean', group: 'general', defaultValue: 'true',
+    description: 'Generate assembly definitions for Runtime/ and Runtime/Internal/ (--asmdef false leaves them out)',
+  },
+  rootNamespace: {
+    type: 'string', group: 'general', flag: '--root-namespace', argument: '<namespace>',
+    description: 'The root namespace of the assembly definitions',
+    example: 'MyCompany.Api',
+    validate: (value: string) => /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(value) ? undefined : 'must be a namespace (ie, MyCompany.Api)',
+  },
+  includePlatforms: {
+    type: 'string', group: 'general', flag: '--include-platforms', argument: '<platform>', repeatable: true,
+    description: 'The only platforms to compile the assembly definitions for (can be repeated)',
+    example: 'Editor',
+    validate: validateAsmDefPlatform,
+  },
+  excludePlatforms: {
+    type: 'string', group: 'general', flag: '--exclude-platforms', argument: '<platform>', repeatable: true,
+    description: 'The platforms not to compile the assembly definitions for (can be repeated)',
+    example: 'WebGL',
+    validate: validateAsmDefPlatform,
+  },
+  defineConstraints: {
+    type: 'string', group: 'general', flag: '--define-constraints', argument: '<symbol>', repeatable: true,
+    description: 'Only compile the assembly definitions when these scripting symbols are defined (! negates; can be repeated)',
+    example: 'UNITY_2021_3_OR_NEWER',
+    validate: (value: string) => /^!?[A-Za-z_]\w*$/.test(value) ? undefined : 'must be a scripting symbol (ie, UNITY_2021_3_OR_NEWER)',
+  },
+  versionDefines: {
+    type: 'map', group: 'general', flag: '--version-defines', argument: '<symbol>=<package>@<expression>', repeatable: true,
+    description: 'Define a scripting symbol in the assembly definitions when a package (or module) version is in range (can be repeated)',
+    example: 'HAS_NEWTONSOFT=com.unity.nuget.newtonsoft-json@[3.0,4.0)',
+    validate: validateVersionDefines,
+  },
+  allowUnsafeCode: {
+    type: 'boolean', group: 'general', flag: '--allow-unsafe-code',
+    description: 'Allow unsafe code in the assembly definitions',
+  },
+  autoReferenced: {
+    type: 'boolean', group: 'general', flag: '--auto-referenced', defaultValue: 'true',
+    description: 'Reference the runtime assembly definition from the predefined assemblies (ie, Assembly-CSharp)',
+  },
+  editor: {
+    type: 'boolean', group: 'general', flag: '--editor',
+    description: 'Generate the Editor layer: a settings asset for the SDK (environment, base URL, API key) and a page in Project Settings',
+  },
+  editorTemplates: {
+    type: 'path', group: 'general', flag: '--editor-templates', argument: '<folder>',
+    description: 'A folder of templates that replace (or add to) the built-in templates of the Editor layer',
+    example: './unity-templates',
+  },
+  apiCompatibility: {
+    type: 'string', group: 'general', flag: '--api-compatibility', argument: '<level>', defaultValue: 'netstandard2.1',
+    description: 'The Unity API compatibility level to pick the NuGet package assemblies for (netstandard2.1 or netframework)',
+    example: 'netframework',
+    validate: (value: string) => ['netstandard2.1', 'netframework'].includes(value) ? undefined : `must be 'netstandard2.1' or 'netframework'`,
+  },
+  conflicts: {
+    type: 'string', group: 'general', argument: '<policy>', defaultValue: 'error',
+    description: 'What to do when an assembly would be in the package more than once (error, highest, internal or runtime)',
+    example: 'highest',
+    validate: (value: string) => ['error', 'highest', 'internal', 'runtime'].includes(value) ? undefined : `must be 'error', 'highest', 'internal' or 'runtime'`,
+  },
+  allowReference: {
+    type: 'string', group: 'general', flag: '--allow-reference', argument: '<name>', repeatable: true,
+    description: 'An assembly that the packaged assemblies may reference without it being in the package or in Unity (* is a wildcard; can be repeated)',
+    example: 'Microsoft.Extensions.*',
+  },
+  locked: {
+    type: 'boolean', group: 'general',
+    description: 'Fail if the bundled NuGet packages don\'t match unity-sdk.lock.json (which is not updated)',
+  },
+  updateLock: {
+    type: 'boolean', group: 'general', flag: '--update-lock',
+    description: 'Replace the entries in unity-sdk.lock.json with the bundled NuGet packages',
+  },
+  offline: {
+    type: 'boolean', group: 'general',
+    description: 'Never download; take the NuGet packages from the global packages folder and the local feeds',
+  },
+  localFeed: {
+    type: 'path', group: 'general', flag: '--local-feed', argument: '<path>', repeatable: true,
+    description: 'A folder of NuGet packages (flat or hierarchical) to take packages from before downloading (can be repeated)',
+    example: './packages',
+  },
+  nugetConfig: {
+    type: 'path', group: 'general', flag: '--nuget-config', argument: '<path>', defaultValue: 'the nuget.config files next to the solution and above',
+    description: 'The NuGet configuration file with the package sources and credentials to download from',
+    example: './nuget.config',
+  },
+  downloadRetries: {
+    type: 'number', group: 'general', flag: '--download-retries', argument: '<count>', defaultValue: '3',
+    description: 'How many times to retry a NuGet download that fails with a network error, a timeout or a server error',
+    validate: (value: number) => Number.isInteger(value) && value >= 0 ? undefined : 'must be a whole number, zero or more',
+  },
+  downloadTimeout: {
+    type: 'number', group: 'general', flag: '--download-timeout', argument: '<seconds>', defaultValue: '100',
+    description: 'How long each NuGet request may take',
+    validate: (value: number) => value > 0 ? undefined : 'must be more than zero',
+  },
+  downloadConcurrency: {
+    type: 'number', group: 'general', flag: '--download-concurrency', argument: '<count>', defaultValue: '4',
+    description: 'How many NuGet packages to download at the same time',
+    validate: (value: number) => Number.isInteger(value) && value >= 1 ? undefined : 'must be a whole number, one or more',
+  },
+  noticesHeader: {
+    type: 'path', group: 'general', flag: '--notices-header', argument: '<path>', defaultValue: 'a title and a short introduction',
+    description: 'A Markdown template for the top of Third Party Notices.md (placeholders are replaced)',
+    example: './notices-header.md',
+  },
+  noticesFooter: {
+    type: 'path', group: 'general', flag: '--notices-footer', argument: '<path>',
+    description: 'A Markdown template for the bottom of Third Party Notices.md (placeholders are replaced)',
+    example: './notices-footer.md',
+  },
+  target: {
+    type: 'path', group: 'general', argument: '<path>', defaultValue: './output',
+    description: 'Output directory for the Unity package',
+    example: './my-unity-package',
+  },
+  package: {
+    type: 'path', group: 'general', argument: '<path>', defaultValue: '<target>/..',
+    description: 'Parent directory for the final .tgz package',
+    example: './packages',
+  },
+  rebuild: {
+    type: 'boolean', group: 'general',
+    description: 'Force rebuild the solution even if build output exists',
+  },
+  clean: {
+    type: 'boolean', group: 'general',
+    description: 'Clean output and temp folders before running',
+  },
+  reset: {
+    type: 'boolean', group: 'general',
+    description: 'Clean output and temp folders, then exit',
+  },
+  dryRun: {
+    type: 'boolean', group: 'general', flag: '--dry-run',
+    description: 'Show what would be built, downloaded, copied and created, without changing anything',
+  },
+  watch: {
+    type: 'boolean', group: 'general',
+    description: 'Keep running, and rerun the affected stages when the sources or resource files change',
+  },
+  watchPack: {
+    type: 'boolean', group: 'general', flag: '--watch-pack',
+    description: 'In watch mode, re-pack the .tgz after each change',
+  },
+  watchDelay: {
+    type: 'number', group: 'general', flag: '--watch-delay', argument: '<ms>', defaultValue: '300',
+    description: 'In watch mode, how long to wait after the last change before rerunning',
+    validate: (value: number) => value >= 0 ? undefined : 'must be zero or more',
+  },
+  json: {
+    type: 'boolean', group: 'general',
+    description: 'Emit NDJSON events and a final summary on stdout (same as --reporter json)',
+  },
+  reporter: {
+    type: 'string', group: 'general', argument: '<format>', defaultValue: 'text',
+    description: 'The output format (text or json)',
+    example: 'json',
+    validate: (value: string) => ['text', 'json'].includes(value) ? undefined : `must be 'text' or 'json'`,
+  },
+  verbose: {
+    type: 'boolean', group: 'general',
+    description: 'Enable verbose output (moderate detail)',
+  },
+  debug: {
+    type: 'boolean', group: 'general',
+    description: 'Enable debug output (very detailed)',
+  },
+  quiet: {
+    type: 'boolean', group: 'general',
+    description: 'Suppress normal output messages',
+  },
+  printConfig: {
+    type: 'boolean', group: 'general', flag: '--print-config',
+    description: 'Print the merged configuration and exit',
+  },
+  help: {
+    type: 'boolean', group: 'general',
+    description: 'Show this help (use with a command to see the help for that command)',
+  },
+  detailed: {
+    type: 'boolean', group: 'general',
+    description: 'Show placeholder information and examples in the help',
+  },
+  h: {
+    type: 'boolean', group: 'general', hidden: true,
+    description: 'Show the help',
+  },
+
+  name: {
+    type: 'string', group: 'metadata', argument: '<name>', defaultValue: 'derived from solution file',
+    description: 'Package name',
+    example: 'com.mycompany.mypackage',
+    validate: validatePackageName,
+  },
+  version: {
+    type: 'string', group: 'metadata', argument: '<version>', defaultValue: 'from the SDK project',
+    description: 'Package version',
+    example: '1.2.3',
+    validate: validateVersion,
+  },
+  company: {
+    type: 'string', group: 'metadata', argument: '<company>',
+    description: 'Company name for the package',
+    example: '"My Company Inc."',
+  },
+  displayName: {
+    type: 'string', group: 'metadata', argument: '<name>',
+    description: 'Display name shown in Unity Package Manager',
+    example: '"My Awesome Package"',
+  },
+  description: {
+    type: 'string', group: 'metadata', argument: '<text>',
+    description: 'Package description',
+    example: '"A powerful Unity package for..."',
+  },
+  author: {
+    type: 'string', group: 'metadata', argument: '<author>',
+    description: 'Package author',
+    example: '"John Doe <john@example.com>"',
+  },
+  license: {
+    type: 'string', group: 'metadata', argument: '<license>',
+    description: 'License type or text',
+    example: '"MIT"',
+  },
+  changelogUrl: {
+    type: 'string', group: 'metadata', argument: '<url>',
+    description: 'URL to the changelog',
+    example: '"https://github.com/user/repo/blob/main/CHANGELOG.md"',
+    validate: validateUrl,
+  },
+  documentationUrl: {
+    type: 'string', group: 'metadata', argument: '<url>',
+    description: 'URL to the documentation',
+    example: '"https://docs.example.com"',
+    validate: validateUrl,
+  },
+
+  packageName: {
+    type: 'string', group: 'placeholders', argument: '<name>',
+    description: 'Package name for OpenUPM (used by ${packageName})',
+  },
+  packageScope: {
+    type: 'string', group: 'placeholders', argument: '<scope>',
+    description: 'Package scope for OpenUPM (used by ${packageScope})',
+  },
+  repoUrl: {
+    type: 'string', group: 'placeholders', argument: '<url>',
+    description: 'Repository URL (used by ${repoUrl})',
+    validate: validateUrl,
+  },
+  placeholder: {
+    type: 'map', group: 'placeholders', argument: '<key=value>', repeatable: true,
+    description: 'Set the value of any other ${key} placeholder in the resource files',
+    example: 'supportEmail=help@example.com',
+  },
+};
+
+/**
+ * The names of the options that are required to build a package.
+ */
+export const requiredOptions = Object.keys(optionSchema).filter(key => optionSchema[key].required);
+
+/**
+ * Calculates the edit distance between two strings.
+ *
+ * @param a - The first string
+ * @param b - The second string
+ * @returns The number of single character edits to change one string into the other
+ */
+function distance(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Finds the known option that is closest to an unknown option name.
+ *
+ * @param name - The unknown option name
+ * @returns The closest option name, or undefined if nothing is close enough
+ *
+ * @example
+ * ```typescript
+ * suggestOption('verison'); // 'version'
+ * ```
+ */
+export function suggestOption(name: string) {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3));
+  for (const key of Object.keys(optionSchema)) {
+    if (optionSchema[key].hidden) {
+      continue;
+    }
+    const d = distance(name.toLowerCase(), key.toLowerCase());
+    if (d <= bestDistance) {
+      best = key;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/**
+ * Gets the command line flag for an option (ie, `--displayName` or `--print-config`).
+ *
+ * @param name - The option name
+ * @returns The command line flag
+ */
+export function flag(name: string) {
+  return optionSchema[name]?.flag ?? `--${name}`;
+}
+
+/**
+ * Converts a value to the type of an option.
+ *
+ * @param definition - The option definition
+ * @param value - The value to convert
+ * @returns The converted value, or an Error describing why it could not be converted
+ */
+function coerce(definition: OptionDefinition, value: any): any {
+  switch (definition.type) {
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (value === 'true' || value === 'false') {
+        return value === 'true';
+      }
+      return new Error('must be true or false');
+
+    case 'number':
+      const num = typeof value === 'number' ? value : Number(value);
+      return typeof value !== 'boolean' && Number.isFinite(num) ? num : new Error('must be a number');
+
+    case 'map':
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return value;
+      }
+      const map: Record<string, string> = {};
+      for (const each of Array.isArray(value) ? value : [value]) {
+        const match = typeof each === 'string' ? /^([^=]+)=(.*)$/.exec(each) : null;
+        if (!match) {
+          return new Error('must be key=value');
+        }
+        map[match[1]] = match[2];
+      }
+      return map;
+
+    default:
+      return typeof value === 'string' ? value : new Error('must have a value');
+  }
+}
+
+/**
+ * Validates the merged options against the schema, and converts the values to the right types.
+ *
+ * This checks for unknown options (with a suggestion for the closest known option),
+ * options that are given more than once when they can't be, values of the wrong
+ * type, and values that fail the option's validator.
+ *
+ * @param options - The merged options
+ * @param sources - The source of each option value (used in the messages)
+ * @param required - The names of the options that must have a value
+ * @returns The converted options, and a description of each problem found
+ *
+ * @example
+ * ```typescript
+ * const { problems } = validateOptions({ version: 'banana' }, { version: 'command line' });
+ * // ["--version 'banana' (from command line) must be a semantic version (ie, 1.2.3 or 1.2.3-preview.1)"]
+ * ```
+ */
+export function validateOptions(options: Record<string, any>, sources: Record<string, string> = {}, required = new Array<string>()) {
+  const result: Record<string, any> = {};
+  const problems = new Array<string>();
+
+  for (const [key, value] of Object.entries(options)) {
+    const from = sources[key] ? ` (from ${sources[key]})` : '';
+    const definition = optionSchema[key];
+
+    if (!definition) {
+      const suggestion = suggestOption(key);
+      problems.push(`Unknown option ${flag(key)}${from}${suggestion ? ` - did you mean ${flag(suggestion)}?` : ''}`);
+      continue;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length > 1 && !definition.repeatable) {
+      problems.push(`${flag(key)}${from} can only be given once (got ${values.map(each => `'${each}'`).join(', ')})`);
+      continue;
+    }
+
+    const converted = definition.type === 'map' ? coerce(definition, value) :
+      definition.repeatable ? values.map(each => coerce(definition, each)) :
+        coerce(definition, value);
+
+    const invalid = [converted].flat().find(each => each instanceof Error);
+    if (invalid) {
+      problems.push(`${flag(key)}${from} ${invalid.message}`);
+      continue;
+    }
+
+    if (definition.validate) {
+      for (const each of [converted].flat()) {
+        const problem = definition.validate(each);
+        if (problem) {
+          problems.push(`${flag(key)} '${typeof each === 'object' ? JSON.stringify(each) : each}'${from} ${problem}`);
+        }
+      }
+    }
+    result[key] = converted;
+  }
+
+  for (const key of required) {
+    if (result[key] === undefined) {
+      problems.push(`Missing required option ${flag(key)} ${optionSchema[key]?.argument ?? ''}`.trim());
+    }
+  }
+
+  return { options: result, problems };
+}
@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict';
+import { copyFile, mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { homedir, tmpdir } from 'node:os';
+import { resolve } from 'node:path';
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { readAssembly, readAssemblyIdentity, readAssemblyTypes } from '../assembly';
+import { createContext, PackageContext } from '../context';
+import { fileExists } from '../filesystem';
+import { configureOutput, stripAnsi } from '../output';
+import { verifyReferences } from '../references';
+import { verifySampleReferences } from '../samples';
+
+/**
+ * The fixture assemblies (netstandard2.1), built from the projects next to them with
+ * `dotnet build -c Release` (and `-p:DefineConstants=V1` for Fixture.Dep.1.0.0.0.dll):
+ *
+ * - `Fixture.Dep.dll` (2.0.0.0) and `Fixture.Dep.1.0.0.0.dll` (1.0.0.0) - `Widget` and `Widget/Part`
+ * - `Fixture.Sdk.dll` (1.2.3.4) - references Fixture.Dep 2.0.0.0; public, nested, protected, private and internal types
+ * - `Fixture.Sample.dll` - uses public types of Fixture.Sdk, and its internal `Hidden` type (through InternalsVisibleTo)
+ */
+const fixtures = resolve(__dirname, '..', '..', 'src', 'test', 'fixtures', 'assemblies');
+
+const fixture = (name: string) => readFile(resolve(fixtures, name));
+
+/**
+ * Captures the errors (or warnings) that are reported, instead of writing them to the console.
+ */
+function capture(method: 'error' | 'warn') {
+  const { mock: messages } = mock.method(console, method, () => undefined);
+  return () => messages.calls.map(each => stripAnsi(each.arguments.join(' ')).trim());
+}
+
+/**
+ * Finds the netstandard.dll reference assembly of an installed .NET SDK (a large assembly, with 4-byte heap and table indexes).
+ */
+async function findNetStandard() {
+  const roots = [process.env.DOTNET_ROOT, resolve(homedir(), '.dotnet'), '/usr/share/dotnet', '/usr/lib/dotnet', '/usr/local/share/dotnet', 'C:\\Program Files\\dotnet'];
+  for (const root of roots.filter(each => each !== undefined)) {
+    const file = resolve(root, 'packs', 'NETStandard.Library.Ref', '2.1.0', 'ref', 'netstandard2.1', 'netstandard.dll');
+    if (await fileExists(file)) {
+      return file;
+    }
+  }
+  return undefined;
+}
+
+describe('readAssembly', () => {
+  it('reads the identity and the AssemblyRef table', async () => {
+    assert.deepEqual(readAssembly(await fixture('Fixture.Sdk.dll')), {
+      identity: { name: 'Fixture.Sdk', version: '1.2.3.4', culture: undefined, publicKeyToken: undefined },
+      references: [
+        { name: 'netstandard', version: '2.1.0.0', culture: undefined, publicKeyToken: 'cc7b13ffcd2ddd51' },
+        { name: 'Fixture.Dep', version: '2.0.0.0', culture: undefined, publicKeyToken: undefined },
+      ],
+    });
+    assert.equal(readAssemblyIdentity(await fixture('Fixture.Dep.1.0.0.0.dll'))?.version, '1.0.0.0');
+  });
+
+  it('reads the tables from an uncompressed (#-) stream', async () => {
+    const data = await fixture('Fixture.Sdk.dll');
+    const compressed = data.indexOf(Buffer.from('#~\0\0'));
+    assert.ok(compressed > 0);
+    const uncompressed = Buffer.from(data);
+    uncompressed.write('#-', compressed, 'ascii');
+
+    assert.deepEqual(readAssembly(uncompressed), readAssembly(data));
+    assert.deepEqual(readAssemblyTypes(uncompressed), readAssemblyTypes(data));
+  });
+
+  it('returns undefined for a file that is not a .NET assembly', () => {
+    assert.equal(readAssembly(Buffer.from('MZ, but not really')), undefined);
+    assert.equal(readAssembly(Buffer.alloc(0)), undefined);
+  });
+
+  it('reads an assembly with 4-byte heap and coded indexes', async (t) => {
+    const file = await findNetStandard();
+    if (!file) {
+      t.skip('the .NET SDK (NETStandard.Library.Ref) is not installed');
+      return;
+    }
+    const data = await readFile(file);
+    assert.deepEqual(readAssembly(data), {
+      identity: { name: 'netstandard', version: '2.1.0.0', culture: undefined, publicKeyToken: 'cc7b13ffcd2ddd51' },
+      references: [],
+    });
+    const { visible } = readAssemblyTypes(data)!;
+    assert.ok(visible.has('System.Object'));
+    assert.ok(visible.has('System.Environment/SpecialFolder'));
+    assert.ok(visible.has('System.Collections.Generic.List`1/Enumerator'));
+  });
+});
+
+describe('readAssemblyTypes', () => {
+  it('reads the visible types, with nested types', async () => {
+    const { visible } = readAssemblyTypes(await fixture('Fixture.Sdk.dll'))!;
+    assert.deepEqual([...visible].sort(), [
+      'Fixture.Sdk.Client',
+      'Fixture.Sdk.Client/Handler',
+      'Fixture.Sdk.Client/Options',
+      'Fixture.Sdk.Models.Status',
+      'Fixture.Sdk.Token',
+    ]);
+  });
+
+  it('resolves the type references to their assemblies, with nested type references', async () => {
+    const { references } = readAssemblyTypes(await fixture('Fixture.Sdk.dll'))!;
+    assert.deepEqual(references.filter(each => each.assembly === 'Fixture.Dep'), [
+      { assembly: 'Fixture.Dep', type: 'Fixture.Dep.Widget' },
+      { assembly: 'Fixture.Dep', type: 'Fixture.Dep.Widget/Part' },
+    ]);
+    assert.ok(references.some(each => each.assembly === 'netstandard' && each.type === 'System.Environment/SpecialFolder'));
+  });
+});
+
+describe('verifyReferences', () => {
+  let folder: string;
+  let context: PackageContext;
+  let errors: () => string[];
+
+  const install = async (name: string, target = name) => {
+    await mkdir(context.locations.runtimeFolder, { recursive: true });
+    await copyFile(resolve(fixtures, name), resolve(context.locations.runtimeFolder, target));
+  };
+
+  before(() => {
+    configureOutput({ quiet: true });
+  });
+
+  beforeEach(async () => {
+    folder = await mkdtemp(resolve(tmpdir(), 'make-unity-sdk-assembly-'));
+    context = createContext({ target: resolve(folder, 'package') });
+    errors = capture('error');
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await rm(folder, { recursive: true, force: true });
+  });
+
+  it('accepts references to the package, and to the netstandard2.1 profile', async () => {
+    await install('Fixture.Sdk.dll');
+    await install('Fixture.Dep.dll');
+    assert.equal(await verifyReferences(context), 0);
+  });
+
+  it('reports a reference to a higher version than the package has', async () => {
+    await install('Fixture.Sdk.dll');
+    await install('Fixture.Dep.1.0.0.0.dll', 'Fixture.Dep.dll');
+    assert.equal(await verifyReferences(context), 1);
+    assert.deepEqual(errors(), [
+      `✗ Fixture.Dep 2.0.0.0 is referenced, but the package has 1.0.0.0 ('Runtime/Fixture.Dep.dll'): referenced by 'Runtime/Fixture.Sdk.dll'`,
+    ]);
+  });
+
+  it('reports a reference to an assembly that is not in the package, unless it is allowed', async () => {
+    await install('Fixture.Sdk.dll');
+    assert.equal(await verifyReferences(context), 1);
+    assert.match(errors()[0], /Fixture\.Dep 2\.0\.0\.0 is referenced, but it isn't in the package or in Unity's netstandard2\.1 profile/);
+
+    context.options.allowReference = ['Fixture.*'];
+    assert.equal(await verifyReferences(context), 0);
+  });
+
+  it('finds the assemblies in the subfolders of Runtime/', async () => {
+    await install('Fixture.Sdk.dll');
+    await mkdir(context.locations.internalAssemblyFolder, { recursive: true });
+    await copyFile(resolve(fixtures, 'Fixture.Dep.dll'), resolve(context.locations.internalAssemblyFolder, 'Fixture.Dep.dll'));
+    assert.equal(await verifyReferences(context), 0);
+  });
+});
+
+describe('verifySampleReferences', () => {
+  let folder: string;
+  let context: PackageContext;
+  let errors: () => string[];
+  let warnings: () => string[];
+
+  const sample = { name: 'QuickStart', folder: fixtures, project: resolve(fixtures, 'Fixture.Sample', 'Fixture.Sample.csproj'), assembly: resolve(fixtures, 'Fixture.Sample.dll'), displayName: 'Quick Start', description: '' };
+
+  before(() => {
+    configureOutput({ quiet: true });
+  });
+
+  beforeEach(async () => {
+    folder = await mkdtemp(resolve(tmpdir(), 'make-unity-sdk-sample-'));
+    context = createContext({ target: resolve(folder, 'package') });
+    await mkdir(context.locations.runtimeFolder, { recursive: true });
+    errors = capture('error');
+    warnings = capture('warn');
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await rm(folder, { recursive: true, force: true });
+  });
+
+  it('reports the types of the SDK that are not public', async () => {
+    await copyFile(resolve(fixtures, 'Fixture.Sdk.dll'), resolve(context.locations.runtimeFolder, 'Fixture.Sdk.dll'));
+    assert.equal(await verifySampleReferences(context, sample), 2);
+    assert.deepEqual(errors(), [
+      `✗ Sample 'QuickStart' uses 'Fixture.Sdk.Hidden' (Fixture.Sdk), which is not a public type of the SDK`,
+      `✗ Sample 'QuickStart' uses 'Fixture.Sdk.Hidden/Inner' (Fixture.Sdk), which is not a public type of the SDK`,
+    ]);
+  });
+
+  it('checks the types of the assemblies in Runtime/Internal/', async () => {
+    await mkdir(context.locations.internalAssemblyFolder, { recursive: true });
+    await copyFile(resolve(fixtures, 'Fixture.Sdk.dll'), resolve(context.locations.internalAssemblyFolder, 'Fixture.Sdk.dll'));
+    assert.equal(await verifySampleReferences(context, sample), 2);
+  });
+
+  it('warns that a sample that is not a project is not checked', async () => {
+    assert.equal(await verifySampleReferences(context, { ...sample, project: undefined, assembly: undefined }), 0);
+    assert.deepEqual(warnings(), [`⚠ Sample 'QuickStart' is not a C# project, so the types it uses are not checked`]);
+  });
+});
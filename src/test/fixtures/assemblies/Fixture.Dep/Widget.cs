@@ -0,0 +1,15 @@
+#if V1
+[assembly: System.Reflection.AssemblyVersion("1.0.0.0")]
+#else
+[assembly: System.Reflection.AssemblyVersion("2.0.0.0")]
+#endif
+
+namespace Fixture.Dep
+{
+    public class Widget
+    {
+        public class Part
+        {
+        }
+    }
+}
@@ -0,0 +1,14 @@
+using Fixture.Sdk;
+using Fixture.Sdk.Models;
+
+namespace Fixture.Sample
+{
+    public static class QuickStart
+    {
+        public static object Run()
+        {
+            var client = new Client();
+            return new object[] { client, new Client.Options(), Status.Active, new Hidden(), new Hidden.Inner() };
+        }
+    }
+}
@@ -0,0 +1,47 @@
+using System;
+using System.Runtime.CompilerServices;
+using Fixture.Dep;
+
+[assembly: System.Reflection.AssemblyVersion("1.2.3.4")]
+[assembly: InternalsVisibleTo("Fixture.Sample")]
+
+namespace Fixture.Sdk
+{
+    public class Client
+    {
+        public Widget.Part Part;
+
+        public Environment.SpecialFolder Folder;
+
+        public class Options
+        {
+        }
+
+        protected class Handler
+        {
+        }
+
+        private class Secret
+        {
+        }
+    }
+
+    public struct Token
+    {
+    }
+
+    internal class Hidden
+    {
+        public class Inner
+        {
+        }
+    }
+}
+
+namespace Fixture.Sdk.Models
+{
+    public enum Status
+    {
+        Active,
+    }
+}
@@ -0,0 +1,257 @@
+import AdmZip from 'adm-zip';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { resolve } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { sourcesFor } from '../nuget';
+import { configureNetwork, downloadPackage, findPackageUrl, NuGetFeed } from '../network';
+import { configureOutput } from '../output';
+
+/**
+ * A local stand-in for a NuGet v3 feed.
+ */
+interface StandInFeed {
+  /** the base URL of the server (ie, 'http://127.0.0.1:12345') */
+  origin: string;
+
+  /** the requests that the server received (the path, and the authorization header) */
+  requests: Array<{ path: string; authorization?: string }>;
+
+  /** stops the server */
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts an HTTP server on a free port; the handler returns false for a 404.
+ */
+async function startServer(handler: (request: IncomingMessage, response: ServerResponse, origin: string) => boolean | void): Promise<StandInFeed> {
+  const requests = new Array<{ path: string; authorization?: string }>();
+  let origin = '';
+  const server = createServer((request, response) => {
+    requests.push({ path: request.url ?? '', authorization: request.headers.authorization });
+    if (handler(request, response, origin) === false) {
+      response.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    origin,
+    requests,
+    close: () => new Promise<void>(done => server.close(() => done())),
+  };
+}
+
+/**
+ * Returns a .nupkg (a zip with a nuspec) for a package.
+ */
+function nupkg(id: string, version: string) {
+  const zip = new AdmZip();
+  zip.addFile(`${id}.nuspec`, Buffer.from(`<package><metadata><id>${id}</id><version>${version}</version></metadata></package>`));
+  return zip.toBuffer();
+}
+
+/**
+ * Serves a v3 feed with a service index, a flat container and package registrations.
+ *
+ * @param packages - The package versions in the feed (by lower case id)
+ * @param options - `flat: false` leaves out the flat container, `packageContent` moves the .nupkg downloads to another origin, and `password` requires the credentials
+ */
+function v3Feed(packages: Record<string, string[]>, options: { flat?: boolean; packageContent?: () => string; password?: string; nupkg?: (path: string, response: ServerResponse) => boolean } = {}) {
+  return (request: IncomingMessage, response: ServerResponse, origin: string): boolean | void => {
+    const json = (value: unknown) => !!response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(value));
+    const path = request.url ?? '';
+
+    if (options.password && request.headers.authorization !== `Basic ${Buffer.from(`build:${options.password}`).toString('base64')}`) {
+      response.writeHead(401).end();
+      return;
+    }
+    if (path === '/v3/index.json') {
+      return json({
+        version: '3.0.0',
+        resources: [
+          ...options.flat === false ? [] : [{ '@id': `${origin}/v3/flat`, '@type': 'PackageBaseAddress/3.0.0' }],
+          { '@id': `${origin}/v3/registration/`, '@type': ['RegistrationsBaseUrl/3.6.0', 'RegistrationsBaseUrl'] },
+        ],
+      });
+    }
+
+    const flatIndex = /^\/v3\/flat\/([^/]+)\/index\.json$/.exec(path);
+    if (flatIndex && options.flat !== false) {
+      return packages[flatIndex[1]] ? json({ versions: packages[flatIndex[1]] }) : false;
+    }
+
+    const registration = /^\/v3\/registration\/([^/]+)\/index\.json$/.exec(path);
+    if (registration) {
+      const id = registration[1];
+      return packages[id] ? json({
+        items: [{
+          items: packages[id].map(version => ({
+            catalogEntry: { id, version, listed: true },
+            packageContent: `${options.packageContent?.() ?? `${origin}/v3/flat`}/${id}/${version}/${id}.${version}.nupkg`,
+          })),
+        }],
+      }) : false;
+    }
+
+    const download = /^\/v3\/flat\/([^/]+)\/([^/]+)\/[^/]+\.nupkg$/.exec(path);
+    if (download && packages[download[1]]?.includes(download[2])) {
+      if (options.nupkg?.(path, response)) {
+        return;
+      }
+      response.writeHead(200, { 'content-type': 'application/octet-stream' }).end(nupkg(download[1], download[2]));
+      return;
+    }
+    return false;
+  };
+}
+
+describe('NuGet v3 client', () => {
+  const servers = new Array<StandInFeed>();
+  let folder: string;
+
+  const serve = async (handler: Parameters<typeof startServer>[0]) => {
+    const server = await startServer(handler);
+    servers.push(server);
+    return server;
+  };
+
+  before(() => {
+    configureOutput({ quiet: true });
+    configureNetwork({ retries: 2, retryDelay: 1, timeout: 5000 });
+  });
+
+  beforeEach(async () => {
+    folder = await mkdtemp(resolve(tmpdir(), 'make-unity-sdk-network-'));
+  });
+
+  afterEach(async () => {
+    await rm(folder, { recursive: true, force: true });
+  });
+
+  after(async () => {
+    await Promise.all(servers.map(each => each.close()));
+  });
+
+  describe('findPackageUrl', () => {
+    it('finds a package version in the flat container, with the version normalized', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0', '1.2.0'] }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json` };
+
+      assert.equal(await findPackageUrl(feed, 'Contoso.Api', '1.2'), `${server.origin}/v3/flat/contoso.api/1.2.0/contoso.api.1.2.0.nupkg`);
+      assert.equal(await findPackageUrl(feed, 'Contoso.Api', '2.0.0'), undefined);
+      assert.equal(await findPackageUrl(feed, 'Contoso.Missing', '1.0.0'), undefined);
+    });
+
+    it('uses the package registrations when the feed has no flat container', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, { flat: false }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json` };
+
+      assert.equal(await findPackageUrl(feed, 'Contoso.Api', '1.0.0.0'), `${server.origin}/v3/flat/contoso.api/1.0.0/contoso.api.1.0.0.nupkg`);
+      assert.ok(!server.requests.some(each => each.path.startsWith('/v3/flat/contoso.api/index.json')));
+    });
+  });
+
+  describe('downloadPackage', () => {
+    it('sends the credentials to the feed', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, { password: 'secret' }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json`, username: 'build', password: 'secret' };
+
+      assert.equal(await downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg')), feed);
+      assert.deepEqual(await readdir(folder), ['contoso.api.1.0.0.nupkg']);
+      assert.ok(server.requests.every(each => each.authorization?.startsWith('Basic ')));
+    });
+
+    it('fails without the credentials the feed requires', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, { password: 'secret' }));
+      const feed = { name: 'locked', url: `${server.origin}/v3/index.json` };
+
+      await assert.rejects(downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg')), /locked: .*401/);
+    });
+
+    it('does not send the credentials to a package download on another origin', async () => {
+      const cdn = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }));
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, { flat: false, packageContent: () => `${cdn.origin}/v3/flat` }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json`, username: 'build', password: 'secret' };
+
+      await downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg'));
+      assert.ok(server.requests.every(each => each.authorization));
+      assert.deepEqual(cdn.requests.map(each => each.authorization), [undefined]);
+    });
+
+    it('only tries the sources that the package source mapping allows', async () => {
+      const contoso = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }));
+      const nugetOrg = await serve(v3Feed({ 'contoso.api': ['1.0.0'], 'newtonsoft.json': ['13.0.3'] }));
+      const sources: NuGetFeed[] = [
+        { name: 'nuget.org', url: `${nugetOrg.origin}/v3/index.json` },
+        { name: 'contoso', url: `${contoso.origin}/v3/index.json` },
+      ];
+      const config = { sources, mapping: { contoso: ['Contoso.*'], 'nuget.org': ['Newtonsoft.*'] }, files: [] };
+
+      assert.equal((await downloadPackage(sourcesFor(config, 'Contoso.Api'), 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg'))).name, 'contoso');
+      assert.deepEqual(nugetOrg.requests, []);
+
+      assert.equal((await downloadPackage(sourcesFor(config, 'Newtonsoft.Json'), 'Newtonsoft.Json', '13.0.3', resolve(folder, 'newtonsoft.json.13.0.3.nupkg'))).name, 'nuget.org');
+      await assert.rejects(downloadPackage(sourcesFor(config, 'Other.Package'), 'Other.Package', '1.0.0', resolve(folder, 'other.package.1.0.0.nupkg')), /\(no package sources\)/);
+    });
+
+    it('tries the next source when a source does not have the package', async () => {
+      const empty = await serve(v3Feed({}));
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }));
+      const feeds = [{ name: 'empty', url: `${empty.origin}/v3/index.json` }, { name: 'contoso', url: `${server.origin}/v3/index.json` }];
+
+      assert.equal((await downloadPackage(feeds, 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg'))).name, 'contoso');
+    });
+
+    it('retries a download that fails with a 5xx status', async () => {
+      let failures = 1;
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, {
+        nupkg: (_, response) => failures-- > 0 && !!response.writeHead(503).end(),
+      }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json` };
+
+      await downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg'));
+      assert.equal(server.requests.filter(each => each.path.endsWith('.nupkg')).length, 2);
+      assert.deepEqual(await readdir(folder), ['contoso.api.1.0.0.nupkg']);
+    });
+
+    it('gives up after the retries, and does not retry a 4xx status', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0', '2.0.0'] }, {
+        nupkg: (path, response) => !!response.writeHead(path.includes('/1.0.0/') ? 500 : 403).end(),
+      }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json` };
+
+      await assert.rejects(downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg')), /500 .*\(after 3 attempts\)/);
+      await assert.rejects(downloadPackage([feed], 'Contoso.Api', '2.0.0', resolve(folder, 'contoso.api.2.0.0.nupkg')), /403/);
+      assert.equal(server.requests.filter(each => each.path.endsWith('.nupkg')).length, 4);
+      assert.deepEqual(await readdir(folder), []);
+    });
+
+    it('deletes the partial file when the download is not a valid package', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, {
+        nupkg: (_, response) => !!response.writeHead(200, { 'content-type': 'text/html' }).end('<html>Sign in</html>'),
+      }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json` };
+
+      await assert.rejects(downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg')), /not a valid zip file/);
+      assert.deepEqual(await readdir(folder), []);
+    });
+
+    it('deletes the partial file when the connection is closed during the download', async () => {
+      const server = await serve(v3Feed({ 'contoso.api': ['1.0.0'] }, {
+        nupkg: (_, response) => {
+          response.writeHead(200, { 'content-length': '100000' });
+          response.write(nupkg('Contoso.Api', '1.0.0').subarray(0, 10), () => response.destroy());
+          return true;
+        },
+      }));
+      const feed = { name: 'contoso', url: `${server.origin}/v3/index.json` };
+
+      await assert.rejects(downloadPackage([feed], 'Contoso.Api', '1.0.0', resolve(folder, 'contoso.api.1.0.0.nupkg')), /after 3 attempts/);
+      assert.deepEqual(await readdir(folder), []);
+    });
+  });
+});
@@ -1,48 +1,223 @@
 import AdmZip from 'adm-zip';
-import { writeFile } from 'node:fs/promises';
-import { basename, join } from 'node:path';
+import { copyFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
 import { cyan } from './ansi';
-import { directoryExists, ensureDirectoryExists, fileExists } from './filesystem';
+import { directoryExists, ensureDirectoryExists, fileChanged, fileExists, listFiles } from './filesystem';
 import { check, cross, error, info, verbose } from './output';
 
 /**
- * Checks if a file path matches a glob pattern.
- * 
- * This function converts a glob pattern (using * and ? wildcards) to a regular
- * expression and tests if the given file path matches the pattern.
- * 
- * @param filePath - The file path to test against the pattern
- * @param pattern - The glob pattern to match against (supports * and ? wildcards)
+ * Converts a glob pattern to a regular expression.
+ *
+ * - `*` matches anything but a `/`, and `?` matches one character (but not a `/`)
+ * - `**` matches anything, including `/` (so `lib/**.dll` matches the .dll files at any depth under `lib/`);
+ *   `**` followed by `/` also matches no folders at all
+ * - `[abc]`, `[a-z]` and `[!abc]` match one of (or none of) the characters
+ * - `{a,b}` matches either alternative
+ *
+ * A pattern without a `/` matches the file name at any depth (so `*.dll` matches every .dll).
+ * Matching ignores case, since NuGet packages aren't consistent about it.
+ */
+function globToRegExp(pattern: string) {
+  pattern = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  let source = pattern.includes('/') ? '^' : '^(?:.*/)?';
+  let alternatives = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // `**/` matches zero or more folders; `**` on its own matches anything
+          const slash = pattern[i + 2] === '/';
+          source += slash ? '(?:.*/)?' : '.*';
+          i += slash ? 2 : 1;
+        } else {
+          source += '[^/]*';
+        }
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '[': {
+        const close = pattern.indexOf(']', i + 2);
+        if (close === -1) {
+          source += '\\[';
+          break;
+        }
+        const negated = pattern[i + 1] === '!' || pattern[i + 1] === '^';
+        const members = pattern.slice(negated ? i + 2 : i + 1, close).replace(/[\\\]^]/g, '\\$&');
+        source += negated ? `[^/${members}]` : `[${members}]`;
+        i = close;
+        break;
+      }
+      case '{':
+        alternatives++;
+        source += '(?:';
+        break;
+      case '}':
+        source += alternatives ? ')' : '\\}';
+        alternatives = Math.max(0, alternatives - 1);
+        break;
+      case ',':
+        source += alternatives ? '|' : ',';
+        break;
+      default:
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`${source}$`, 'i');
+}
+
+/**
+ * Checks if a file path matches a glob pattern (see `globToRegExp` for the syntax).
+ *
+ * @param filePath - The file path to test against the pattern (using '/' or '\\' separators)
+ * @param pattern - The glob pattern to match against
  * @returns True if the file path matches the pattern, false otherwise
- * 
+ *
+ * @example
+ * ```typescript
+ * matchesPattern('lib/netstandard2.0/A.dll', '*.dll'); // true
+ * matchesPattern('lib/netstandard2.0/de/A.resources.dll', 'lib/netstandard2.0/*.dll'); // false
+ * matchesPattern('lib/netstandard2.0/de/A.resources.dll', 'lib/netstandard2.0/**.dll'); // true
+ * matchesPattern('lib/net462/A.xml', 'lib/{net462,netstandard2.0}/*.{dll,xml}'); // true
+ * ```
+ */
+export function matchesPattern(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath.replace(/\\/g, '/'));
+}
+
+/**
+ * Picks the files that match any of the include patterns, and none of the exclude patterns.
+ *
+ * @param entries - The paths of the files (using '/' separators)
+ * @param include - The glob patterns of the files to pick
+ * @param exclude - The glob patterns of the files to leave out
+ * @returns The files that were picked, and the patterns that matched no files (so that typos can be reported)
+ *
  * @example
  * ```typescript
- * matchesPattern('file.txt', '*.txt'); // true
- * matchesPattern('image.jpg', '*.png'); // false
- * matchesPattern('test.js', 'test.*'); // true
- * matchesPattern('config.json', 'config.???.json'); // false
+ * selectEntries(['lib/netstandard2.0/A.dll', 'lib/netstandard2.0/A.xml'], ['lib/netstandard2.0/*'], ['*.xml']);
+ * // { files: ['lib/netstandard2.0/A.dll'], unmatched: [] }
  * ```
  */
-function matchesPattern(filePath: string, pattern: string): boolean {
-  // Convert glob pattern to regex
-  const regexPattern = pattern
-    .replace(/\*/g, '.*')
-    .replace(/\?/g, '.');
-
-  const regex = new RegExp(`^${regexPattern}$`);
-  return regex.test(filePath);
+export function selectEntries(entries: string[], include: string[], exclude: string[] = []) {
+  const includes = include.map(pattern => ({ pattern, regex: globToRegExp(pattern), used: false }));
+  const excludes = exclude.map(pattern => ({ pattern, regex: globToRegExp(pattern), used: false }));
+  const files = new Array<string>();
+
+  for (const entry of entries) {
+    // (every pattern is tested, so that the ones that match nothing are known)
+    const included = includes.filter(each => each.regex.test(entry)).map(each => each.used = true).length > 0;
+    if (!included) {
+      continue;
+    }
+    const excluded = excludes.filter(each => each.regex.test(entry)).map(each => each.used = true).length > 0;
+    if (!excluded) {
+      files.push(entry);
+    }
+  }
+  return { files, unmatched: [...includes, ...excludes].filter(each => !each.used).map(each => each.pattern) };
+}
+
+/**
+ * Returns the deepest folder that contains all of the files (ie, `lib/netstandard2.0` for
+ * `lib/netstandard2.0/A.dll` and `lib/netstandard2.0/de/A.resources.dll`).
+ *
+ * @param files - The paths of the files (using '/' separators)
+ * @returns The folder (empty for the root)
+ */
+export function commonFolder(files: string[]) {
+  const folders = files.map(each => each.split('/').slice(0, -1));
+  const common = folders[0] ?? [];
+  let length = common.length;
+  for (const folder of folders) {
+    length = Math.min(length, folder.length);
+    while (length > 0 && common.slice(0, length).join('/').toLowerCase() !== folder.slice(0, length).join('/').toLowerCase()) {
+      length--;
+    }
+  }
+  return common.slice(0, length).join('/');
+}
+
+/**
+ * Returns where a file from a package goes in the output folder.
+ *
+ * @param file - The path of the file in the package (using '/' separators)
+ * @param folder - The folder in the package that subfolders are kept relative to (undefined to flatten the files)
+ * @returns The relative path in the output folder (using '/' separators)
+ *
+ * @example
+ * ```typescript
+ * targetPath('lib/netstandard2.0/de/A.resources.dll'); // 'A.resources.dll'
+ * targetPath('lib/netstandard2.0/de/A.resources.dll', 'lib/netstandard2.0'); // 'de/A.resources.dll'
+ * ```
+ */
+export function targetPath(file: string, folder?: string) {
+  if (folder === undefined) {
+    return basename(file);
+  }
+  return folder && file.toLowerCase().startsWith(`${folder.toLowerCase()}/`) ? file.slice(folder.length + 1) : folder ? basename(file) : file;
+}
+
+/**
+ * Checks that a file is a complete, readable ZIP archive (ie, a .nupkg).
+ *
+ * @param zipPath - The path to the ZIP file
+ * @param thorough - Also decompress every entry and check its CRC (otherwise only the directory at the end of the file is read, which finds truncated files)
+ * @returns A Promise that resolves when the file has been checked
+ * @throws {Error} If the file is not a ZIP archive, is truncated, or has a corrupt entry
+ *
+ * @example
+ * ```typescript
+ * await verifyZip('./temp/nuget/system.memory.4.6.3.nupkg');
+ * ```
+ */
+export async function verifyZip(zipPath: string, thorough = true) {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(zipPath);
+  } catch (err) {
+    throw new Error(`'${basename(zipPath)}' is not a valid zip file (${err instanceof Error ? err.message : err})`);
+  }
+  if (thorough && !zip.test()) {
+    throw new Error(`'${basename(zipPath)}' has a corrupt entry`);
+  }
+}
+
+/**
+ * Lists the files in a ZIP archive.
+ *
+ * @param zipPath - The path to the ZIP file
+ * @returns A Promise that resolves to the paths of the files (using '/' separators)
+ * @throws {Error} If the ZIP file cannot be read
+ *
+ * @example
+ * ```typescript
+ * const entries = await listEntries('./temp/nuget/system.memory.4.6.3.nupkg');
+ * // ['System.Memory.nuspec', 'lib/net462/System.Memory.dll', ...]
+ * ```
+ */
+export async function listEntries(zipPath: string) {
+  try {
+    return new AdmZip(zipPath).getEntries().filter(each => !each.isDirectory).map(each => each.entryName.replace(/\\/g, '/'));
+  } catch (err) {
+    throw new Error(`Failed to read ${zipPath}: ${err instanceof Error ? err.message : err}`);
+  }
 }
 
 /**
  * Extracts files from a ZIP archive that match a specific pattern.
  * 
  * This function opens a ZIP file and extracts only the files that match the
- * specified glob pattern. It provides detailed logging of the extraction process
- * and skips files that already exist in the target directory.
+ * specified glob pattern (or any of the patterns, when more than one is given). It provides detailed logging of the extraction process
+ * and skips files that already exist in the target directory. The files are put directly in the
+ * target directory, unless a folder is given to keep the subfolders relative to.
  * 
  * @param zipPath - The path to the ZIP file to extract from
- * @param pattern - The glob pattern to match files for extraction (e.g., '*.dll', 'lib/*.so')
+ * @param pattern - The glob pattern(s) to match files for extraction (e.g., '*.dll', 'lib/*.so'), or the paths of the files
  * @param outputDir - The directory where matching files should be extracted
+ * @param folder - The folder in the ZIP file to keep the subfolders relative to (see `targetPath`)
  * @returns A Promise that resolves when extraction is complete
  * @throws {Error} If the ZIP file cannot be read or files cannot be written
  * 
@@ -58,7 +233,7 @@ function matchesPattern(filePath: string, pattern: string): boolean {
  * await unzip('package.zip', '*.json', './config/');
  * ```
  */
-export async function unzip(zipPath: string, pattern: string, outputDir: string) {
+export async function unzip(zipPath: string, pattern: string | string[], outputDir: string, folder?: string) {
   try {
     const zip = new AdmZip(zipPath);
     const zipEntries = zip.getEntries();
@@ -76,20 +251,23 @@ export async function unzip(zipPath: string, pattern: string, outputDir: string)
       const entryPath = entry.entryName.replace(/\\/g, '/'); // Normalize path separators
 
       // Check if this file matches any of our patterns
-      const matchesAnyPattern = matchesPattern(entryPath, pattern);
+      const matchesAnyPattern = (Array.isArray(pattern) ? pattern : [pattern]).some(each => each === entryPath || matchesPattern(entryPath, each));
 
       if (matchesAnyPattern) {
         const fileName = basename(entryPath);
-        const outputPath = join(outputDir, fileName);
+        const outputPath = join(outputDir, targetPath(entryPath, folder));
 
         if (await fileExists(outputPath)) {
+          fileChanged('unchanged', outputPath);
           verbose(`  ${check} Skipped '${cyan(outputPath)}' - file exists`);
           continue;
         }
 
         try {
           const fileData = entry.getData();
+          await ensureDirectoryExists(dirname(outputPath));
           await writeFile(outputPath, fileData);
+          fileChanged('created', outputPath);
           info(`  ${check} Extracted '${cyan(outputPath)}'`);
           extractedCount++;
         } catch (err) {
@@ -103,4 +281,52 @@ export async function unzip(zipPath: string, pattern: string, outputDir: string)
     error(`Failed to extract files from ${zipPath}:`, err);
     throw err;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Copies the files from an extracted package folder that match a specific pattern.
+ *
+ * This works like `unzip`, for a package that has already been extracted (ie, in
+ * the global packages folder): the matching files are copied to the output
+ * directory, and files that already exist there are skipped.
+ *
+ * @param folder - The extracted package folder
+ * @param pattern - The glob pattern(s) to match files (relative to the folder, e.g. 'lib/netstandard2.0/*.dll'), or the paths of the files
+ * @param outputDir - The directory where matching files should be copied
+ * @param subfolder - The folder in the package to keep the subfolders relative to (see `targetPath`)
+ * @returns A Promise that resolves when the files have been copied
+ * @throws {Error} If the folder cannot be read or files cannot be written
+ *
+ * @example
+ * ```typescript
+ * await extractFolder('~/.nuget/packages/system.buffers/4.6.1', 'lib/netstandard2.0/*', './Runtime/Internal/');
+ * ```
+ */
+export async function extractFolder(folder: string, pattern: string | string[], outputDir: string, subfolder?: string) {
+  if (!await directoryExists(outputDir)) {
+    await ensureDirectoryExists(outputDir);
+  }
+
+  for (const entryPath of await listFiles(folder)) {
+    if (!(Array.isArray(pattern) ? pattern : [pattern]).some(each => each === entryPath || matchesPattern(entryPath, each))) {
+      continue;
+    }
+
+    const outputPath = join(outputDir, targetPath(entryPath, subfolder));
+    if (await fileExists(outputPath)) {
+      fileChanged('unchanged', outputPath);
+      verbose(`  ${check} Skipped '${cyan(outputPath)}' - file exists`);
+      continue;
+    }
+
+    try {
+      await ensureDirectoryExists(dirname(outputPath));
+      await copyFile(resolve(folder, entryPath), outputPath);
+      fileChanged('created', outputPath);
+      info(`  ${check} Extracted '${cyan(outputPath)}'`);
+    } catch (err) {
+      error(`  ${cross} Failed to copy ${cyan(entryPath)} from ${folder}:`, err);
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { cyan } from './ansi';
+import { Asset, assetVersion } from './assets';
+import { PackageContext, PackageReference } from './context';
+import { compareVersions } from './frameworks';
+import { info, warn, warning } from './output';
+
+/**
+ * A Unity (UPM) package that provides a NuGet package, so that it doesn't have to be bundled.
+ */
+export interface UpmPackage {
+  /** the NuGet package id */
+  id: string;
+
+  /** the UPM package name */
+  name: string;
+
+  /** the UPM package version */
+  version: string;
+
+  /** the version of the NuGet package that the UPM package has (if known) */
+  nugetVersion?: string;
+
+  /** the assemblies that the UPM package provides (when not given, the runtime assemblies of the NuGet package) */
+  assemblies?: string[];
+}
+
+/**
+ * The built-in mapping of NuGet packages to the UPM packages that Unity publishes for them.
+ *
+ * Bundling these packages would clash with projects that already have the UPM package
+ * (Unity fails to compile with duplicate assemblies), so they become UPM dependencies
+ * instead. The `upmPackage` option adds to (or removes from) this list.
+ */
+export const upmPackages: UpmPackage[] = [
+  {
+    id: 'Newtonsoft.Json',
+    name: 'com.unity.nuget.newtonsoft-json',
+    version: '3.2.1',
+    nugetVersion: '13.0.2',
+    assemblies: ['Newtonsoft.Json'],
+  },
+  {
+    id: 'Mono.Cecil',
+    name: 'com.unity.nuget.mono-cecil',
+    version: '1.11.4',
+    nugetVersion: '0.11.4',
+    assemblies: ['Mono.Cecil', 'Mono.Cecil.Mdb', 'Mono.Cecil.Pdb', 'Mono.Cecil.Rocks'],
+  },
+];
+
+/**
+ * Parses a UPM package reference (ie, `com.unity.nuget.newtonsoft-json@3.2.1`).
+ *
+ * @param value - The reference
+ * @returns The name and version, or undefined if the value isn't `<name>@<version>`
+ *
+ * @example
+ * ```typescript
+ * parseUpmReference('com.unity.nuget.newtonsoft-json@3.2.1'); // { name: 'com.unity.nuget.newtonsoft-json', version: '3.2.1' }
+ * ```
+ */
+export function parseUpmReference(value: string) {
+  const [, name, version] = /^([^@\s]+)@(\S+)$/.exec(value.trim()) ?? [];
+  return name ? { name, version } : undefined;
+}
+
+/**
+ * Returns the mapping of NuGet packages to UPM packages: the built-in list (see `upmPackages`),
+ * with the entries in the `upmPackage` option (`<id>=<name>@<version>`) added, and the ones
+ * with an empty value (`<id>=`) removed.
+ *
+ * @param context - The package context
+ * @returns The UPM packages, by NuGet package id (lower case)
+ */
+export function upmMapping(context: PackageContext) {
+  const mapping = new Map(upmPackages.map(each => [each.id.toLowerCase(), each]));
+  for (const [id, value] of Object.entries(context.options.upmPackage ?? {})) {
+    const reference = parseUpmReference(value);
+    if (reference) {
+      mapping.set(id.toLowerCase(), { id, ...reference });
+    } else {
+      mapping.delete(id.toLowerCase());
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Replaces the NuGet packages that have a UPM package with references to the UPM packages.
+ *
+ * Each mapped package becomes a package reference (see `PackageReference`), so that it is
+ * added to the `dependencies` in the package.json, its assemblies are treated as provided
+ * (they are not copied from the build output, and references to them are satisfied), and
+ * it is not bundled. A warning is shown when the project uses a higher version of the NuGet
+ * package than the UPM package has. The references added by an earlier call are replaced.
+ *
+ * @param context - The package context (the package references are updated)
+ * @param packages - The NuGet packages that the project depends on
+ * @returns The packages that are still to be bundled
+ *
+ * @example
+ * ```typescript
+ * context.assets = mapUpmPackages(context, await deriveAssets(context));
+ * ```
+ */
+export function mapUpmPackages(context: PackageContext, packages: Asset[]) {
+  const mapping = upmMapping(context);
+  const references = new Array<PackageReference>();
+  const result = new Array<Asset>();
+
+  for (const pkg of packages) {
+    const upm = mapping.get(pkg.name.toLowerCase());
+    if (!upm) {
+      result.push(pkg);
+      continue;
+    }
+
+    const version = assetVersion(pkg);
+    const numbers = (value: string) => value.split(/[-+]/)[0].split('.').map(Number);
+    if (upm.nugetVersion && compareVersions(numbers(version), numbers(upm.nugetVersion)) > 0) {
+      warn(`${warning} The project uses '${cyan(pkg.name)}' ${version}, but ${upm.name} ${upm.version} has ${upm.nugetVersion}`);
+    }
+    info(`  '${cyan(pkg.name)}' ${version} is provided by ${upm.name} ${upm.version}`);
+
+    const existing = references.find(each => each.name === upm.name);
+    const assemblies = upm.assemblies ?? pkg.assemblies ?? [pkg.name];
+    if (existing) {
+      existing.assemblies.push(...assemblies);
+      existing.packages.push(pkg.name);
+    } else {
+      references.push({ name: upm.name, version: upm.version, assemblies: [...assemblies], packages: [pkg.name], upm: true });
+    }
+  }
+
+  context.packageReferences = [...context.packageReferences.filter(each => !each.upm), ...references];
+  return result;
+}
@@ -0,0 +1,270 @@
+import { FSWatcher, watch } from 'node:fs';
+import { dirname, extname, relative, resolve, sep } from 'node:path';
+import { cyan, green, grey, red } from './ansi';
+import { PackageContext, requireSolutionFile } from './context';
+import { FileChangeKind, fileExists, onFileChange } from './filesystem';
+import { registerGuids } from './guids';
+import { initPackageMetadata } from './metadata';
+import { check, cross, errorCount, log, resetErrorCount, verbose } from './output';
+import { createMetaFiles, updateResource, verifyPackageFiles } from './packaging';
+import { assembleStage, buildStage, needsBuild, packStage, placeholderValues, resourcesFolder, resourcesStage, verifyStage } from './pipeline';
+
+/**
+ * The options for watch mode.
+ */
+export interface WatchOptions {
+  /** re-pack the .tgz after each cycle (when there are no errors) */
+  pack?: boolean;
+
+  /** how long to wait (in milliseconds) after the last change before running a cycle (default: 300) */
+  delay?: number;
+
+  /** stops watching when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * The stages that a watch cycle can run.
+ */
+export type WatchStage = 'build' | 'assemble' | 'resources' | 'meta' | 'verify' | 'pack';
+
+/**
+ * What happened in a single watch cycle.
+ */
+export interface WatchCycle {
+  /** the cycle number (0 is the initial run) */
+  cycle: number;
+
+  /** the files that changed (empty for the initial run) */
+  trigger: string[];
+
+  /** the stages that were run */
+  stages: WatchStage[];
+
+  /** the number of files in the package folder that were created, updated, etc. */
+  changes: Record<FileChangeKind, number>;
+
+  /** the number of errors reported */
+  errors: number;
+
+  /** the error that stopped the cycle (if any) */
+  failure?: string;
+
+  /** how long the cycle took, in milliseconds */
+  duration: number;
+}
+
+/**
+ * Files with these extensions are project sources; a change means the solution must be rebuilt.
+ */
+const sourceExtensions = new Set(['.cs', '.csproj', '.props', '.targets', '.sln']);
+
+/**
+ * Folders that contain build output (which includes generated .cs files) and are never watched.
+ */
+const ignoredFolders = new Set(['bin', 'obj', '.git', '.vs', 'node_modules']);
+
+/**
+ * Checks if a changed file is a project source.
+ *
+ * @param filePath - The full path to the changed file
+ * @param solutionFolder - The folder that contains the solution file
+ */
+function isSourceFile(filePath: string, solutionFolder: string) {
+  return sourceExtensions.has(extname(filePath).toLowerCase()) &&
+    !relative(solutionFolder, filePath).split(sep).some(segment => ignoredFolders.has(segment));
+}
+
+/**
+ * Prints the summary of a watch cycle.
+ *
+ * @param result - The watch cycle
+ */
+function showCycle({ cycle, trigger, stages, changes, errors, failure, duration }: WatchCycle) {
+  const title = cycle === 0 ? 'initial run' : `${trigger.length} file(s) changed`;
+  const counts = (Object.keys(changes) as FileChangeKind[]).filter(kind => kind !== 'unchanged' && changes[kind]).map(kind => `${changes[kind]} ${kind}`);
+  const status = failure || errors ? `${cross} ${red(`${errors || 1} error(s)`)}` : check;
+
+  log(`\n${status} Cycle ${cycle} (${title}) in ${(duration / 1000).toFixed(1)}s`);
+  for (const file of trigger.slice(0, 5)) {
+    log(`    ${grey('changed')} ${cyan(file)}`);
+  }
+  if (trigger.length > 5) {
+    log(`    ${grey(`... and ${trigger.length - 5} more`)}`);
+  }
+  log(`    stages:  ${stages.length ? stages.join(', ') : 'none'}`);
+  log(`    package: ${counts.length ? counts.join(', ') : 'no changes'}`);
+  if (failure) {
+    log(`    ${red(failure)}`);
+  }
+  log(grey('  Watching for changes (Ctrl+C to stop)...'));
+}
+
+/**
+ * Runs the pipeline, then watches the solution's project sources and the resource
+ * files, and reruns the affected stages when they change.
+ *
+ * - when project sources (.cs, .csproj, etc.) change, the solution is rebuilt and the package folder is assembled again
+ * - when resource files change, they are copied to the package folder again and the package files are verified
+ * - when files are added to (or deleted from) the package folder, the .meta files are refreshed
+ *
+ * Changes are debounced, and a summary is shown after each cycle. A cycle that fails
+ * is reported, and watching continues.
+ *
+ * @param context - The package context
+ * @param options - The watch options
+ * @returns A Promise that resolves when watching stops (when the signal is aborted)
+ * @throws {Error} If the solution file does not exist
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * process.on('SIGINT', () => controller.abort());
+ * await watchPackage(createContext({ sln: './MyApi.sln' }), { pack: true, signal: controller.signal });
+ * ```
+ */
+export async function watchPackage(context: PackageContext, options: WatchOptions = {}) {
+  const sln = requireSolutionFile(context);
+  if (!await fileExists(sln)) {
+    throw new Error(`Solution file '${sln}' does not exist`);
+  }
+  const { packageFolder } = context.locations;
+  const solutionFolder = dirname(sln);
+  const delay = options.delay ?? 300;
+
+  let cycle = 0;
+  let running: Promise<void> | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  const pending = new Set<string>();
+
+  /** runs the stages for a set of changed files (or everything, for the initial run) */
+  async function runCycle(changed: string[]) {
+    const started = Date.now();
+    const result: WatchCycle = {
+      cycle: cycle++,
+      trigger: changed.map(each => relative(process.cwd(), each).startsWith('..') ? each : relative(process.cwd(), each)),
+      stages: [],
+      changes: { created: 0, updated: 0, unchanged: 0, deleted: 0 },
+      errors: 0,
+      duration: 0,
+    };
+    const stop = onFileChange((kind, filePath) => {
+      if (!relative(packageFolder, filePath).startsWith('..')) {
+        result.changes[kind]++;
+      }
+    });
+
+    resetErrorCount();
+    try {
+      const sources = changed.filter(each => isSourceFile(each, solutionFolder));
+      const resources = changed.filter(each => !relative(resourcesFolder, each).startsWith('..'));
+
+      if (result.cycle === 0 || sources.length) {
+        // the initial run only builds if there is no build output
+        const force = result.cycle !== 0 || !!context.options.rebuild;
+        // the dependencies may have changed (ie, a PackageReference in a .csproj)
+        context.assets = undefined;
+        context.nugetConfig = undefined;
+        if (await needsBuild(context, force)) {
+          result.stages.push('build');
+        }
+        await buildStage(context, force);
+        await assembleStage(context);
+        result.stages.push('assemble');
+        await verifyStage(context);
+        result.stages.push('verify');
+      } else if (resources.length) {
+        if (!context.packageMetadata.name) {
+          await initPackageMetadata(context);
+        }
+        // resource files that were edited replace the files in the package folder
+        for (const sourcePath of resources) {
+          if (await fileExists(sourcePath)) {
+            await updateResource(sourcePath, resolve(packageFolder, relative(resourcesFolder, sourcePath)), ...placeholderValues(context));
+          }
+        }
+        await resourcesStage(context);
+        result.stages.push('resources');
+
+        if (result.changes.created || result.changes.deleted) {
+          await createMetaFiles(packageFolder, packageFolder, context.options.plugins, await registerGuids(context));
+          result.stages.push('meta');
+        }
+
+        await verifyPackageFiles(packageFolder);
+        result.stages.push('verify');
+      }
+
+      if (options.pack && result.stages.length && errorCount === 0) {
+        await packStage(context);
+        result.stages.push('pack');
+      }
+    } catch (err) {
+      result.failure = err instanceof Error ? err.message : `${err}`;
+    } finally {
+      stop();
+    }
+
+    result.errors = errorCount;
+    result.duration = Date.now() - started;
+    showCycle(result);
+  }
+
+  /** runs a cycle for the pending changes (after any running cycle has finished) */
+  function schedule() {
+    clearTimeout(timer);
+    timer = setTimeout(async () => {
+      while (running) {
+        await running;
+      }
+      if (pending.size === 0 || options.signal?.aborted) {
+        return;
+      }
+      const changed = [...pending];
+      pending.clear();
+      running = runCycle(changed);
+      await running;
+      running = undefined;
+    }, delay);
+  }
+
+  /** records a change reported by a watcher */
+  function changed(folder: string, filename: string | null) {
+    if (!filename) {
+      return;
+    }
+    const filePath = resolve(folder, filename);
+    if (!relative(packageFolder, filePath).startsWith('..')) {
+      // changes in the package folder are made by the pipeline
+      return;
+    }
+    if (folder === resourcesFolder || isSourceFile(filePath, solutionFolder)) {
+      verbose(`  ${grey('changed')} ${cyan(filePath)}`);
+      pending.add(filePath);
+      schedule();
+    }
+  }
+
+  running = runCycle([]);
+  await running;
+  running = undefined;
+
+  const watchers: FSWatcher[] = [
+    watch(solutionFolder, { recursive: true }, (_, filename) => changed(solutionFolder, filename)),
+    watch(resourcesFolder, { recursive: true }, (_, filename) => changed(resourcesFolder, filename)),
+  ];
+
+  await new Promise<void>(done => {
+    if (options.signal?.aborted) {
+      return done();
+    }
+    options.signal?.addEventListener('abort', () => done(), { once: true });
+  });
+
+  clearTimeout(timer);
+  for (const watcher of watchers) {
+    watcher.close();
+  }
+  await running;
+  log(green('> Stopped watching.'));
+}
@@ -0,0 +1,138 @@
+/**
+ * An element in an XML document.
+ */
+export interface XmlElement {
+  /** the element name (including the prefix, if any) */
+  name: string;
+
+  /** the attributes of the element */
+  attributes: Record<string, string>;
+
+  /** the child elements */
+  children: XmlElement[];
+
+  /** the text content of the element (not including the text of the child elements) */
+  text: string;
+}
+
+const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Replaces the character and entity references in XML text.
+ *
+ * @param text - The text to decode
+ * @returns The decoded text
+ */
+function decode(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) =>
+    entity[0] !== '#' ? entities[entity] ?? match :
+      String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)));
+}
+
+/**
+ * Parses an XML document.
+ *
+ * This is a small, non-validating parser for the XML files that NuGet uses (nuget.config,
+ * .nuspec): it handles elements, attributes, text, CDATA sections and the standard
+ * entities, and skips the XML declaration, comments, processing instructions and doctypes.
+ * Namespaces are not resolved.
+ *
+ * @param xml - The XML text
+ * @returns The root element
+ * @throws {Error} If the XML is not well-formed
+ *
+ * @example
+ * ```typescript
+ * const root = parseXml('<configuration><packageSources><clear /></packageSources></configuration>');
+ * // root.children[0].name === 'packageSources'
+ * ```
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [{ name: '', attributes: {}, children: [], text: '' }];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    const line = xml.slice(0, position).split('\n').length;
+    throw new Error(`Invalid XML (line ${line}): ${message}`);
+  };
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    const text = xml.slice(position, open === -1 ? xml.length : open);
+    stack[stack.length - 1].text += decode(text);
+    if (open === -1) {
+      break;
+    }
+    position = open;
+
+    if (xml.startsWith('<!--', position)) {
+      const end = xml.indexOf('-->', position);
+      position = end === -1 ? fail('unterminated comment') : end + 3;
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = xml.indexOf(']]>', position);
+      if (end === -1) {
+        fail('unterminated CDATA section');
+      }
+      stack[stack.length - 1].text += xml.slice(position + 9, end);
+      position = end + 3;
+    } else if (xml.startsWith('<?', position) || xml.startsWith('<!', position)) {
+      const end = xml.indexOf('>', position);
+      position = end === -1 ? fail('unterminated declaration') : end + 1;
+    } else if (xml.startsWith('</', position)) {
+      const end = xml.indexOf('>', position);
+      if (end === -1) {
+        fail('unterminated end tag');
+      }
+      const name = xml.slice(position + 2, end).trim();
+      const element = stack.pop()!;
+      if (stack.length === 0 || element.name !== name) {
+        fail(`unexpected </${name}>`);
+      }
+      position = end + 1;
+    } else {
+      const tag = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(position));
+      if (!tag) {
+        fail('invalid start tag');
+      }
+      const [whole, name, attributeText, selfClosing] = tag!;
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[key] = decode(doubleQuoted ?? singleQuoted);
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position += whole.length;
+    }
+  }
+
+  if (stack.length !== 1) {
+    fail(`<${stack[stack.length - 1].name}> is not closed`);
+  }
+  const [root] = stack[0].children;
+  return root ?? fail('no root element');
+}
+
+/**
+ * Returns the child elements with a name (ignoring case, and any namespace prefix).
+ *
+ * @param element - The parent element
+ * @param name - The name of the child elements
+ * @returns The matching child elements
+ */
+export function childElements(element: XmlElement | undefined, name: string) {
+  const lower = name.toLowerCase();
+  return (element?.children ?? []).filter(each => each.name.replace(/^.*:/, '').toLowerCase() === lower);
+}
+
+/**
+ * Returns the first child element with a name (ignoring case, and any namespace prefix).
+ *
+ * @param element - The parent element
+ * @param name - The name of the child element
+ * @returns The child element, or undefined if there isn't one
+ */
+export function childElement(element: XmlElement | undefined, name: string) {
+  return childElements(element, name)[0];
+}
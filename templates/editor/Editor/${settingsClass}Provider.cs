@@ -0,0 +1,78 @@
+// Generated by make-unity-sdk from a template (see the editorTemplates option)
+using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Linq;
+using UnityEditor;
+using UnityEngine;
+
+namespace ${sdkNamespace}.Editor
+{
+    /// <summary>
+    /// Shows the <see cref="${settingsClass}"/> in Project Settings > ${displayName}.
+    /// </summary>
+    /// <remarks>
+    /// The settings asset is created (in Assets/Resources/) when the settings are first shown.
+    /// </remarks>
+    class ${settingsClass}Provider : SettingsProvider
+    {
+        const string AssetPath = "Assets/Resources/" + ${settingsClass}.ResourceName + ".asset";
+
+        SerializedObject settings;
+
+        ${settingsClass}Provider() : base("Project/${displayName}", SettingsScope.Project)
+        {
+            keywords = new HashSet<string>(new[] { "Environment", "Base URL", "API Key" });
+        }
+
+        [SettingsProvider]
+        static SettingsProvider Create() => new ${settingsClass}Provider();
+
+        static ${settingsClass} LoadOrCreate()
+        {
+            var asset = AssetDatabase.LoadAssetAtPath<${settingsClass}>(AssetPath);
+            if (asset == null)
+            {
+                asset = ScriptableObject.CreateInstance<${settingsClass}>();
+                Directory.CreateDirectory(Path.GetDirectoryName(AssetPath));
+                AssetDatabase.CreateAsset(asset, AssetPath);
+                AssetDatabase.SaveAssets();
+            }
+            return asset;
+        }
+
+        public override void OnGUI(string searchContext)
+        {
+            if (settings == null || settings.targetObject == null)
+            {
+                settings = new SerializedObject(LoadOrCreate());
+            }
+            settings.Update();
+
+            // (the serialized fields, after the script)
+            var property = settings.GetIterator();
+            property.NextVisible(true);
+            while (property.NextVisible(false))
+            {
+                var label = new GUIContent(property.displayName, property.tooltip);
+                switch (property.name)
+                {
+                    case "environment" when ${settingsClass}.EnvironmentNames.Length > 0:
+                        var index = Math.Max(0, Array.IndexOf(${settingsClass}.EnvironmentNames, property.stringValue));
+                        index = EditorGUILayout.Popup(label, index, ${settingsClass}.EnvironmentNames.Select(each => new GUIContent(each)).ToArray());
+                        property.stringValue = ${settingsClass}.EnvironmentNames[index];
+                        break;
+
+                    case "apiKey":
+                        property.stringValue = EditorGUILayout.PasswordField(label, property.stringValue);
+                        break;
+
+                    default:
+                        EditorGUILayout.PropertyField(property, label);
+                        break;
+                }
+            }
+            settings.ApplyModifiedProperties();
+        }
+    }
+}
@@ -0,0 +1,69 @@
+// Generated by make-unity-sdk from a template (see the editorTemplates option)
+using System;
+using UnityEngine;
+
+namespace ${sdkNamespace}
+{
+    /// <summary>
+    /// The settings of the ${displayName} SDK: the environment (or a base URL), the API key and the client options.
+    /// </summary>
+    /// <remarks>
+    /// They are edited in Project Settings > ${displayName}, and saved in Assets/Resources/${settingsClass}.asset,
+    /// so that they can be loaded at runtime (see <see cref="Load"/>).
+    /// </remarks>
+    public class ${settingsClass} : ScriptableObject
+    {
+        /// <summary>The name of the settings asset (in a Resources folder).</summary>
+        public const string ResourceName = "${settingsClass}";
+
+        /// <summary>The names of the SDK's environments.</summary>
+        public static readonly string[] EnvironmentNames = { ${environmentNames} };
+
+        /// <summary>The base URLs of the SDK's environments (in the same order as their names).</summary>
+        public static readonly string[] EnvironmentUrls = { ${environmentUrls} };
+
+        [SerializeField, Tooltip("The environment that the SDK calls")]
+        string environment = ${defaultEnvironment};
+
+        [SerializeField, Tooltip("The base URL to call instead of the environment's (ie, a local server)")]
+        string baseUrl = "";
+
+        [SerializeField, Tooltip("The API key (it is included in builds)")]
+        string apiKey = "";
+${clientOptionFields}
+
+        /// <summary>The name of the environment that the SDK calls.</summary>
+        public string Environment
+        {
+            get => environment;
+            set => environment = value;
+        }
+
+        /// <summary>The base URL that the SDK calls (the environment's, unless one is set).</summary>
+        public string BaseUrl
+        {
+            get
+            {
+                if (!string.IsNullOrEmpty(baseUrl))
+                {
+                    return baseUrl;
+                }
+                var index = Array.IndexOf(EnvironmentNames, environment);
+                return index >= 0 ? EnvironmentUrls[index] : null;
+            }
+            set => baseUrl = value;
+        }
+
+        /// <summary>The API key.</summary>
+        public string ApiKey
+        {
+            get => apiKey;
+            set => apiKey = value;
+        }
+
+        /// <summary>Loads the settings (from Assets/Resources/${settingsClass}.asset).</summary>
+        /// <returns>The settings, or null if they haven't been saved</returns>
+        public static ${settingsClass} Load() => Resources.Load<${settingsClass}>(ResourceName);
+${clientOptionsMethod}
+    }
+}